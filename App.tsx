@@ -1,65 +1,214 @@
-import React, { useState, useEffect } from 'react';
-import { Settings, Server, Play, AlertCircle, CheckCircle2, Terminal, MessageSquare, Loader2, Globe, Code, Book, Feather, Smile, Key, Eye, EyeOff, Layout, Database, Activity, Zap, Trash2, Plus } from 'lucide-react';
-import { AppConfig, ConnectionStatus, AnythingLLMWorkspace } from './types';
-import { DEFAULT_HOST, DEFAULT_OLLAMA_PORT, DEFAULT_ANYTHINGLLM_PORT, DEFAULT_MODEL, PROMPT_PRESETS, DEFAULT_PROVIDER, DEFAULT_API_KEY } from './constants';
-import * as ollamaService from './services/ollama';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Settings, Server, Play, AlertCircle, CheckCircle2, Terminal, MessageSquare, Loader2, Code, Key, Eye, EyeOff, Layout, Database, Activity, Zap, Trash2, Plus, Columns, ListOrdered, FlaskConical, Gauge } from 'lucide-react';
+import { AppConfig, ConnectionStatus, AnythingLLMWorkspace, ChatMessage, Conversation, ConnectionProfile, GenerationParams, HttpExchange, ImageAttachment, LLMErrorKind, LLMProvider, MetricSample, PlaygroundCall, PlaygroundCollection, PlaygroundRequest, PromptPreset, ProviderModel } from './types';
+import { DEFAULT_HOST, DEFAULT_PROVIDER, DEFAULT_API_KEY, DEFAULT_REQUEST_POLICY } from './constants';
 import { AnythingLLMClient, SDK_METHODS } from './services/anythingllm-sdk';
+import { isAbortError } from './services/streaming';
+import { policyFromConfig } from './services/http';
+import { getErrorKind, DEFAULT_ERROR_ADVICE } from './services/errors';
+import { PROVIDER_LIST, getProvider } from './services/providers';
+import { conversationKey, createConversation, createMessage, generateId, historyForRequest, withoutImageData } from './services/conversations';
+import { loadJSON, saveJSON, downloadFile, STORAGE_KEYS } from './services/storage';
+import { loadGenerationPresets } from './services/generation-presets';
+import { measureResponse, addMetricSample } from './services/metrics';
+import { parseJsonReply } from './services/markdown';
+import { validateParams, runPlaygroundCall, loadPlaygroundHistory, recordPlaygroundCalls, clearPlaygroundHistory, loadPlaygroundCollections, savePlaygroundCollections } from './services/playground';
+import { OpenApiDocument, generateSdkMethods } from './services/openapi';
+import { ANYTHINGLLM_OPENAPI_SPEC } from './services/anythingllm-openapi';
+import { loadProfiles, saveProfiles, createProfile, profileToConfig, exportProfiles, parseProfilesImport, mergeProfiles } from './services/profiles';
+import { decryptSecret } from './services/crypto';
+import { loadPromptLibrary, savePromptLibrary } from './services/prompt-library';
+import ChatPanel from './components/ChatPanel';
+import ProfilesPanel from './components/ProfilesPanel';
+import OllamaModelPanel from './components/OllamaModelPanel';
+import DocumentsPanel, { DOCUMENT_DRAG_TYPE } from './components/DocumentsPanel';
+import WorkspaceSettingsPanel from './components/WorkspaceSettingsPanel';
+import WorkspaceThreads from './components/WorkspaceThreads';
+import ChatHistoryPanel from './components/ChatHistoryPanel';
+import AdminPanel from './components/AdminPanel';
+import SystemPanel from './components/SystemPanel';
+import ComparePanel from './components/ComparePanel';
+import BatchPanel from './components/BatchPanel';
+import EvalPanel from './components/EvalPanel';
+import GenerationParamsPanel from './components/GenerationParamsPanel';
+import MetricsPanel from './components/MetricsPanel';
+import JsonTree from './components/JsonTree';
+import ParamInput from './components/ParamInput';
+import OpenApiSpecBar from './components/OpenApiSpecBar';
+import PlaygroundHistoryPanel from './components/PlaygroundHistoryPanel';
+import RequestInspector from './components/RequestInspector';
+import PromptLibrary from './components/PromptLibrary';
 
-// Icon mapping helper
-const getIcon = (iconName: string, className: string) => {
-  switch (iconName) {
-    case 'smile': return <Smile className={className} />;
-    case 'feather': return <Feather className={className} />;
-    case 'book': return <Book className={className} />;
-    case 'code': return <Code className={className} />;
-    case 'globe': return <Globe className={className} />;
-    default: return <MessageSquare className={className} />;
-  }
+/**
+ * Restore the last used connection. API keys are not part of the saved config;
+ * they come from the active profile (plain-text only; encrypted keys need unlocking).
+ */
+const loadInitialConfig = (): AppConfig => {
+  const defaults: AppConfig = {
+    provider: DEFAULT_PROVIDER,
+    host: DEFAULT_HOST,
+    port: getProvider(DEFAULT_PROVIDER).defaultPort,
+    model: getProvider(DEFAULT_PROVIDER).defaultModel,
+    apiKey: DEFAULT_API_KEY,
+  };
+  const saved = loadJSON<Partial<AppConfig> | null>(STORAGE_KEYS.config, null);
+  const activeId = loadJSON<string | null>(STORAGE_KEYS.activeProfileId, null);
+  const activeProfile = loadProfiles().find(p => p.id === activeId);
+  const merged = { ...defaults, ...saved, apiKey: activeProfile?.apiKey || DEFAULT_API_KEY };
+  // Ignore a saved provider that no longer exists in the registry
+  return getProvider(merged.provider) ? merged : defaults;
 };
 
 const App: React.FC = () => {
   // Configuration State
-  const [config, setConfig] = useState<AppConfig>({
-    provider: DEFAULT_PROVIDER,
-    host: DEFAULT_HOST,
-    port: DEFAULT_ANYTHINGLLM_PORT,
-    model: DEFAULT_MODEL,
-    apiKey: DEFAULT_API_KEY,
-  });
+  const [config, setConfig] = useState<AppConfig>(loadInitialConfig);
+
+  // Saved Connection Profiles
+  const [profiles, setProfiles] = useState<ConnectionProfile[]>(loadProfiles);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(
+    () => loadJSON<string | null>(STORAGE_KEYS.activeProfileId, null)
+  );
 
   // App State
   const [status, setStatus] = useState<ConnectionStatus>('idle');
-  const [response, setResponse] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [errorKind, setErrorKind] = useState<LLMErrorKind | null>(null);
   const [selectedPromptId, setSelectedPromptId] = useState<string | null>(null);
+  const [promptLibrary, setPromptLibrary] = useState<PromptPreset[]>(loadPromptLibrary);
+  // A preset that pinned another provider/model waits here until the switch has rendered
+  const [pendingPrompt, setPendingPrompt] = useState<{ text: string; promptId: string } | null>(null);
   const [showApiKey, setShowApiKey] = useState(false);
   const [isSettingsOpen, setIsSettingsOpen] = useState(true);
+  const [generationPresets, setGenerationPresets] = useState<Record<string, GenerationParams>>(loadGenerationPresets);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Chat State: one conversation per provider + model/workspace
+  const [conversations, setConversations] = useState<Record<string, Conversation>>(
+    () => loadJSON<Record<string, Conversation>>(STORAGE_KEYS.conversations, {})
+  );
+
+  // Whether the selected Ollama model accepts images (null: unknown or not Ollama)
+  const [visionSupport, setVisionSupport] = useState<boolean | null>(null);
+
+  // Session telemetry: metrics of every chat reply since the page was loaded
+  const [metricSamples, setMetricSamples] = useState<MetricSample[]>([]);
+
+  // Models (or workspaces) reported by the provider, used for the model picker
+  const [availableModels, setAvailableModels] = useState<ProviderModel[]>([]);
 
   // AnythingLLM Specific State
   const [availableWorkspaces, setAvailableWorkspaces] = useState<AnythingLLMWorkspace[]>([]);
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
+  const [isBatchOpen, setIsBatchOpen] = useState(false);
+  const [isEvalOpen, setIsEvalOpen] = useState(false);
+  const [isMetricsOpen, setIsMetricsOpen] = useState(false);
+  const [activeThreadSlug, setActiveThreadSlug] = useState<string | null>(null);
+  const [dropTargetSlug, setDropTargetSlug] = useState<string | null>(null);
+  const [workspaceNotice, setWorkspaceNotice] = useState<{ type: 'error' | 'success' | 'info'; text: string } | null>(null);
+  const [documentsRefreshKey, setDocumentsRefreshKey] = useState(0);
   
   // API Playground State
   const [selectedMethodIdx, setSelectedMethodIdx] = useState<number>(0);
   const [methodArgs, setMethodArgs] = useState<Record<string, any>>({});
   const [apiResult, setApiResult] = useState<string | null>(null);
+  const [openApiSpec, setOpenApiSpec] = useState<OpenApiDocument | null>(() => loadJSON(STORAGE_KEYS.openApiSpec, null));
+  const [apiExchanges, setApiExchanges] = useState<HttpExchange[]>([]);
+  const [apiOutputTab, setApiOutputTab] = useState<'result' | 'request'>('result');
+  // "Required" errors only show once the user has tried to execute
+  const [showRequiredErrors, setShowRequiredErrors] = useState(false);
+  const [playgroundHistory, setPlaygroundHistory] = useState<PlaygroundCall[]>(loadPlaygroundHistory);
+  const [playgroundCollections, setPlaygroundCollections] = useState<PlaygroundCollection[]>(loadPlaygroundCollections);
+  const [playgroundRun, setPlaygroundRun] = useState<{ label: string; done: number; total: number } | null>(null);
+  // Arguments to apply when the method selection changes (opening a saved call)
+  const pendingArgsRef = useRef<Record<string, any> | null>(null);
 
-  // Update default port when provider changes
+  const provider = getProvider(config.provider);
+  const theme = provider.theme;
+  const errorAdvice = errorKind ? provider.errorAdvice?.[errorKind] || DEFAULT_ERROR_ADVICE[errorKind] : undefined;
+  const apiResultJson = useMemo(() => (apiResult ? parseJsonReply(apiResult) : undefined), [apiResult]);
+  // The server's (or an imported) spec replaces the bundled one
+  const generatedMethods = useMemo(() => generateSdkMethods(openApiSpec ?? ANYTHINGLLM_OPENAPI_SPEC), [openApiSpec]);
+  // Hand-written methods first, then every endpoint from the spec
+  const playgroundMethods = useMemo(() => [...SDK_METHODS, ...generatedMethods], [generatedMethods]);
+  const generatedTags = useMemo(() => Array.from(new Set(generatedMethods.map(m => m.tag!))), [generatedMethods]);
+  const selectedMethod = playgroundMethods[selectedMethodIdx] ?? SDK_METHODS[0];
+  const paramErrors = useMemo(() => validateParams(selectedMethod.params, methodArgs), [selectedMethod, methodArgs]);
+
+  // Stable client instance so child panels only reload when the connection changes
+  const anythingClient = useMemo(
+    () => new AnythingLLMClient(config.host, config.port, config.apiKey || '', policyFromConfig(config)),
+    [config.host, config.port, config.apiKey, config.timeoutMs, config.maxRetries]
+  );
+
+  const activeProfile = profiles.find(p => p.id === activeProfileId);
+  const needsUnlock = !!activeProfile?.encryptedApiKey && !config.apiKey;
+
+  // Persist the connection (minus the API key) and the active profile
   useEffect(() => {
-    setConfig(prev => ({
-      ...prev,
-      port: prev.provider === 'ollama' ? DEFAULT_OLLAMA_PORT : DEFAULT_ANYTHINGLLM_PORT,
-      model: prev.provider === 'ollama' ? 'llama3' : DEFAULT_MODEL
-    }));
+    const { apiKey, ...persistable } = config;
+    saveJSON(STORAGE_KEYS.config, persistable);
+  }, [config]);
+
+  useEffect(() => {
+    saveJSON(STORAGE_KEYS.activeProfileId, activeProfileId);
+  }, [activeProfileId]);
+
+  useEffect(() => {
+    setVisionSupport(null);
+    if (!provider.supportsVision || status !== 'connected' || !config.model) return;
+    let cancelled = false;
+    provider.supportsVision(config, config.model)
+      .then(result => { if (!cancelled) setVisionSupport(result); })
+      .catch(() => { /* model not installed; the send will report it */ });
+    return () => { cancelled = true; };
+  }, [config.provider, config.model, config.host, config.port, status]);
+
+  // Switching models loads that model's saved generation parameters, or clears the previous model's
+  const lastModelRef = useRef(config.model);
+  useEffect(() => {
+    if (lastModelRef.current === config.model) return;
+    lastModelRef.current = config.model;
+    setConfig(prev => ({ ...prev, generation: generationPresets[config.model] }));
+  }, [config.model]);
+
+  // Persist conversations once a reply has finished, rather than on every streamed token
+  useEffect(() => {
+    if (!isLoading) saveJSON(STORAGE_KEYS.conversations, withoutImageData(conversations));
+  }, [conversations, isLoading]);
+
+  const resetConnectionState = () => {
+    abortControllerRef.current?.abort();
     setStatus('idle');
     setError(null);
+    setErrorKind(null);
+    setActiveThreadSlug(null);
+    setAvailableModels([]);
     setAvailableWorkspaces([]);
     setApiResult(null);
-  }, [config.provider]);
+  };
+
+  // Switching provider resets port and model to that provider's defaults
+  const changeProvider = (providerId: LLMProvider) => {
+    const next = getProvider(providerId);
+    setConfig(prev => ({
+      ...prev,
+      provider: providerId,
+      port: next.defaultPort,
+      model: next.defaultModel
+    }));
+    setActiveProfileId(null);
+    resetConnectionState();
+  };
 
   // Pre-fill method arguments when method or config changes
   useEffect(() => {
-    const definition = SDK_METHODS[selectedMethodIdx];
+    const definition = selectedMethod;
+    if (pendingArgsRef.current) {
+      setMethodArgs(pendingArgsRef.current);
+      pendingArgsRef.current = null;
+      return;
+    }
     const initialArgs: Record<string, any> = {};
     
     definition.params.forEach(param => {
@@ -73,11 +222,17 @@ const App: React.FC = () => {
     });
     setMethodArgs(initialArgs);
     setApiResult(null);
-  }, [selectedMethodIdx, config.model]);
+    setShowRequiredErrors(false);
+  }, [selectedMethod, config.model]);
 
   const handleConfigChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
+    if (name === 'provider') {
+      changeProvider(value as LLMProvider);
+      return;
+    }
     setConfig(prev => ({ ...prev, [name]: value }));
+    if (name === 'model') setActiveThreadSlug(null);
     setStatus('idle');
     if (name === 'apiKey' || name === 'model') setError(null);
   };
@@ -85,38 +240,101 @@ const App: React.FC = () => {
   const checkConnection = async () => {
     setStatus('checking');
     setError(null);
+    setErrorKind(null);
 
     try {
-      if (config.provider === 'ollama') {
-        const result = await ollamaService.checkConnection(config);
-        if (result.success) {
-          setStatus('connected');
-          setIsSettingsOpen(false);
-        } else {
-          throw new Error(result.error);
-        }
+      const result = await provider.connect(config);
+      if (result.success) {
+        setStatus('connected');
+        fetchModels();
+        if (provider.capabilities.workspaces) fetchWorkspaces();
+        setIsSettingsOpen(false);
       } else {
-        // AnythingLLM Connection Check
-        const client = new AnythingLLMClient(config.host, config.port, config.apiKey || '');
-        const result = await client.validateConnection();
-        
-        if (result.authenticated) {
-          setStatus('connected');
-          fetchWorkspaces(client);
-          setIsSettingsOpen(false);
-        } else {
-          throw new Error(result.error);
-        }
+        setStatus('error');
+        setError(result.error || "Connection failed");
+        setErrorKind(result.errorKind || null);
       }
     } catch (err: any) {
       setStatus('error');
       setError(err.message || "Connection failed");
+      setErrorKind(getErrorKind(err));
+    }
+  };
+
+  // Timeout is edited in seconds, stored in milliseconds; empty falls back to the default
+  const handlePolicyChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    const parsed = value === '' ? undefined : Number(value);
+    if (parsed !== undefined && (Number.isNaN(parsed) || parsed < 0)) return;
+    setConfig(prev => ({
+      ...prev,
+      [name]: name === 'timeoutMs' && parsed !== undefined ? parsed * 1000 : parsed
+    }));
+  };
+
+  // --- Connection Profiles ---
+
+  const selectProfile = (id: string) => {
+    const profile = profiles.find(p => p.id === id);
+    if (!profile) return;
+    // Timeouts, retries and generation params belong to the app, not the profile
+    setConfig(prev => ({ ...prev, ...profileToConfig(profile) }));
+    setActiveProfileId(id);
+    resetConnectionState();
+  };
+
+  const saveProfile = async (name: string, passphrase?: string, overwriteId?: string) => {
+    const profile = await createProfile(name, config, passphrase, overwriteId);
+    const next = overwriteId
+      ? profiles.map(p => (p.id === overwriteId ? profile : p))
+      : [...profiles, profile];
+    setProfiles(next);
+    saveProfiles(next);
+    setActiveProfileId(profile.id);
+  };
+
+  const deleteProfile = (id: string) => {
+    const next = profiles.filter(p => p.id !== id);
+    setProfiles(next);
+    saveProfiles(next);
+    if (activeProfileId === id) setActiveProfileId(null);
+  };
+
+  const unlockProfileKey = async (passphrase: string) => {
+    if (!activeProfile?.encryptedApiKey) return;
+    const apiKey = await decryptSecret(activeProfile.encryptedApiKey, passphrase);
+    setConfig(prev => ({ ...prev, apiKey }));
+    setError(null);
+  };
+
+  const handleExportProfiles = () => {
+    const hasPlainKeys = profiles.some(p => p.apiKey);
+    const includePlainKeys = hasPlainKeys && window.confirm(
+      'Some profiles store their API key in plain text. Include those keys in the export?'
+    );
+    downloadFile('llm-profiles.json', exportProfiles(profiles, includePlainKeys));
+  };
+
+  const handleImportProfiles = async (file: File) => {
+    const imported = parseProfilesImport(await file.text());
+    const next = mergeProfiles(profiles, imported);
+    setProfiles(next);
+    saveProfiles(next);
+  };
+
+  const fetchModels = async () => {
+    try {
+      setAvailableModels(await provider.listModels(config));
+    } catch (e: any) {
+      // Listing is a convenience for the picker; the free-text field still works without it
+      console.error("Failed to list models", e);
+      setAvailableModels([]);
     }
   };
 
   const fetchWorkspaces = async (client?: AnythingLLMClient) => {
     try {
-      const sdk = client || new AnythingLLMClient(config.host, config.port, config.apiKey || '');
+      const sdk = client || new AnythingLLMClient(config.host, config.port, config.apiKey || '', policyFromConfig(config));
       const workspaces = await sdk.getWorkspaces();
       setAvailableWorkspaces(workspaces);
     } catch (e: any) {
@@ -124,80 +342,284 @@ const App: React.FC = () => {
     }
   };
 
-  const handlePromptClick = async (promptId: string, promptText: string) => {
+  const updateConversationMessage = (key: string, messageId: string, update: (msg: ChatMessage) => ChatMessage) => {
+    setConversations(prev => {
+      const conversation = prev[key];
+      if (!conversation) return prev;
+      return {
+        ...prev,
+        [key]: {
+          ...conversation,
+          messages: conversation.messages.map(m => (m.id === messageId ? update(m) : m)),
+          updatedAt: new Date().toISOString()
+        }
+      };
+    });
+  };
+
+  const sendMessage = async (text: string, promptId: string | null = null, images: ImageAttachment[] = []) => {
     if (status === 'error') {
        setError("Please fix connection settings first.");
        return;
     }
 
-    if (config.provider === 'anythingllm' && !config.apiKey?.trim()) {
-       setError("API Key is required for AnythingLLM.");
+    if (provider.capabilities.apiKey === 'required' && !config.apiKey?.trim()) {
+       setError(`API Key is required for ${provider.label}.`);
        setIsSettingsOpen(true);
        return;
     }
 
+    const threadSlug = activeThreadSlug || undefined;
+    const key = conversationKey(config.provider, config.model, threadSlug);
+    const conversation = conversations[key] || createConversation(config.provider, config.model, threadSlug);
+    const userMessage = { ...createMessage('user', text), ...(images.length > 0 ? { images } : {}) };
+    const assistantMessage = createMessage('assistant', '');
+    const history = [...conversation.messages, userMessage];
+
+    setConversations(prev => ({
+      ...prev,
+      [key]: { ...conversation, messages: [...history, assistantMessage], updatedAt: new Date().toISOString() }
+    }));
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     setSelectedPromptId(promptId);
     setIsLoading(true);
-    setResponse(null);
     setError(null);
+    setErrorKind(null);
     setApiResult(null);
 
+    const startedAt = performance.now();
+    let firstTokenAt: number | null = null;
+
+    // Append streamed tokens as they arrive so the reply fills in live
+    const appendToken = (token: string) => {
+      if (firstTokenAt === null) firstTokenAt = performance.now();
+      updateConversationMessage(key, assistantMessage.id, m => ({ ...m, content: m.content + token }));
+    };
+
     try {
-      if (config.provider === 'ollama') {
-        const result = await ollamaService.generateResponse(config, promptText);
-        setResponse(result.response);
-      } else {
-        const client = new AnythingLLMClient(config.host, config.port, config.apiKey || '');
-        const result = await client.sendChat(config.model, promptText);
-        setResponse(result.textResponse);
-        if (result.sources.length > 0) {
-          setApiResult(JSON.stringify({ sources: result.sources }, null, 2));
-        }
-      }
+      const request = { messages: historyForRequest(history), sessionId: conversation.sessionId, threadSlug };
+      const result = provider.capabilities.streaming
+        ? await provider.stream(config, request, appendToken, controller.signal)
+        : await provider.generate(config, request);
+      const metrics = measureResponse(result, startedAt, firstTokenAt);
+      updateConversationMessage(key, assistantMessage.id, m => ({
+        ...m,
+        ...(provider.capabilities.streaming ? {} : { content: result.response }),
+        ...(result.sources && result.sources.length > 0 ? { sources: result.sources } : {}),
+        metrics
+      }));
+      setMetricSamples(prev => addMetricSample(prev, config.provider, config.model, metrics));
       setStatus('connected'); 
     } catch (err: any) {
-      console.error(err);
-      setStatus('error');
-      setError(`Failed to generate response. ${err.message}`);
+      if (isAbortError(err)) {
+        updateConversationMessage(key, assistantMessage.id, m => ({ ...m, stopped: true }));
+      } else {
+        console.error(err);
+        updateConversationMessage(key, assistantMessage.id, m => ({ ...m, error: err.message }));
+        // A failed request (missing model, one-off 5xx, timeout) says nothing about the connection
+        setError(`Failed to generate response. ${err.message}`);
+        setErrorKind(getErrorKind(err));
+      }
     } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
       setIsLoading(false);
     }
   };
 
+  const updatePromptLibrary = (presets: PromptPreset[]) => {
+    setPromptLibrary(presets);
+    savePromptLibrary(presets);
+  };
+
+  // Presets may pin a provider and/or model; switch to them first, then send
+  const runPreset = (preset: PromptPreset, text: string) => {
+    const switchProvider = !!preset.provider && preset.provider !== config.provider;
+    const switchModel = !!preset.model && preset.model !== config.model;
+    if (!switchProvider && !switchModel) {
+      sendMessage(text, preset.id);
+      return;
+    }
+    if (switchProvider) {
+      const profile = profiles.find(p => p.provider === preset.provider);
+      if (profile) selectProfile(profile.id);
+      else changeProvider(preset.provider!);
+    }
+    if (preset.model) setConfig(prev => ({ ...prev, model: preset.model! }));
+    setActiveThreadSlug(null);
+    setPendingPrompt({ text, promptId: preset.id });
+  };
+
+  useEffect(() => {
+    if (!pendingPrompt) return;
+    setPendingPrompt(null);
+    sendMessage(pendingPrompt.text, pendingPrompt.promptId);
+  }, [pendingPrompt, config]);
+
+  const startNewChat = () => {
+    setConversations(prev => ({
+      ...prev,
+      [conversationKey(config.provider, config.model, activeThreadSlug || undefined)]:
+        createConversation(config.provider, config.model, activeThreadSlug || undefined)
+    }));
+    setSelectedPromptId(null);
+  };
+
+  const stopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const changeOpenApiSpec = (spec: OpenApiDocument | null) => {
+    setOpenApiSpec(spec);
+    saveJSON(STORAGE_KEYS.openApiSpec, spec);
+    setSelectedMethodIdx(prev => (prev < SDK_METHODS.length ? prev : 0));
+  };
+
   const executeApiMethod = async () => {
-    const definition = SDK_METHODS[selectedMethodIdx];
-    const client = new AnythingLLMClient(config.host, config.port, config.apiKey || '');
-    
-    setApiResult("Executing...");
-    try {
-      // @ts-ignore - dynamic method call
-      const fn = client[definition.method];
-      if (typeof fn !== 'function') throw new Error("Method not implemented in SDK");
-
-      const args = definition.params.map(p => methodArgs[p.name]);
-      const result = await fn.apply(client, args);
-      setApiResult(JSON.stringify(result, null, 2));
-      
+    const definition = selectedMethod;
+    if (Object.keys(paramErrors).length > 0) {
+      setShowRequiredErrors(true);
+      return;
+    }
+    await runPlaygroundRequests([{ id: '', method: definition.method, label: definition.label, args: methodArgs }]);
+  };
+
+  const findPlaygroundMethod = (method: string) => playgroundMethods.find(m => m.method === method);
+
+  /**
+   * Execute requests in order, recording each in the history. The result pane
+   * shows the last one. Requests for methods that are no longer available
+   * (e.g. the OpenAPI spec was removed) are recorded as failed.
+   */
+  const runPlaygroundRequests = async (requests: PlaygroundRequest[], label?: string) => {
+    if (label) setPlaygroundRun({ label, done: 0, total: requests.length });
+    let workspacesChanged = false;
+    for (const [idx, request] of requests.entries()) {
+      const definition = findPlaygroundMethod(request.method);
+      setApiExchanges([]);
+      setApiResult("Executing...");
+      const call: PlaygroundCall = definition
+        ? await runPlaygroundCall(config, definition, request.args, setApiExchanges)
+        : {
+            ...request,
+            id: generateId(),
+            at: new Date().toISOString(),
+            durationMs: 0,
+            error: `${request.label} is not available. Load the OpenAPI spec to use generated endpoints.`,
+            exchanges: []
+          };
+      setApiResult(call.error ? `Error: ${call.error}` : call.result ?? null);
+      setPlaygroundHistory(prev => recordPlaygroundCalls(prev, [call]));
+      if (label) setPlaygroundRun({ label, done: idx + 1, total: requests.length });
       // Refresh workspaces if we just created/deleted one
-      if (definition.method.includes('Workspace')) {
-        fetchWorkspaces(client);
-      }
-    } catch (e: any) {
-      setApiResult(`Error: ${e.message}`);
+      if (!call.error && request.method.includes('Workspace')) workspacesChanged = true;
     }
+    setPlaygroundRun(null);
+    if (workspacesChanged) fetchWorkspaces();
+  };
+
+  const openPlaygroundRequest = (request: PlaygroundRequest, call?: PlaygroundCall) => {
+    const idx = playgroundMethods.findIndex(m => m.method === request.method);
+    if (idx === -1) {
+      setApiResult(`Error: ${request.label} is not available. Load the OpenAPI spec to use generated endpoints.`);
+      return;
+    }
+    if (idx === selectedMethodIdx) {
+      setMethodArgs({ ...request.args });
+    } else {
+      pendingArgsRef.current = { ...request.args };
+      setSelectedMethodIdx(idx);
+    }
+    if (call) {
+      setApiResult(call.error ? `Error: ${call.error}` : call.result ?? null);
+      setApiExchanges(call.exchanges);
+    }
+  };
+
+  const updatePlaygroundCollections = (collections: PlaygroundCollection[]) => {
+    setPlaygroundCollections(collections);
+    savePlaygroundCollections(collections);
   };
 
   const selectWorkspace = (slug: string) => {
+    if (slug !== config.model) setActiveThreadSlug(null);
     setConfig(prev => ({ ...prev, model: slug }));
   };
 
+  // Switching to a thread loads its server-side history unless it is already open locally
+  const selectThread = async (threadSlug: string | null) => {
+    setActiveThreadSlug(threadSlug);
+    if (!threadSlug) return;
+    const key = conversationKey(config.provider, config.model, threadSlug);
+    if (conversations[key]?.messages.length) return;
+    try {
+      const history = await anythingClient.getThreadChats(config.model, threadSlug);
+      if (history.length === 0) return;
+      const conversation = createConversation(config.provider, config.model, threadSlug);
+      conversation.messages = history.map(item => ({
+        ...createMessage(item.role, item.content),
+        ...(item.sentAt ? { createdAt: new Date(item.sentAt * 1000).toISOString() } : {}),
+        ...(item.sources?.length ? { sources: item.sources } : {})
+      }));
+      setConversations(prev => ({ ...prev, [key]: conversation }));
+    } catch (e: any) {
+      setWorkspaceNotice({ type: 'error', text: e.message });
+    }
+  };
+
+  const handleThreadDeleted = (threadSlug: string) => {
+    const key = conversationKey(config.provider, config.model, threadSlug);
+    setConversations(prev => {
+      const { [key]: _removed, ...rest } = prev;
+      return rest;
+    });
+    if (activeThreadSlug === threadSlug) setActiveThreadSlug(null);
+  };
+
+  const selectConversation = (conversation: Conversation) => {
+    setConfig(prev => ({ ...prev, model: conversation.model }));
+    setActiveThreadSlug(conversation.threadSlug || null);
+  };
+
+  // Dropping files (or a library document) onto a workspace uploads and embeds them there
+  const handleWorkspaceDrop = async (slug: string, e: React.DragEvent) => {
+    e.preventDefault();
+    setDropTargetSlug(null);
+    const libraryPath = e.dataTransfer.getData(DOCUMENT_DRAG_TYPE);
+    const files = Array.from(e.dataTransfer.files);
+    if (!libraryPath && files.length === 0) return;
+
+    setWorkspaceNotice({ type: 'info', text: `Embedding into ${slug}…` });
+    try {
+      const adds = libraryPath ? [libraryPath] : [];
+      for (const file of files) {
+        const docs = await anythingClient.uploadDocument(file);
+        adds.push(...docs.map(d => d.location));
+      }
+      await anythingClient.updateEmbeddings(slug, adds);
+      setWorkspaceNotice({ type: 'success', text: `Embedded ${adds.length} document(s) into ${slug}.` });
+      setDocumentsRefreshKey(k => k + 1);
+    } catch (err: any) {
+      setWorkspaceNotice({ type: 'error', text: err.message });
+    }
+  };
+
+  // Conversations for the active provider, most recent first
+  const providerConversations = (Object.values(conversations) as Conversation[])
+    .filter(c => c.provider === config.provider && c.messages.length > 0)
+    .sort((x, y) => y.updatedAt.localeCompare(x.updatedAt));
+
   return (
     <div className="min-h-screen bg-slate-50 text-slate-900 font-sans">
       {/* Header */}
       <header className="bg-white border-b border-slate-200 sticky top-0 z-10 shadow-sm">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 h-16 flex items-center justify-between">
           <div className="flex items-center space-x-3">
-            <div className={`p-2 rounded-lg text-white transition-colors ${config.provider === 'ollama' ? 'bg-orange-500' : 'bg-blue-600'}`}>
+            <div className={`p-2 rounded-lg text-white transition-colors ${theme.solid}`}>
               <Terminal size={20} />
             </div>
             <h1 className="text-xl font-bold tracking-tight text-slate-800">
@@ -205,19 +627,82 @@ const App: React.FC = () => {
             </h1>
           </div>
           
-          <button 
-            onClick={() => setIsSettingsOpen(!isSettingsOpen)}
-            className={`flex items-center space-x-2 px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
-              isSettingsOpen 
-                ? 'bg-slate-100 text-slate-900 ring-1 ring-slate-200' 
-                : 'bg-white text-slate-600 hover:bg-slate-50 border border-slate-200'
-            }`}
-          >
-            <Settings size={16} />
-            <span>Config</span>
-            {status === 'connected' && <span className="w-2 h-2 rounded-full bg-green-500 ml-1"></span>}
-            {status === 'error' && <span className="w-2 h-2 rounded-full bg-red-500 ml-1"></span>}
-          </button>
+          <div className="flex items-center space-x-2">
+            {profiles.length > 0 && (
+              <select
+                value={activeProfileId || ''}
+                onChange={(e) => e.target.value && selectProfile(e.target.value)}
+                title="Switch connection profile"
+                className="px-2 py-1.5 border border-slate-200 rounded-md text-sm bg-white text-slate-600 focus:ring-2 focus:ring-slate-400 outline-none max-w-[200px]"
+              >
+                <option value="">Unsaved connection</option>
+                {profiles.map(p => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+              </select>
+            )}
+            <button
+              onClick={() => setIsCompareOpen(!isCompareOpen)}
+              title="Send one prompt to several models or workspaces"
+              className={`flex items-center space-x-2 px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                isCompareOpen
+                  ? 'bg-slate-100 text-slate-900 ring-1 ring-slate-200'
+                  : 'bg-white text-slate-600 hover:bg-slate-50 border border-slate-200'
+              }`}
+            >
+              <Columns size={16} />
+              <span>Compare</span>
+            </button>
+            <button
+              onClick={() => setIsBatchOpen(!isBatchOpen)}
+              title="Run a CSV/JSONL dataset of prompts"
+              className={`flex items-center space-x-2 px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                isBatchOpen
+                  ? 'bg-slate-100 text-slate-900 ring-1 ring-slate-200'
+                  : 'bg-white text-slate-600 hover:bg-slate-50 border border-slate-200'
+              }`}
+            >
+              <ListOrdered size={16} />
+              <span>Batch</span>
+            </button>
+            <button
+              onClick={() => setIsEvalOpen(!isEvalOpen)}
+              title="Run eval suites and compare with the previous run"
+              className={`flex items-center space-x-2 px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                isEvalOpen
+                  ? 'bg-slate-100 text-slate-900 ring-1 ring-slate-200'
+                  : 'bg-white text-slate-600 hover:bg-slate-50 border border-slate-200'
+              }`}
+            >
+              <FlaskConical size={16} />
+              <span>Evals</span>
+            </button>
+            <button
+              onClick={() => setIsMetricsOpen(!isMetricsOpen)}
+              title="Latency, time to first token and throughput for this session"
+              className={`flex items-center space-x-2 px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                isMetricsOpen
+                  ? 'bg-slate-100 text-slate-900 ring-1 ring-slate-200'
+                  : 'bg-white text-slate-600 hover:bg-slate-50 border border-slate-200'
+              }`}
+            >
+              <Gauge size={16} />
+              <span>Metrics</span>
+            </button>
+            <button 
+              onClick={() => setIsSettingsOpen(!isSettingsOpen)}
+              className={`flex items-center space-x-2 px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                isSettingsOpen 
+                  ? 'bg-slate-100 text-slate-900 ring-1 ring-slate-200' 
+                  : 'bg-white text-slate-600 hover:bg-slate-50 border border-slate-200'
+              }`}
+            >
+              <Settings size={16} />
+              <span>Config</span>
+              {status === 'connected' && <span className="w-2 h-2 rounded-full bg-green-500 ml-1"></span>}
+              {status === 'error' && <span className="w-2 h-2 rounded-full bg-red-500 ml-1"></span>}
+            </button>
+          </div>
         </div>
       </header>
 
@@ -234,40 +719,39 @@ const App: React.FC = () => {
             </div>
             
             <div className="p-6 grid gap-6 md:grid-cols-2 lg:grid-cols-12">
+
+              <ProfilesPanel
+                profiles={profiles}
+                activeProfileId={activeProfileId}
+                needsUnlock={needsUnlock}
+                onSelect={selectProfile}
+                onSave={saveProfile}
+                onDelete={deleteProfile}
+                onUnlock={unlockProfileKey}
+                onExport={handleExportProfiles}
+                onImport={handleImportProfiles}
+              />
               
               {/* Provider Selection */}
               <div className="lg:col-span-12 mb-2">
                 <label className="text-sm font-medium text-slate-700 block mb-2">LLM Provider</label>
                 <div className="flex space-x-4">
-                  <label className={`flex items-center space-x-2 px-4 py-2 rounded-lg border cursor-pointer transition-all ${config.provider === 'ollama' ? 'border-orange-500 bg-orange-50 text-orange-700' : 'border-slate-200 hover:bg-slate-50'}`}>
-                    <input 
-                      type="radio" 
-                      name="provider" 
-                      value="ollama" 
-                      checked={config.provider === 'ollama'} 
-                      onChange={handleConfigChange}
-                      className="hidden" 
-                    />
-                    <div className="w-4 h-4 rounded-full border border-current flex items-center justify-center">
-                      {config.provider === 'ollama' && <div className="w-2 h-2 rounded-full bg-current" />}
-                    </div>
-                    <span>Ollama</span>
-                  </label>
-                  
-                  <label className={`flex items-center space-x-2 px-4 py-2 rounded-lg border cursor-pointer transition-all ${config.provider === 'anythingllm' ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-slate-200 hover:bg-slate-50'}`}>
-                    <input 
-                      type="radio" 
-                      name="provider" 
-                      value="anythingllm" 
-                      checked={config.provider === 'anythingllm'} 
-                      onChange={handleConfigChange}
-                      className="hidden" 
-                    />
-                    <div className="w-4 h-4 rounded-full border border-current flex items-center justify-center">
-                      {config.provider === 'anythingllm' && <div className="w-2 h-2 rounded-full bg-current" />}
-                    </div>
-                    <span>AnythingLLM</span>
-                  </label>
+                  {PROVIDER_LIST.map(p => (
+                    <label key={p.id} className={`flex items-center space-x-2 px-4 py-2 rounded-lg border cursor-pointer transition-all ${config.provider === p.id ? p.theme.card : 'border-slate-200 hover:bg-slate-50'}`}>
+                      <input 
+                        type="radio" 
+                        name="provider" 
+                        value={p.id} 
+                        checked={config.provider === p.id} 
+                        onChange={handleConfigChange}
+                        className="hidden" 
+                      />
+                      <div className="w-4 h-4 rounded-full border border-current flex items-center justify-center">
+                        {config.provider === p.id && <div className="w-2 h-2 rounded-full bg-current" />}
+                      </div>
+                      <span>{p.label}</span>
+                    </label>
+                  ))}
                 </div>
               </div>
 
@@ -291,31 +775,45 @@ const App: React.FC = () => {
                   value={config.port}
                   onChange={handleConfigChange}
                   className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-slate-400 outline-none transition-all text-slate-800 placeholder-slate-400 font-mono text-sm"
-                  placeholder={config.provider === 'ollama' ? "11434" : "3001"}
+                  placeholder={provider.defaultPort}
                 />
               </div>
 
               <div className="lg:col-span-3 space-y-2">
                 <label className="text-sm font-medium text-slate-700">
-                  {config.provider === 'anythingllm' ? 'Workspace Slug' : 'Model Name'}
+                  {provider.modelLabel}
                 </label>
-                <input 
-                  type="text" 
-                  name="model"
-                  value={config.model}
-                  onChange={handleConfigChange}
-                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-slate-400 outline-none transition-all text-slate-800 placeholder-slate-400 font-mono text-sm"
-                  placeholder={config.provider === 'ollama' ? "llama3" : "my-workspace-slug"}
-                />
+                {availableModels.length > 0 ? (
+                  <select
+                    name="model"
+                    value={config.model}
+                    onChange={handleConfigChange}
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-slate-400 outline-none transition-all text-slate-800 font-mono text-sm bg-white h-[42px]"
+                  >
+                    {!availableModels.some(m => m.id === config.model) && (
+                      <option value={config.model}>{config.model || '—'} (not found)</option>
+                    )}
+                    {availableModels.map(m => (
+                      <option key={m.id} value={m.id}>{m.name === m.id ? m.id : `${m.name} (${m.id})`}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <input 
+                    type="text" 
+                    name="model"
+                    value={config.model}
+                    onChange={handleConfigChange}
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-slate-400 outline-none transition-all text-slate-800 placeholder-slate-400 font-mono text-sm"
+                    placeholder={provider.modelPlaceholder}
+                  />
+                )}
               </div>
 
               <div className="lg:col-span-3 flex items-end">
                 <button 
                   onClick={checkConnection}
                   disabled={status === 'checking'}
-                  className={`w-full flex items-center justify-center space-x-2 text-white px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed h-[42px] ${
-                    config.provider === 'ollama' ? 'bg-orange-600 hover:bg-orange-700' : 'bg-blue-600 hover:bg-blue-700'
-                  }`}
+                  className={`w-full flex items-center justify-center space-x-2 text-white px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed h-[42px] ${theme.button}`}
                 >
                   {status === 'checking' ? (
                     <Loader2 size={16} className="animate-spin" />
@@ -326,19 +824,19 @@ const App: React.FC = () => {
                 </button>
               </div>
 
-              {config.provider === 'anythingllm' && (
+              {provider.capabilities.apiKey !== 'none' && (
                 <div className="lg:col-span-12 space-y-2 animate-in fade-in slide-in-from-top-2">
                   <label className="text-sm font-medium text-slate-700 flex items-center">
-                    <Key size={14} className="mr-1" /> API Key (Required)
+                    <Key size={14} className="mr-1" /> API Key ({provider.capabilities.apiKey === 'required' ? 'Required' : 'Optional'})
                   </label>
                   <div className="relative">
                     <input 
                       type={showApiKey ? "text" : "password"}
                       name="apiKey"
-                      value={config.apiKey}
+                      value={config.apiKey || ''}
                       onChange={handleConfigChange}
                       className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none transition-all text-slate-800 placeholder-slate-400 font-mono text-sm pr-10"
-                      placeholder="Enter your AnythingLLM API Key"
+                      placeholder={`Enter your ${provider.label} API Key`}
                     />
                     <button 
                       type="button"
@@ -348,7 +846,47 @@ const App: React.FC = () => {
                       {showApiKey ? <EyeOff size={16} /> : <Eye size={16} />}
                     </button>
                   </div>
-                  <p className="text-xs text-slate-500">Found in AnythingLLM Desktop: Settings &gt; Developer API.</p>
+                  {provider.apiKeyHelp && <p className="text-xs text-slate-500">{provider.apiKeyHelp}</p>}
+                </div>
+              )}
+
+              <div className="lg:col-span-3 space-y-2">
+                <label className="text-sm font-medium text-slate-700">Timeout (s)</label>
+                <input
+                  type="number"
+                  min={0}
+                  name="timeoutMs"
+                  value={config.timeoutMs !== undefined ? config.timeoutMs / 1000 : ''}
+                  onChange={handlePolicyChange}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-slate-400 outline-none transition-all text-slate-800 placeholder-slate-400 font-mono text-sm"
+                  placeholder={String(DEFAULT_REQUEST_POLICY.timeoutMs / 1000)}
+                  title="How long to wait for the server to start responding. 0 disables the timeout."
+                />
+              </div>
+
+              <div className="lg:col-span-3 space-y-2">
+                <label className="text-sm font-medium text-slate-700">Retries</label>
+                <input
+                  type="number"
+                  min={0}
+                  name="maxRetries"
+                  value={config.maxRetries ?? ''}
+                  onChange={handlePolicyChange}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-slate-400 outline-none transition-all text-slate-800 placeholder-slate-400 font-mono text-sm"
+                  placeholder={String(DEFAULT_REQUEST_POLICY.maxRetries)}
+                  title="Retries for read requests after network errors, timeouts, 429 and 5xx responses."
+                />
+              </div>
+
+              {provider.capabilities.generationParams && (
+                <div className="lg:col-span-12">
+                  <GenerationParamsPanel
+                    model={config.model}
+                    params={config.generation}
+                    onChange={(generation) => setConfig(prev => ({ ...prev, generation }))}
+                    presets={generationPresets}
+                    onPresetsChange={setGenerationPresets}
+                  />
                 </div>
               )}
             </div>
@@ -365,15 +903,51 @@ const App: React.FC = () => {
               
               <div className="flex-1">
                 {status === 'error' && <p className="font-medium">{error || 'Connection Failed'}</p>}
-                {status === 'connected' && <p className="font-medium">Connected to {config.host}:{config.port} ({config.provider})</p>}
+                {status === 'error' && errorAdvice && <p className="text-xs mt-1 text-red-600">{errorAdvice}</p>}
+                {status === 'connected' && <p className="font-medium">Connected to {config.host}:{config.port} ({provider.label})</p>}
+                {status === 'connected' && error && (
+                  <p className="text-xs mt-1 text-red-600">
+                    {error}{errorAdvice ? ` ${errorAdvice}` : ''}
+                  </p>
+                )}
                 {status === 'idle' && <p>Select provider, enter details, and test connection.</p>}
               </div>
             </div>
           </div>
         )}
 
+        {/* Compare Mode */}
+        {isCompareOpen && (
+          <ComparePanel
+            config={config}
+            profiles={profiles}
+            availableModels={availableModels}
+            availableWorkspaces={availableWorkspaces}
+          />
+        )}
+
+        {/* Batch Runner */}
+        {isBatchOpen && <BatchPanel config={config} />}
+
+        {/* Session Metrics */}
+        {isMetricsOpen && <MetricsPanel samples={metricSamples} onClear={() => setMetricSamples([])} />}
+
+        {/* Eval Suites */}
+        {isEvalOpen && (
+          <EvalPanel config={config} judgeModels={provider.capabilities.workspaces ? [] : availableModels.map(m => m.id)} />
+        )}
+
+        {/* Ollama Model Management */}
+        {provider.capabilities.modelManagement && status === 'connected' && (
+          <OllamaModelPanel
+            config={config}
+            onSelectModel={(model) => setConfig(prev => ({ ...prev, model }))}
+            onModelsChanged={(models) => setAvailableModels(models.map(m => ({ id: m.name, name: m.name })))}
+          />
+        )}
+
         {/* AnythingLLM API Explorer */}
-        {config.provider === 'anythingllm' && status === 'connected' && (
+        {provider.capabilities.workspaces && status === 'connected' && (
           <div className="grid grid-cols-1 lg:grid-cols-12 gap-6 animate-in fade-in slide-in-from-bottom-4">
              {/* Left: Workspaces */}
              <div className="lg:col-span-3 bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden flex flex-col">
@@ -392,23 +966,49 @@ const App: React.FC = () => {
                 ) : (
                   <ul className="space-y-1">
                     {availableWorkspaces.map(ws => (
-                      <li key={ws.id}>
+                      <li
+                        key={ws.id}
+                        onDragOver={(e) => { e.preventDefault(); setDropTargetSlug(ws.slug); }}
+                        onDragLeave={() => setDropTargetSlug(null)}
+                        onDrop={(e) => handleWorkspaceDrop(ws.slug, e)}
+                      >
                         <button 
                           onClick={() => selectWorkspace(ws.slug)}
                           className={`w-full text-left px-3 py-2 rounded-md text-xs transition-colors flex items-center justify-between group ${
-                            config.model === ws.slug 
-                            ? 'bg-blue-50 text-blue-700 font-medium ring-1 ring-blue-200' 
+                            dropTargetSlug === ws.slug
+                            ? 'bg-blue-100 ring-2 ring-blue-400 text-blue-800'
+                            : config.model === ws.slug 
+                            ? theme.listItem
                             : 'hover:bg-slate-50 text-slate-600'
                           }`}
                         >
                           <span className="truncate">{ws.name}</span>
                           {config.model === ws.slug && <CheckCircle2 size={12} />}
                         </button>
+                        {config.model === ws.slug && (
+                          <WorkspaceThreads
+                            client={anythingClient}
+                            workspaceSlug={ws.slug}
+                            activeThreadSlug={activeThreadSlug}
+                            onSelectThread={selectThread}
+                            onThreadDeleted={handleThreadDeleted}
+                          />
+                        )}
                       </li>
                     ))}
                   </ul>
                 )}
                 </div>
+                <div className="mt-auto px-3 py-2 border-t border-slate-100 text-[10px]">
+                  {workspaceNotice ? (
+                    <p className={
+                      workspaceNotice.type === 'error' ? 'text-red-600' :
+                      workspaceNotice.type === 'success' ? 'text-green-600' : 'text-slate-500'
+                    }>{workspaceNotice.text}</p>
+                  ) : (
+                    <p className="text-slate-400">Drop files or documents on a workspace to embed them.</p>
+                  )}
+                </div>
              </div>
 
              {/* Center: Method Playground */}
@@ -419,6 +1019,7 @@ const App: React.FC = () => {
                     API Playground
                   </h3>
                </div>
+               <OpenApiSpecBar client={anythingClient} spec={openApiSpec ?? ANYTHINGLLM_OPENAPI_SPEC} isBundled={!openApiSpec} methodCount={generatedMethods.length} onChange={changeOpenApiSpec} />
                
                <div className="p-5 space-y-4">
                   {/* Method Selector */}
@@ -429,59 +1030,55 @@ const App: React.FC = () => {
                       onChange={(e) => setSelectedMethodIdx(Number(e.target.value))}
                       className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm bg-slate-50 focus:ring-2 focus:ring-blue-500 outline-none"
                     >
-                      {SDK_METHODS.map((m, idx) => (
-                        <option key={m.method} value={idx}>{m.label}</option>
+                      <optgroup label="SDK">
+                        {SDK_METHODS.map((m, idx) => (
+                          <option key={m.method} value={idx}>{m.label}</option>
+                        ))}
+                      </optgroup>
+                      {generatedTags.map(tag => (
+                        <optgroup key={tag} label={tag}>
+                          {generatedMethods.map((m, idx) => m.tag === tag && (
+                            <option key={m.method} value={SDK_METHODS.length + idx}>{m.label}</option>
+                          ))}
+                        </optgroup>
                       ))}
                     </select>
-                    <p className="text-xs text-slate-400 mt-1">{SDK_METHODS[selectedMethodIdx].description}</p>
+                    <p className="text-xs text-slate-400 mt-1">{selectedMethod.description}</p>
                   </div>
 
                   {/* Dynamic Arguments Form */}
                   <div className="space-y-3 bg-slate-50 p-4 rounded-lg border border-slate-100">
-                    {SDK_METHODS[selectedMethodIdx].params.length === 0 && (
+                    {selectedMethod.params.length === 0 && (
                       <p className="text-xs text-slate-400 italic">No arguments required.</p>
                     )}
-                    {SDK_METHODS[selectedMethodIdx].params.map(param => (
-                      <div key={param.name}>
-                        <label className="text-xs font-medium text-slate-700 mb-1 block flex justify-between">
-                          <span>{param.name} <span className="text-slate-400 font-normal">({param.type})</span></span>
-                          {param.required && <span className="text-red-400">*</span>}
-                        </label>
-                        {param.description && <p className="text-[10px] text-slate-400 mb-1">{param.description}</p>}
-                        
-                        {/* Render Input based on type */}
-                        {param.type === 'slug' && config.model ? (
-                          <div className="flex gap-2">
-                             <input 
-                              type="text"
-                              value={methodArgs[param.name] || ''}
-                              onChange={(e) => setMethodArgs(prev => ({...prev, [param.name]: e.target.value}))}
-                              className="flex-1 px-3 py-1.5 border border-slate-300 rounded text-sm focus:outline-blue-500"
-                            />
-                            <button 
-                              onClick={() => setMethodArgs(prev => ({...prev, [param.name]: config.model}))}
-                              title="Use current workspace"
-                              className="px-2 bg-slate-200 rounded hover:bg-slate-300 text-slate-600"
-                            >
-                              <Activity size={14} />
-                            </button>
-                          </div>
-                        ) : (
-                          <input 
-                            type="text"
-                            value={methodArgs[param.name] || ''}
-                            onChange={(e) => setMethodArgs(prev => ({...prev, [param.name]: e.target.value}))}
-                            placeholder={param.defaultValue}
-                            className="w-full px-3 py-1.5 border border-slate-300 rounded text-sm focus:outline-blue-500"
+                    {selectedMethod.params.map(param => {
+                      const error = paramErrors[param.name];
+                      const visibleError = error && (error !== 'Required' || showRequiredErrors) ? error : undefined;
+                      return (
+                        <div key={param.name}>
+                          <label className="text-xs font-medium text-slate-700 mb-1 block flex justify-between">
+                            <span>{param.name} <span className="text-slate-400 font-normal">({param.type})</span></span>
+                            {param.required && <span className="text-red-400">*</span>}
+                          </label>
+                          {param.description && <p className="text-[10px] text-slate-400 mb-1">{param.description}</p>}
+                          <ParamInput
+                            param={param}
+                            value={methodArgs[param.name]}
+                            onChange={(value) => setMethodArgs(prev => ({ ...prev, [param.name]: value }))}
+                            workspaces={availableWorkspaces}
+                            currentWorkspace={config.model}
+                            error={visibleError}
                           />
-                        )}
-                      </div>
-                    ))}
+                          {visibleError && <p className="text-[10px] text-red-500 mt-1">{visibleError}</p>}
+                        </div>
+                      );
+                    })}
                   </div>
 
                   <button 
                     onClick={executeApiMethod}
-                    className="w-full bg-blue-600 hover:bg-blue-700 text-white py-2 rounded-lg font-medium text-sm transition-colors flex items-center justify-center gap-2"
+                    disabled={playgroundRun !== null}
+                    className="w-full bg-blue-600 hover:bg-blue-700 text-white py-2 rounded-lg font-medium text-sm transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
                   >
                     <Play size={14} fill="currentColor" />
                     Execute Method
@@ -492,16 +1089,31 @@ const App: React.FC = () => {
              {/* Right: Output */}
              <div className="lg:col-span-4 bg-slate-900 rounded-xl border border-slate-800 shadow-sm overflow-hidden flex flex-col min-h-[300px] lg:min-h-0">
                <div className="p-3 border-b border-slate-800 bg-slate-900 flex justify-between items-center">
-                  <h3 className="text-xs font-semibold text-slate-300 flex items-center">
-                    <Code size={14} className="mr-2" />
-                    JSON Result
-                  </h3>
-                  {apiResult && (
-                    <button onClick={() => setApiResult(null)} className="text-xs text-slate-500 hover:text-slate-300">Clear</button>
+                  <div className="flex items-center gap-1">
+                    {([['result', 'JSON Result'], ['request', 'Request']] as const).map(([tab, label]) => (
+                      <button
+                        key={tab}
+                        onClick={() => setApiOutputTab(tab)}
+                        className={`px-2 py-1 rounded text-xs font-semibold flex items-center transition-colors ${
+                          apiOutputTab === tab ? 'bg-slate-800 text-slate-200' : 'text-slate-500 hover:text-slate-300'
+                        }`}
+                      >
+                        {tab === 'result' ? <Code size={14} className="mr-2" /> : <Activity size={14} className="mr-2" />}
+                        {label}
+                        {tab === 'request' && apiExchanges.length > 0 && <span className="ml-1 text-slate-500">({apiExchanges.length})</span>}
+                      </button>
+                    ))}
+                  </div>
+                  {(apiResult || apiExchanges.length > 0) && (
+                    <button onClick={() => { setApiResult(null); setApiExchanges([]); }} className="text-xs text-slate-500 hover:text-slate-300">Clear</button>
                   )}
                </div>
                <div className="flex-1 p-3 overflow-auto font-mono text-xs text-green-400 bg-slate-950">
-                  {apiResult ? (
+                  {apiOutputTab === 'request' ? (
+                    <RequestInspector exchanges={apiExchanges} />
+                  ) : apiResultJson !== undefined ? (
+                    <JsonTree value={apiResultJson} dark />
+                  ) : apiResult ? (
                     <pre className="whitespace-pre-wrap break-all">{apiResult}</pre>
                   ) : (
                      <div className="h-full flex items-center justify-center text-slate-700 italic select-none">
@@ -513,70 +1125,84 @@ const App: React.FC = () => {
           </div>
         )}
 
+        {/* API Playground History & Collections */}
+        {provider.capabilities.workspaces && status === 'connected' && (
+          <PlaygroundHistoryPanel
+            history={playgroundHistory}
+            collections={playgroundCollections}
+            config={config}
+            findMethod={findPlaygroundMethod}
+            run={playgroundRun}
+            onOpen={openPlaygroundRequest}
+            onRun={runPlaygroundRequests}
+            onClearHistory={() => setPlaygroundHistory(clearPlaygroundHistory())}
+            onCollectionsChange={updatePlaygroundCollections}
+          />
+        )}
+
+        {/* AnythingLLM Workspace Settings */}
+        {provider.capabilities.workspaces && status === 'connected' && (
+          <WorkspaceSettingsPanel
+            client={anythingClient}
+            workspaceSlug={config.model}
+            onSaved={() => fetchWorkspaces(anythingClient)}
+          />
+        )}
+
+        {/* AnythingLLM Documents */}
+        {provider.capabilities.workspaces && status === 'connected' && (
+          <DocumentsPanel
+            client={anythingClient}
+            workspaceSlug={config.model}
+            refreshKey={documentsRefreshKey}
+          />
+        )}
+
+        {/* AnythingLLM Chat History */}
+        {provider.capabilities.workspaces && status === 'connected' && (
+          <ChatHistoryPanel client={anythingClient} workspaceSlug={config.model} />
+        )}
+
+        {/* AnythingLLM Administration */}
+        {provider.capabilities.workspaces && status === 'connected' && (
+          <AdminPanel client={anythingClient} workspaces={availableWorkspaces} currentApiKey={config.apiKey || ''} />
+        )}
+
+        {/* AnythingLLM System Settings */}
+        {provider.capabilities.workspaces && status === 'connected' && (
+          <SystemPanel client={anythingClient} workspaces={availableWorkspaces} />
+        )}
+
         {/* Prompt Selection Area */}
         <div className="pt-4 border-t border-slate-200">
           <h2 className="text-lg font-semibold text-slate-800 mb-4 flex items-center">
             <MessageSquare className="mr-2 text-slate-400" size={20} />
-            Quick Prompts
+            Prompt Library
           </h2>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {PROMPT_PRESETS.map((preset) => (
-              <button
-                key={preset.id}
-                onClick={() => handlePromptClick(preset.id, preset.text)}
-                disabled={isLoading}
-                className={`text-left group relative flex flex-col p-5 rounded-xl border transition-all duration-200 
-                  ${selectedPromptId === preset.id 
-                    ? config.provider === 'ollama' 
-                        ? 'border-orange-500 bg-orange-50/50 shadow-md ring-1 ring-orange-500' 
-                        : 'border-blue-500 bg-blue-50/50 shadow-md ring-1 ring-blue-500'
-                    : 'border-slate-200 bg-white hover:shadow-md'
-                  }
-                  ${isLoading ? 'opacity-50 cursor-not-allowed' : ''}
-                `}
-              >
-                <div className="flex items-center justify-between mb-3">
-                  <span className={`p-2 rounded-lg transition-colors
-                    ${selectedPromptId === preset.id 
-                      ? config.provider === 'ollama' ? 'bg-white text-orange-600' : 'bg-white text-blue-600'
-                      : config.provider === 'ollama'
-                        ? 'bg-slate-100 text-slate-600 group-hover:bg-orange-100 group-hover:text-orange-600'
-                        : 'bg-slate-100 text-slate-600 group-hover:bg-blue-100 group-hover:text-blue-600'
-                    }
-                  `}>
-                    {getIcon(preset.icon, "w-5 h-5")}
-                  </span>
-                  {selectedPromptId === preset.id && isLoading && (
-                    <Loader2 className={`animate-spin ${config.provider === 'ollama' ? 'text-orange-500' : 'text-blue-500'}`} size={18} />
-                  )}
-                </div>
-                <h3 className="font-semibold text-slate-900 mb-1">{preset.title}</h3>
-                <p className="text-sm text-slate-500 line-clamp-2">{preset.text}</p>
-              </button>
-            ))}
-          </div>
+          <PromptLibrary
+            presets={promptLibrary}
+            onChange={updatePromptLibrary}
+            onRun={runPreset}
+            selectedPromptId={selectedPromptId}
+            isLoading={isLoading}
+            theme={theme}
+          />
         </div>
 
-        {/* Response Area */}
-        {response && (
-        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden min-h-[200px] flex flex-col animate-in fade-in slide-in-from-bottom-2">
-          <div className="bg-slate-50 px-6 py-3 border-b border-slate-100 flex items-center justify-between">
-             <h3 className="font-semibold text-slate-700 text-sm uppercase tracking-wider">Response Output</h3>
-             {!isLoading && (
-               <span className="text-xs font-mono text-slate-400 bg-slate-100 px-2 py-1 rounded">
-                 {config.provider} / {config.model}
-               </span>
-             )}
-          </div>
-          <div className="p-6 flex-1">
-             <div className="prose prose-slate max-w-none">
-                <p className="whitespace-pre-wrap text-slate-800 leading-relaxed font-mono text-sm">
-                  {response}
-                </p>
-              </div>
-          </div>
-        </div>
-        )}
+        {/* Chat */}
+        <ChatPanel
+          provider={provider}
+          model={config.model}
+          threadSlug={activeThreadSlug}
+          conversation={conversations[conversationKey(config.provider, config.model, activeThreadSlug || undefined)]}
+          conversations={providerConversations}
+          isLoading={isLoading}
+          supportsImages={visionSupport}
+          onSend={(text, images) => sendMessage(text, null, images)}
+          onStop={stopGeneration}
+          onNewChat={startNewChat}
+          onSelectConversation={selectConversation}
+        />
 
       </main>
     </div>
@@ -0,0 +1,426 @@
+import React, { useEffect, useState } from 'react';
+import { ShieldCheck, RefreshCw, UserPlus, Trash2, KeyRound, Ticket, Users, Plus, Loader2, Lock } from 'lucide-react';
+import { AnythingLLMApiKey, AnythingLLMInvite, AnythingLLMSystemStatus, AnythingLLMUser, AnythingLLMUserRole, AnythingLLMWorkspace } from '../types';
+import { AnythingLLMClient } from '../services/anythingllm-sdk';
+import { AuthError } from '../services/errors';
+import CopyButton from './CopyButton';
+
+interface AdminPanelProps {
+  client: AnythingLLMClient;
+  workspaces: AnythingLLMWorkspace[];
+  /** Key the app is connected with, to warn before revoking it */
+  currentApiKey: string;
+}
+
+const ROLES: AnythingLLMUserRole[] = ['default', 'manager', 'admin'];
+
+const inputClass = 'px-2 py-1.5 border border-slate-300 rounded text-xs focus:outline-blue-500 bg-white';
+const iconButton = 'p-1 rounded text-slate-400 hover:text-red-500 hover:bg-slate-100 disabled:opacity-40';
+
+const maskKey = (secret: string) => (secret.length > 8 ? `${secret.slice(0, 4)}••••${secret.slice(-4)}` : '••••');
+
+const Section: React.FC<{ icon: React.ReactNode; title: string; children: React.ReactNode }> = ({ icon, title, children }) => (
+  <div className="p-4 space-y-3">
+    <h4 className="text-xs font-semibold text-slate-600 uppercase tracking-wide flex items-center gap-1.5">{icon}{title}</h4>
+    {children}
+  </div>
+);
+
+/**
+ * Administration for multi-user AnythingLLM instances: users and roles, invites,
+ * workspace access and API keys. Sections the key is not allowed to use are hidden.
+ */
+const AdminPanel: React.FC<AdminPanelProps> = ({ client, workspaces, currentApiKey }) => {
+  const [status, setStatus] = useState<AnythingLLMSystemStatus | null>(null);
+  const [users, setUsers] = useState<AnythingLLMUser[]>([]);
+  const [invites, setInvites] = useState<AnythingLLMInvite[]>([]);
+  const [apiKeys, setApiKeys] = useState<AnythingLLMApiKey[]>([]);
+  // Null until probed; false when the server rejected the key
+  const [canManageUsers, setCanManageUsers] = useState<boolean | null>(null);
+  const [canManageKeys, setCanManageKeys] = useState<boolean | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null);
+
+  const [newUser, setNewUser] = useState({ username: '', password: '', role: 'default' as AnythingLLMUserRole });
+  const [inviteWorkspaceIds, setInviteWorkspaceIds] = useState<number[]>([]);
+  const [accessWorkspaceId, setAccessWorkspaceId] = useState<number | null>(null);
+  const [accessUserIds, setAccessUserIds] = useState<number[]>([]);
+  const [savedAccessUserIds, setSavedAccessUserIds] = useState<number[]>([]);
+
+  const load = async () => {
+    setIsLoading(true);
+    setMessage(null);
+    try {
+      const nextStatus = await client.getSystemStatus();
+      setStatus(nextStatus);
+
+      if (nextStatus.mode === 'multi-user') {
+        try {
+          const [nextUsers, nextInvites] = await Promise.all([client.getUsers(), client.getInvites()]);
+          setUsers(nextUsers);
+          setInvites(nextInvites);
+          setCanManageUsers(true);
+        } catch (e: any) {
+          if (!(e instanceof AuthError)) throw e;
+          setCanManageUsers(false);
+        }
+      } else {
+        setCanManageUsers(false);
+      }
+
+      // Key management only shows once listing keys works with this key
+      try {
+        setApiKeys(await client.getApiKeys());
+        setCanManageKeys(true);
+      } catch {
+        setApiKeys([]);
+        setCanManageKeys(false);
+      }
+    } catch (e: any) {
+      setMessage({ type: 'error', text: e.message });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [client]);
+
+  // Load who can access the chosen workspace
+  useEffect(() => {
+    if (accessWorkspaceId === null || !canManageUsers) return;
+    client.getWorkspaceUsers(accessWorkspaceId)
+      .then(ids => {
+        setAccessUserIds(ids);
+        setSavedAccessUserIds(ids);
+      })
+      .catch((e: any) => setMessage({ type: 'error', text: e.message }));
+  }, [client, accessWorkspaceId, canManageUsers]);
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      await action();
+      setMessage({ type: 'success', text: success });
+    } catch (e: any) {
+      setMessage({ type: 'error', text: e.message });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // --- Users ---
+
+  const createUser = () => run(async () => {
+    const user = await client.createUser(newUser.username.trim(), newUser.password, newUser.role);
+    setUsers(prev => [...prev, user]);
+    setNewUser({ username: '', password: '', role: 'default' });
+  }, `Created user ${newUser.username.trim()}.`);
+
+  const updateUser = (user: AnythingLLMUser, updates: Partial<AnythingLLMUser>, success: string) => run(async () => {
+    await client.updateUser(user.id, { role: updates.role, suspended: updates.suspended });
+    setUsers(prev => prev.map(u => (u.id === user.id ? { ...u, ...updates } : u)));
+  }, success);
+
+  const changeRole = (user: AnythingLLMUser, role: AnythingLLMUserRole) => {
+    if (user.role === 'admin' && role !== 'admin' && !window.confirm(`Remove admin rights from ${user.username}?`)) return;
+    updateUser(user, { role }, `${user.username} is now ${role}.`);
+  };
+
+  const toggleSuspended = (user: AnythingLLMUser) => {
+    const suspend = !user.suspended;
+    if (suspend && !window.confirm(`Suspend ${user.username}? They will be signed out and unable to log in.`)) return;
+    updateUser(user, { suspended: suspend ? 1 : 0 }, `${user.username} ${suspend ? 'suspended' : 'reinstated'}.`);
+  };
+
+  const resetPassword = (user: AnythingLLMUser) => {
+    const password = window.prompt(`New password for ${user.username}`);
+    if (!password) return;
+    run(() => client.updateUser(user.id, { password }).then(() => undefined), `Password changed for ${user.username}.`);
+  };
+
+  const deleteUser = (user: AnythingLLMUser) => {
+    if (!window.confirm(`Delete user ${user.username}? Their chats stay, but the account cannot be restored.`)) return;
+    run(async () => {
+      await client.deleteUser(user.id);
+      setUsers(prev => prev.filter(u => u.id !== user.id));
+    }, `Deleted ${user.username}.`);
+  };
+
+  // --- Invites ---
+
+  const createInvite = () => run(async () => {
+    const invite = await client.createInvite(inviteWorkspaceIds);
+    setInvites(prev => [invite, ...prev]);
+    setInviteWorkspaceIds([]);
+  }, 'Invite created.');
+
+  const deleteInvite = (invite: AnythingLLMInvite) => {
+    if (!window.confirm(`Revoke invite ${invite.code}?`)) return;
+    run(async () => {
+      await client.deleteInvite(invite.id);
+      setInvites(prev => prev.filter(i => i.id !== invite.id));
+    }, 'Invite revoked.');
+  };
+
+  // --- Workspace access ---
+
+  const saveAccess = () => {
+    const removed = savedAccessUserIds.filter(id => !accessUserIds.includes(id));
+    const names = users.filter(u => removed.includes(u.id)).map(u => u.username);
+    if (removed.length && !window.confirm(`Remove workspace access for ${names.join(', ') || `${removed.length} user(s)`}?`)) return;
+    run(async () => {
+      await client.updateWorkspaceUsers(accessWorkspaceId!, accessUserIds);
+      setSavedAccessUserIds(accessUserIds);
+    }, 'Workspace access updated.');
+  };
+
+  // --- API keys ---
+
+  const createApiKey = () => run(async () => {
+    const key = await client.createApiKey();
+    setApiKeys(prev => [...prev, key]);
+  }, 'API key created. Copy it now and store it safely.');
+
+  const deleteApiKey = (key: AnythingLLMApiKey) => {
+    const inUse = key.secret === currentApiKey.trim();
+    const warning = inUse ? ' This is the key this app is connected with; requests will fail afterwards.' : '';
+    if (!window.confirm(`Revoke API key ${maskKey(key.secret)}?${warning}`)) return;
+    run(async () => {
+      await client.deleteApiKey(key.id);
+      setApiKeys(prev => prev.filter(k => k.id !== key.id));
+    }, 'API key revoked.');
+  };
+
+  const toggleId = (ids: number[], id: number) => (ids.includes(id) ? ids.filter(x => x !== id) : [...ids, id]);
+  const accessChanged = accessUserIds.length !== savedAccessUserIds.length || accessUserIds.some(id => !savedAccessUserIds.includes(id));
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden animate-in fade-in slide-in-from-bottom-4">
+      <div className="p-4 border-b border-slate-100 bg-slate-50/50 flex justify-between items-center gap-2">
+        <h3 className="text-sm font-semibold text-slate-800 flex items-center">
+          <ShieldCheck size={16} className="mr-2 text-blue-500" />
+          Admin
+          {status && (
+            <span className={`ml-2 px-2 py-0.5 rounded-full text-[10px] font-medium ${status.mode === 'multi-user' ? 'bg-green-100 text-green-700' : 'bg-slate-200 text-slate-600'}`}>
+              {status.mode === 'multi-user' ? 'Multi-user' : 'Single-user'}
+            </span>
+          )}
+        </h3>
+        <div className="flex items-center gap-2">
+          {busy && <Loader2 size={14} className="animate-spin text-slate-400" />}
+          <button onClick={load} title="Refresh" className="text-slate-400 hover:text-slate-700">
+            <RefreshCw size={14} className={isLoading ? 'animate-spin' : ''} />
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <p className={`px-4 py-2 text-xs border-b border-slate-100 ${message.type === 'error' ? 'text-red-600' : 'text-green-600'}`}>{message.text}</p>
+      )}
+
+      {status?.mode === 'password' && (
+        <p className="px-4 py-3 text-xs text-slate-500">
+          Users, invites and workspace access need multi-user mode. Enable it in AnythingLLM under Settings → Security.
+        </p>
+      )}
+      {status?.mode === 'multi-user' && canManageUsers === false && (
+        <p className="px-4 py-3 text-xs text-slate-500 flex items-center gap-1">
+          <Lock size={12} /> This API key is not allowed to manage users.
+        </p>
+      )}
+
+      <div className="divide-y divide-slate-100">
+        {canManageUsers && (
+          <>
+            <Section icon={<Users size={12} />} title={`Users (${users.length})`}>
+              <table className="w-full text-xs">
+                <thead className="text-slate-500">
+                  <tr>
+                    <th className="py-1 text-left font-medium">Username</th>
+                    <th className="py-1 text-left font-medium">Role</th>
+                    <th className="py-1 text-left font-medium">Status</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {users.map(user => (
+                    <tr key={user.id} className="border-t border-slate-100">
+                      <td className="py-1.5 font-medium text-slate-700">{user.username}</td>
+                      <td className="py-1.5">
+                        <select value={user.role} onChange={(e) => changeRole(user, e.target.value as AnythingLLMUserRole)} disabled={busy} className={inputClass}>
+                          {ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+                        </select>
+                      </td>
+                      <td className="py-1.5">
+                        <button
+                          onClick={() => toggleSuspended(user)}
+                          disabled={busy}
+                          className={`px-2 py-0.5 rounded-full text-[10px] font-medium ${user.suspended ? 'bg-red-100 text-red-700' : 'bg-green-100 text-green-700'}`}
+                          title={user.suspended ? 'Reinstate' : 'Suspend'}
+                        >
+                          {user.suspended ? 'Suspended' : 'Active'}
+                        </button>
+                      </td>
+                      <td className="py-1.5 text-right whitespace-nowrap">
+                        <button onClick={() => resetPassword(user)} disabled={busy} title="Change password" className={iconButton}>
+                          <KeyRound size={12} />
+                        </button>
+                        <button onClick={() => deleteUser(user)} disabled={busy} title="Delete user" className={iconButton}>
+                          <Trash2 size={12} />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="flex flex-wrap gap-2">
+                <input
+                  type="text"
+                  value={newUser.username}
+                  onChange={(e) => setNewUser(prev => ({ ...prev, username: e.target.value }))}
+                  placeholder="Username"
+                  className={`${inputClass} flex-1 min-w-[120px]`}
+                />
+                <input
+                  type="password"
+                  value={newUser.password}
+                  onChange={(e) => setNewUser(prev => ({ ...prev, password: e.target.value }))}
+                  placeholder="Password"
+                  autoComplete="new-password"
+                  className={`${inputClass} flex-1 min-w-[120px]`}
+                />
+                <select value={newUser.role} onChange={(e) => setNewUser(prev => ({ ...prev, role: e.target.value as AnythingLLMUserRole }))} className={inputClass}>
+                  {ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+                </select>
+                <button
+                  onClick={createUser}
+                  disabled={busy || !newUser.username.trim() || !newUser.password}
+                  className="px-3 py-1.5 rounded text-xs bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-40 flex items-center gap-1"
+                >
+                  <UserPlus size={12} /> Add user
+                </button>
+              </div>
+            </Section>
+
+            <Section icon={<Ticket size={12} />} title={`Invites (${invites.length})`}>
+              {invites.length > 0 && (
+                <ul className="space-y-1 text-xs">
+                  {invites.map(invite => (
+                    <li key={invite.id} className="flex items-center gap-2">
+                      <code className="font-mono text-slate-700">{invite.code}</code>
+                      <CopyButton text={invite.code} className="text-slate-400 hover:text-slate-700" />
+                      <span className={`px-1.5 py-0.5 rounded text-[10px] ${invite.status === 'pending' ? 'bg-amber-100 text-amber-700' : 'bg-slate-100 text-slate-500'}`}>
+                        {invite.status}
+                      </span>
+                      {invite.claimedBy && (
+                        <span className="text-slate-400">by {users.find(u => u.id === invite.claimedBy)?.username ?? `user ${invite.claimedBy}`}</span>
+                      )}
+                      {invite.status === 'pending' && (
+                        <button onClick={() => deleteInvite(invite)} disabled={busy} title="Revoke invite" className={`ml-auto ${iconButton}`}>
+                          <Trash2 size={12} />
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                <span className="text-slate-500">Joins:</span>
+                {workspaces.length === 0 && <span className="text-slate-400 italic">no workspaces</span>}
+                {workspaces.map(ws => (
+                  <label key={ws.id} className="flex items-center gap-1 text-slate-600">
+                    <input
+                      type="checkbox"
+                      checked={inviteWorkspaceIds.includes(ws.id)}
+                      onChange={() => setInviteWorkspaceIds(prev => toggleId(prev, ws.id))}
+                    />
+                    {ws.name}
+                  </label>
+                ))}
+                <button
+                  onClick={createInvite}
+                  disabled={busy}
+                  className="ml-auto px-3 py-1.5 rounded text-xs border border-slate-300 text-slate-600 hover:bg-slate-50 disabled:opacity-40 flex items-center gap-1"
+                >
+                  <Plus size={12} /> Create invite
+                </button>
+              </div>
+            </Section>
+
+            <Section icon={<Users size={12} />} title="Workspace access">
+              <select
+                value={accessWorkspaceId ?? ''}
+                onChange={(e) => setAccessWorkspaceId(e.target.value ? Number(e.target.value) : null)}
+                className={`${inputClass} w-full`}
+              >
+                <option value="">Select a workspace...</option>
+                {workspaces.map(ws => <option key={ws.id} value={ws.id}>{ws.name} ({ws.slug})</option>)}
+              </select>
+              {accessWorkspaceId !== null && (
+                <>
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs">
+                    {users.map(user => (
+                      <label key={user.id} className="flex items-center gap-1 text-slate-600">
+                        <input
+                          type="checkbox"
+                          checked={user.role === 'admin' || accessUserIds.includes(user.id)}
+                          disabled={user.role === 'admin'}
+                          onChange={() => setAccessUserIds(prev => toggleId(prev, user.id))}
+                        />
+                        {user.username}
+                        {user.role === 'admin' && <span className="text-slate-400">(admin: always)</span>}
+                      </label>
+                    ))}
+                  </div>
+                  <button
+                    onClick={saveAccess}
+                    disabled={busy || !accessChanged}
+                    className="px-3 py-1.5 rounded text-xs bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-40"
+                  >
+                    Save access
+                  </button>
+                </>
+              )}
+            </Section>
+          </>
+        )}
+
+        {canManageKeys === false && (
+          <p className="px-4 py-3 text-xs text-slate-500 flex items-center gap-1">
+            <Lock size={12} /> API key management is unavailable here: AnythingLLM only serves it to a signed-in admin session.
+          </p>
+        )}
+        {canManageKeys && (
+          <Section icon={<KeyRound size={12} />} title={`API keys (${apiKeys.length})`}>
+            <ul className="space-y-1 text-xs">
+              {apiKeys.map(key => (
+                <li key={key.id} className="flex items-center gap-2">
+                  <code className="font-mono text-slate-700">{maskKey(key.secret)}</code>
+                  <CopyButton text={key.secret} className="text-slate-400 hover:text-slate-700" />
+                  {key.secret === currentApiKey.trim() && <span className="px-1.5 py-0.5 rounded bg-blue-100 text-blue-700 text-[10px]">in use</span>}
+                  <span className="text-slate-400">{new Date(key.createdAt).toLocaleDateString()}</span>
+                  <button onClick={() => deleteApiKey(key)} disabled={busy} title="Revoke key" className={`ml-auto ${iconButton}`}>
+                    <Trash2 size={12} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <button
+              onClick={createApiKey}
+              disabled={busy}
+              className="px-3 py-1.5 rounded text-xs border border-slate-300 text-slate-600 hover:bg-slate-50 disabled:opacity-40 flex items-center gap-1"
+            >
+              <Plus size={12} /> Generate key
+            </button>
+          </Section>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdminPanel;
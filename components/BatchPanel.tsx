@@ -0,0 +1,268 @@
+import React, { useState, useRef } from 'react';
+import { ListOrdered, Upload, Play, Pause, RotateCcw, Download, Loader2, CheckCircle2, AlertCircle, Circle } from 'lucide-react';
+import { AppConfig, BatchItem, BatchResult } from '../types';
+import { DEFAULT_BATCH_CONCURRENCY, MAX_BATCH_CONCURRENCY } from '../constants';
+import { parseDataset, runBatch, batchToJsonl, batchToCsv } from '../services/batch';
+import { createTarget, describeTarget, runTarget } from '../services/compare';
+import { downloadFile } from '../services/storage';
+
+interface BatchPanelProps {
+  config: AppConfig;
+}
+
+type RunState = 'idle' | 'running' | 'pausing' | 'paused' | 'done';
+
+const PREVIEW_LENGTH = 160;
+
+const STATUS_ICONS = {
+  pending: <Circle size={12} className="text-slate-300" />,
+  running: <Loader2 size={12} className="animate-spin text-blue-500" />,
+  done: <CheckCircle2 size={12} className="text-green-500" />,
+  error: <AlertCircle size={12} className="text-red-500" />
+};
+
+/**
+ * Run a CSV/JSONL dataset of prompts against the current model or workspace
+ * with configurable concurrency, pause/resume and JSONL/CSV export.
+ */
+const BatchPanel: React.FC<BatchPanelProps> = ({ config }) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [datasetName, setDatasetName] = useState('');
+  const [results, setResults] = useState<Record<string, BatchResult>>({});
+  const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+  const [runState, setRunState] = useState<RunState>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const pauseRef = useRef(false);
+  // Results as seen by the running batch, which outlives the render that started it
+  const resultsRef = useRef<Record<string, BatchResult>>({});
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const setResult = (id: string, result: BatchResult) => {
+    resultsRef.current = { ...resultsRef.current, [id]: result };
+    setResults(resultsRef.current);
+  };
+
+  const resetResults = () => {
+    resultsRef.current = {};
+    setResults({});
+    setRunState('idle');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setItems(parseDataset(await file.text(), file.name));
+      setDatasetName(file.name);
+      setError(null);
+      resetResults();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const start = async () => {
+    if (items.length === 0) return;
+    // Snapshot the target so changing the connection mid-run doesn't mix models
+    const target = createTarget(config);
+    pauseRef.current = false;
+    setRunState('running');
+    setError(null);
+
+    await runBatch(items, {
+      concurrency,
+      isPending: item => {
+        const status = resultsRef.current[item.id]?.status;
+        return !status || status === 'pending';
+      },
+      shouldPause: () => pauseRef.current,
+      run: async (item) => {
+        setResult(item.id, { status: 'running' });
+        try {
+          const result = await runTarget(target, config, item.prompt);
+          setResult(item.id, { status: 'done', response: result.response, latencyMs: result.latencyMs, sources: result.sources });
+        } catch (e: any) {
+          setResult(item.id, { status: 'error', error: e.message });
+        }
+      }
+    });
+
+    setRunState(pauseRef.current ? 'paused' : 'done');
+  };
+
+  const pause = () => {
+    pauseRef.current = true;
+    setRunState('pausing');
+  };
+
+  // Failed rows go back to pending so Resume retries them
+  const retryFailed = () => {
+    const next = { ...resultsRef.current };
+    Object.keys(next).forEach(id => { if (next[id].status === 'error') next[id] = { status: 'pending' }; });
+    resultsRef.current = next;
+    setResults(next);
+    setRunState('paused');
+  };
+
+  const all = Object.values(results) as BatchResult[];
+  const completed = all.filter(r => r.status === 'done' || r.status === 'error').length;
+  const failed = all.filter(r => r.status === 'error').length;
+  const latencies = all.filter(r => r.status === 'done' && r.latencyMs !== undefined).map(r => r.latencyMs!);
+  const avgLatency = latencies.length ? latencies.reduce((a, b) => a + b, 0) / latencies.length : null;
+  const percent = items.length ? Math.round((completed / items.length) * 100) : 0;
+  const isBusy = runState === 'running' || runState === 'pausing';
+  const baseName = datasetName.replace(/\.[^.]+$/, '') || 'batch';
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden animate-in fade-in slide-in-from-bottom-4">
+      <div className="p-4 border-b border-slate-100 bg-slate-50/50 flex justify-between items-center gap-2 flex-wrap">
+        <h3 className="text-sm font-semibold text-slate-800 flex items-center">
+          <ListOrdered size={16} className="mr-2 text-teal-500" />
+          Batch Runner
+          <span className="ml-2 text-xs font-normal text-slate-400 font-mono">{describeTarget(createTarget(config))}</span>
+        </h3>
+        <div className="flex items-center gap-1">
+          <Download size={12} className="text-slate-400" />
+          <button
+            onClick={() => downloadFile(`${baseName}-results.jsonl`, batchToJsonl(items, results), 'application/jsonl')}
+            disabled={completed === 0}
+            className="px-2 py-1 rounded text-[10px] font-medium uppercase border border-slate-300 text-slate-600 hover:bg-slate-50 disabled:opacity-40"
+          >
+            jsonl
+          </button>
+          <button
+            onClick={() => downloadFile(`${baseName}-results.csv`, batchToCsv(items, results), 'text/csv')}
+            disabled={completed === 0}
+            className="px-2 py-1 rounded text-[10px] font-medium uppercase border border-slate-300 text-slate-600 hover:bg-slate-50 disabled:opacity-40"
+          >
+            csv
+          </button>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-3 border-b border-slate-100">
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isBusy}
+            className="px-3 py-1.5 rounded-lg text-xs font-medium border border-slate-300 text-slate-600 hover:bg-slate-50 disabled:opacity-50 flex items-center gap-1"
+          >
+            <Upload size={12} /> Load CSV / JSONL
+          </button>
+          <input ref={fileInputRef} type="file" accept=".csv,.jsonl,.json,text/csv,application/jsonl" onChange={handleFile} className="hidden" />
+          <span className="text-xs text-slate-500">
+            {items.length ? <><span className="font-mono">{datasetName}</span> · {items.length} prompts</> : 'Needs a "prompt" column; "expected" and "id" are optional.'}
+          </span>
+
+          <label className="ml-auto text-xs text-slate-600 flex items-center gap-1">
+            Concurrency
+            <input
+              type="number"
+              min={1}
+              max={MAX_BATCH_CONCURRENCY}
+              value={concurrency}
+              onChange={(e) => setConcurrency(Math.max(1, Math.min(MAX_BATCH_CONCURRENCY, Number(e.target.value) || 1)))}
+              disabled={isBusy}
+              className="w-14 px-2 py-1 border border-slate-300 rounded text-xs"
+            />
+          </label>
+
+          {isBusy ? (
+            <button
+              onClick={pause}
+              disabled={runState === 'pausing'}
+              className="px-3 py-1.5 rounded-lg text-xs font-medium bg-amber-500 text-white hover:bg-amber-600 disabled:opacity-60 flex items-center gap-1"
+            >
+              {runState === 'pausing' ? <Loader2 size={12} className="animate-spin" /> : <Pause size={12} />}
+              {runState === 'pausing' ? 'Pausing…' : 'Pause'}
+            </button>
+          ) : (
+            <button
+              onClick={start}
+              disabled={items.length === 0 || runState === 'done'}
+              className="px-3 py-1.5 rounded-lg text-xs font-medium bg-teal-600 text-white hover:bg-teal-700 disabled:opacity-50 flex items-center gap-1"
+            >
+              <Play size={12} fill="currentColor" /> {runState === 'paused' ? 'Resume' : 'Start'}
+            </button>
+          )}
+          {failed > 0 && !isBusy && (
+            <button onClick={retryFailed} className="text-xs text-red-600 hover:underline">Retry {failed} failed</button>
+          )}
+          <button
+            onClick={resetResults}
+            disabled={isBusy || completed === 0}
+            title="Clear results"
+            className="text-slate-400 hover:text-slate-700 disabled:opacity-40"
+          >
+            <RotateCcw size={14} />
+          </button>
+        </div>
+
+        {error && <p className="text-xs text-red-600">{error}</p>}
+
+        {items.length > 0 && (
+          <div>
+            <div className="w-full h-2 bg-slate-100 rounded-full overflow-hidden">
+              <div className="h-full bg-teal-500 transition-all" style={{ width: `${percent}%` }} />
+            </div>
+            <p className="text-[10px] text-slate-500 mt-1 flex justify-between">
+              <span>{completed} / {items.length} done{failed > 0 && <span className="text-red-600"> · {failed} failed</span>}</span>
+              {avgLatency !== null && <span>avg {(avgLatency / 1000).toFixed(2)}s</span>}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {items.length > 0 && (
+        <div className="max-h-[480px] overflow-auto">
+          <table className="w-full text-xs">
+            <thead className="bg-slate-50 text-slate-500 sticky top-0">
+              <tr>
+                <th className="w-6" />
+                <th className="px-3 py-2 text-left font-medium">#</th>
+                <th className="px-3 py-2 text-left font-medium">Prompt</th>
+                <th className="px-3 py-2 text-left font-medium">Expected</th>
+                <th className="px-3 py-2 text-left font-medium">Response</th>
+                <th className="px-3 py-2 text-right font-medium">Latency</th>
+                <th className="px-3 py-2 text-right font-medium">Sources</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {items.map(item => {
+                const result = results[item.id];
+                const isExpanded = expandedId === item.id;
+                const clip = (text?: string) =>
+                  !text ? '' : isExpanded || text.length <= PREVIEW_LENGTH ? text : `${text.slice(0, PREVIEW_LENGTH)}…`;
+                return (
+                  <tr
+                    key={item.id}
+                    onClick={() => setExpandedId(isExpanded ? null : item.id)}
+                    className="align-top cursor-pointer hover:bg-slate-50"
+                  >
+                    <td className="pl-2 py-2">{STATUS_ICONS[result?.status || 'pending']}</td>
+                    <td className="px-3 py-2 font-mono text-slate-400">{item.id}</td>
+                    <td className="px-3 py-2 text-slate-800 whitespace-pre-wrap">{clip(item.prompt)}</td>
+                    <td className="px-3 py-2 text-slate-500 whitespace-pre-wrap">{clip(item.expected)}</td>
+                    <td className="px-3 py-2 text-slate-600 whitespace-pre-wrap">
+                      {result?.error ? <span className="text-red-600">{result.error}</span> : clip(result?.response)}
+                    </td>
+                    <td className="px-3 py-2 text-right text-slate-500 whitespace-nowrap">
+                      {result?.latencyMs !== undefined ? `${(result.latencyMs / 1000).toFixed(2)}s` : ''}
+                    </td>
+                    <td className="px-3 py-2 text-right text-slate-500" title={(result?.sources || []).map(s => s.title).join('\n')}>
+                      {result?.sources?.length || ''}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchPanel;
@@ -0,0 +1,198 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { History, RefreshCw, Search, Download, ChevronDown, ChevronRight } from 'lucide-react';
+import { AnythingLLMWorkspaceChat } from '../types';
+import { AnythingLLMClient, pairChatHistory } from '../services/anythingllm-sdk';
+import { exportChats, ChatExportFormat, CHAT_EXPORT_MIME } from '../services/chat-export';
+import { downloadFile } from '../services/storage';
+
+interface ChatHistoryPanelProps {
+  client: AnythingLLMClient;
+  /** Workspace shown in "This workspace" mode */
+  workspaceSlug: string;
+}
+
+type HistoryScope = 'workspace' | 'system';
+
+const PREVIEW_LENGTH = 120;
+
+const preview = (text: string) =>
+  text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}…` : text;
+
+/**
+ * Browse past AnythingLLM chats for the selected workspace, or across the
+ * whole instance, with search, date filters and JSON/CSV/Markdown export.
+ */
+const ChatHistoryPanel: React.FC<ChatHistoryPanelProps> = ({ client, workspaceSlug }) => {
+  const [scope, setScope] = useState<HistoryScope>('workspace');
+  const [chats, setChats] = useState<AnythingLLMWorkspaceChat[]>([]);
+  const [page, setPage] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const load = async (nextPage = 0) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      if (scope === 'system') {
+        const result = await client.getSystemChats(nextPage);
+        setChats(prev => (nextPage === 0 ? result.chats : [...prev, ...result.chats]));
+        setHasMore(result.hasPages);
+        setPage(nextPage);
+      } else {
+        const history = workspaceSlug ? await client.getWorkspaceChats(workspaceSlug) : [];
+        setChats(pairChatHistory(workspaceSlug, history).reverse());
+        setHasMore(false);
+      }
+    } catch (e: any) {
+      setError(e.message);
+      if (nextPage === 0) setChats([]);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load(0);
+  }, [client, workspaceSlug, scope]);
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    // Date inputs are local calendar days; include the whole "to" day
+    const from = fromDate ? new Date(`${fromDate}T00:00:00`).getTime() : -Infinity;
+    const to = toDate ? new Date(`${toDate}T23:59:59.999`).getTime() : Infinity;
+    return chats.filter(chat => {
+      const time = new Date(chat.createdAt).getTime();
+      if (time < from || time > to) return false;
+      if (!term) return true;
+      return [chat.prompt, chat.response, chat.user, chat.workspaceName, chat.workspaceSlug]
+        .some(field => field?.toLowerCase().includes(term));
+    });
+  }, [chats, search, fromDate, toDate]);
+
+  // Users are only attached in multi-user mode
+  const showUser = chats.some(c => c.user);
+  const showWorkspace = scope === 'system';
+
+  const handleExport = (format: ChatExportFormat) => {
+    const name = scope === 'system' ? 'all-workspaces' : workspaceSlug;
+    const title = scope === 'system' ? 'Chat History: all workspaces' : `Chat History: ${workspaceSlug}`;
+    downloadFile(`chats-${name}-${new Date().toISOString().slice(0, 10)}.${format}`, exportChats(filtered, format, title), CHAT_EXPORT_MIME[format]);
+  };
+
+  const inputClass = 'px-2 py-1.5 border border-slate-300 rounded text-xs focus:outline-blue-500 bg-white';
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden animate-in fade-in slide-in-from-bottom-4">
+      <div className="p-4 border-b border-slate-100 bg-slate-50/50 flex justify-between items-center gap-2 flex-wrap">
+        <h3 className="text-sm font-semibold text-slate-800 flex items-center">
+          <History size={16} className="mr-2 text-blue-500" />
+          Chat History
+        </h3>
+        <div className="flex items-center gap-2">
+          <select value={scope} onChange={(e) => setScope(e.target.value as HistoryScope)} className={inputClass}>
+            <option value="workspace">This workspace</option>
+            <option value="system">All workspaces (Admin)</option>
+          </select>
+          <button onClick={() => load(0)} title="Refresh" className="text-slate-400 hover:text-slate-700">
+            <RefreshCw size={14} className={isLoading ? 'animate-spin' : ''} />
+          </button>
+        </div>
+      </div>
+
+      <div className="p-3 border-b border-slate-100 flex flex-wrap items-center gap-2">
+        <div className="relative flex-1 min-w-[180px]">
+          <Search size={12} className="absolute left-2 top-1/2 -translate-y-1/2 text-slate-400" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search prompts, responses, users…"
+            className={`${inputClass} w-full pl-6`}
+          />
+        </div>
+        <label className="text-xs text-slate-500 flex items-center gap-1">
+          From <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className={inputClass} />
+        </label>
+        <label className="text-xs text-slate-500 flex items-center gap-1">
+          To <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className={inputClass} />
+        </label>
+        <div className="flex items-center gap-1">
+          <Download size={12} className="text-slate-400" />
+          {(['json', 'csv', 'md'] as ChatExportFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={filtered.length === 0}
+              className="px-2 py-1 rounded text-[10px] font-medium uppercase border border-slate-300 text-slate-600 hover:bg-slate-50 disabled:opacity-40"
+            >
+              {format}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <p className="px-4 py-2 text-xs text-red-600">{error}</p>}
+
+      <div className="max-h-[420px] overflow-auto">
+        {filtered.length === 0 ? (
+          <p className="p-6 text-center text-xs text-slate-400">
+            {isLoading ? 'Loading…' : chats.length === 0 ? 'No chats recorded.' : 'No chats match the filters.'}
+          </p>
+        ) : (
+          <table className="w-full text-xs">
+            <thead className="bg-slate-50 text-slate-500 sticky top-0">
+              <tr>
+                <th className="w-6" />
+                <th className="px-3 py-2 text-left font-medium">Date</th>
+                {showWorkspace && <th className="px-3 py-2 text-left font-medium">Workspace</th>}
+                {showUser && <th className="px-3 py-2 text-left font-medium">User</th>}
+                <th className="px-3 py-2 text-left font-medium">Prompt</th>
+                <th className="px-3 py-2 text-left font-medium">Response</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {filtered.map(chat => {
+                const isExpanded = expandedId === chat.id;
+                return (
+                  <tr
+                    key={chat.id}
+                    onClick={() => setExpandedId(isExpanded ? null : chat.id)}
+                    className="align-top cursor-pointer hover:bg-slate-50"
+                  >
+                    <td className="pl-2 py-2 text-slate-400">{isExpanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}</td>
+                    <td className="px-3 py-2 text-slate-500 whitespace-nowrap">{new Date(chat.createdAt).toLocaleString()}</td>
+                    {showWorkspace && <td className="px-3 py-2 font-mono text-slate-600">{chat.workspaceName || chat.workspaceSlug}</td>}
+                    {showUser && <td className="px-3 py-2 text-slate-600">{chat.user || '—'}</td>}
+                    <td className="px-3 py-2 text-slate-800 whitespace-pre-wrap">{isExpanded ? chat.prompt : preview(chat.prompt)}</td>
+                    <td className="px-3 py-2 text-slate-600 whitespace-pre-wrap">
+                      {isExpanded ? chat.response : preview(chat.response)}
+                      {isExpanded && chat.sources && chat.sources.length > 0 && (
+                        <p className="mt-2 text-[10px] text-slate-400">Sources: {chat.sources.map(s => s.title).join(', ')}</p>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="px-4 py-2 border-t border-slate-100 flex items-center justify-between text-[10px] text-slate-400">
+        <span>{filtered.length} of {chats.length} exchange(s)</span>
+        {hasMore && (
+          <button onClick={() => load(page + 1)} disabled={isLoading} className="text-blue-600 hover:underline disabled:opacity-50">
+            Load more
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ChatHistoryPanel;
@@ -0,0 +1,309 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { MessageSquare, Send, Square, RotateCcw, User, Bot, AlertCircle, Timer, ImagePlus, X, Image as ImageIcon } from 'lucide-react';
+import { Conversation, ImageAttachment, ProviderDefinition } from '../types';
+import { MAX_IMAGES_PER_MESSAGE } from '../constants';
+import { readImageFile } from '../services/images';
+import CitedAnswer from './CitedAnswer';
+import ResponseView from './ResponseView';
+import { formatMetrics } from '../services/metrics';
+
+interface ChatPanelProps {
+  provider: ProviderDefinition;
+  model: string;
+  /** Active AnythingLLM thread, shown next to the workspace */
+  threadSlug?: string | null;
+  conversation?: Conversation;
+  /** Other conversations for the current provider, used for quick switching */
+  conversations: Conversation[];
+  isLoading: boolean;
+  /** Whether the selected model accepts images; null when unknown */
+  supportsImages?: boolean | null;
+  onSend: (text: string, images: ImageAttachment[]) => void;
+  onStop: () => void;
+  onNewChat: () => void;
+  onSelectConversation: (conversation: Conversation) => void;
+}
+
+/**
+ * Multi-turn chat view: conversation list, message history and a free-text composer.
+ */
+const ChatPanel: React.FC<ChatPanelProps> = ({
+  provider,
+  model,
+  threadSlug,
+  conversation,
+  conversations,
+  isLoading,
+  supportsImages = null,
+  onSend,
+  onStop,
+  onNewChat,
+  onSelectConversation
+}) => {
+  const [draft, setDraft] = useState('');
+  const [attachments, setAttachments] = useState<ImageAttachment[]>([]);
+  const [attachError, setAttachError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const acceptsImages = provider.capabilities.images;
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const messages = conversation?.messages || [];
+  const { theme } = provider;
+
+  // Keep the latest message in view while tokens stream in
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [messages]);
+
+  const submit = () => {
+    const text = draft.trim();
+    if (!text || isLoading) return;
+    onSend(text, attachments);
+    setDraft('');
+    setAttachments([]);
+    setAttachError(null);
+  };
+
+  const addImages = async (files: File[]) => {
+    if (!acceptsImages || files.length === 0) return;
+    const room = MAX_IMAGES_PER_MESSAGE - attachments.length;
+    const errors: string[] = files.length > room ? [`Up to ${MAX_IMAGES_PER_MESSAGE} images per message.`] : [];
+    const added: ImageAttachment[] = [];
+    for (const file of files.slice(0, Math.max(0, room))) {
+      try {
+        added.push(await readImageFile(file));
+      } catch (e: any) {
+        errors.push(e.message);
+      }
+    }
+    setAttachments(prev => [...prev, ...added]);
+    setAttachError(errors.length ? errors.join(' ') : null);
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = (Array.from(e.clipboardData.files) as File[]).filter(f => f.type.startsWith('image/'));
+    if (files.length === 0 || !acceptsImages) return;
+    e.preventDefault();
+    addImages(files);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addImages(Array.from(e.dataTransfer.files) as File[]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      submit();
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+      {/* Conversation List */}
+      <div className="lg:col-span-3 bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden flex flex-col">
+        <div className="p-4 border-b border-slate-100 bg-slate-50/50">
+          <h3 className="text-sm font-semibold text-slate-800 flex items-center">
+            <MessageSquare size={16} className={`mr-2 ${theme.text}`} />
+            Conversations
+          </h3>
+        </div>
+        <div className="p-2 overflow-y-auto max-h-[480px]">
+          {conversations.length === 0 ? (
+            <p className="text-center py-6 text-slate-400 text-xs">No conversations yet.</p>
+          ) : (
+            <ul className="space-y-1">
+              {conversations.map(c => (
+                <li key={c.key}>
+                  <button
+                    onClick={() => onSelectConversation(c)}
+                    className={`w-full text-left px-3 py-2 rounded-md text-xs transition-colors ${
+                      c.key === conversation?.key
+                        ? theme.listItem
+                        : 'hover:bg-slate-50 text-slate-600'
+                    }`}
+                  >
+                    <span className="block truncate font-mono">
+                      {c.model}{c.threadSlug && <span className="text-slate-400"> / {c.threadSlug}</span>}
+                    </span>
+                    <span className="block text-[10px] text-slate-400">
+                      {c.messages.length} messages · {new Date(c.updatedAt).toLocaleTimeString()}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {/* Messages + Composer */}
+      <div className="lg:col-span-9 bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden flex flex-col min-h-[480px]">
+        <div className="bg-slate-50 px-6 py-3 border-b border-slate-100 flex items-center justify-between">
+          <h3 className="font-semibold text-slate-700 text-sm uppercase tracking-wider">Chat</h3>
+          <div className="flex items-center gap-2">
+            <span className="text-xs font-mono text-slate-400 bg-slate-100 px-2 py-1 rounded">
+              {provider.label} / {model || '—'}{threadSlug ? ` / ${threadSlug}` : ''}
+            </span>
+            <button
+              onClick={onNewChat}
+              disabled={isLoading || messages.length === 0}
+              title="Start a new conversation"
+              className="flex items-center gap-1 text-xs text-slate-500 hover:text-slate-800 px-2 py-1 rounded hover:bg-slate-100 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <RotateCcw size={12} />
+              New Chat
+            </button>
+          </div>
+        </div>
+
+        <div ref={scrollRef} className="flex-1 p-6 space-y-4 overflow-y-auto max-h-[520px]">
+          {messages.length === 0 && (
+            <div className="h-full flex items-center justify-center text-slate-400 text-sm italic select-none">
+              Type a message below or pick a Quick Prompt to start.
+            </div>
+          )}
+          {messages.map((msg, idx) => {
+            const isUser = msg.role === 'user';
+            const isStreaming = isLoading && idx === messages.length - 1 && !isUser;
+            return (
+              <div key={msg.id} className={`flex gap-3 ${isUser ? 'flex-row-reverse' : ''}`}>
+                <div className={`shrink-0 w-8 h-8 rounded-full flex items-center justify-center ${
+                  isUser
+                    ? 'bg-slate-800 text-white'
+                    : theme.avatar
+                }`}>
+                  {isUser ? <User size={14} /> : <Bot size={14} />}
+                </div>
+                <div className={`${msg.sources?.length ? 'max-w-[90%]' : 'max-w-[80%]'} rounded-xl px-4 py-3 ${
+                  isUser ? 'bg-slate-800 text-slate-50' : 'bg-slate-50 border border-slate-100 text-slate-800'
+                }`}>
+                  {msg.metrics && (
+                    <p
+                      className="text-[10px] text-slate-400 font-mono mb-1.5 flex items-center gap-1"
+                      title={msg.metrics.loadMs ? `Model load: ${(msg.metrics.loadMs / 1000).toFixed(2)}s` : undefined}
+                    >
+                      <Timer size={10} /> {formatMetrics(msg.metrics)}
+                    </p>
+                  )}
+                  {msg.sources && msg.sources.length > 0 && !isStreaming ? (
+                    <CitedAnswer content={msg.content} sources={msg.sources} />
+                  ) : isUser ? (
+                    <>
+                      {msg.images && msg.images.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mb-2">
+                          {msg.images.map(img => img.dataUrl ? (
+                            <img key={img.id} src={img.dataUrl} alt={img.name} title={img.name} className="h-20 rounded border border-slate-600 object-cover" />
+                          ) : (
+                            <span key={img.id} className="flex items-center gap-1 text-[10px] text-slate-300 px-2 py-1 rounded border border-slate-600" title="Image data is not kept after reload">
+                              <ImageIcon size={10} /> {img.name}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                      <p className="whitespace-pre-wrap leading-relaxed font-mono text-sm">{msg.content}</p>
+                    </>
+                  ) : (
+                    <ResponseView content={msg.content} isStreaming={isStreaming} />
+                  )}
+                  {msg.stopped && <p className="text-[10px] text-slate-400 mt-2 italic">Generation stopped.</p>}
+                  {msg.error && (
+                    <p className="text-xs text-red-600 mt-2 flex items-center gap-1">
+                      <AlertCircle size={12} /> {msg.error}
+                    </p>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div
+          className={`border-t border-slate-100 p-4 transition-colors ${isDragging ? 'bg-blue-50' : 'bg-slate-50/50'}`}
+          onDragOver={acceptsImages ? (e) => { e.preventDefault(); setIsDragging(true); } : undefined}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={acceptsImages ? handleDrop : undefined}
+        >
+          {attachments.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-2">
+              {attachments.map(img => (
+                <div key={img.id} className="relative group">
+                  <img src={img.dataUrl} alt={img.name} title={img.name} className="h-16 w-16 rounded-lg border border-slate-200 object-cover" />
+                  <button
+                    onClick={() => setAttachments(prev => prev.filter(a => a.id !== img.id))}
+                    title="Remove image"
+                    className="absolute -top-1.5 -right-1.5 bg-white rounded-full border border-slate-300 text-slate-500 hover:text-red-600 p-0.5"
+                  >
+                    <X size={10} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          {attachments.length > 0 && supportsImages === false && (
+            <p className="text-xs text-amber-700 mb-2 flex items-center gap-1">
+              <AlertCircle size={12} /> {model} doesn't report vision support, so the images will likely be ignored. Try a vision model such as llava.
+            </p>
+          )}
+          {attachError && <p className="text-xs text-red-600 mb-2">{attachError}</p>}
+          <div className="flex gap-2 items-end">
+            {acceptsImages && (
+              <>
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={attachments.length >= MAX_IMAGES_PER_MESSAGE}
+                  title="Attach images (or drop / paste them)"
+                  className="h-[42px] px-3 rounded-lg border border-slate-300 text-slate-500 hover:bg-white hover:text-slate-700 disabled:opacity-40"
+                >
+                  <ImagePlus size={16} />
+                </button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="image/*"
+                  multiple
+                  onChange={(e) => { addImages(Array.from(e.target.files || []) as File[]); e.target.value = ''; }}
+                  className="hidden"
+                />
+              </>
+            )}
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={handleKeyDown}
+              onPaste={handlePaste}
+              rows={2}
+              placeholder={acceptsImages
+                ? 'Type a message… (Enter to send, Shift+Enter for a new line, drop or paste images)'
+                : 'Type a message… (Enter to send, Shift+Enter for a new line)'}
+              className="flex-1 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-slate-400 outline-none transition-all text-slate-800 placeholder-slate-400 text-sm resize-y"
+            />
+            {isLoading ? (
+              <button
+                onClick={onStop}
+                className="h-[42px] px-4 flex items-center gap-2 rounded-lg text-sm font-medium text-red-600 bg-red-50 hover:bg-red-100 border border-red-200 transition-colors"
+              >
+                <Square size={14} fill="currentColor" />
+                Stop
+              </button>
+            ) : (
+              <button
+                onClick={submit}
+                disabled={!draft.trim()}
+                className={`h-[42px] px-4 flex items-center gap-2 rounded-lg text-sm font-medium text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${theme.button}`}
+              >
+                <Send size={14} />
+                Send
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChatPanel;
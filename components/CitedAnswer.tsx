@@ -0,0 +1,145 @@
+import React, { useState, useMemo } from 'react';
+import { BookOpen, ChevronDown, ChevronRight, Link2 } from 'lucide-react';
+import { AnythingLLMSource } from '../types';
+import { attributeSentences, getSourceScore, getSourceLocation } from '../services/citations';
+import ResponseView from './ResponseView';
+
+interface CitedAnswerProps {
+  content: string;
+  sources: AnythingLLMSource[];
+}
+
+// One colour per citation, cycled when there are more sources than colours
+const PALETTE = [
+  { mark: 'bg-sky-100', active: 'bg-sky-200', badge: 'bg-sky-500', bar: 'bg-sky-500', ring: 'ring-sky-300' },
+  { mark: 'bg-violet-100', active: 'bg-violet-200', badge: 'bg-violet-500', bar: 'bg-violet-500', ring: 'ring-violet-300' },
+  { mark: 'bg-emerald-100', active: 'bg-emerald-200', badge: 'bg-emerald-500', bar: 'bg-emerald-500', ring: 'ring-emerald-300' },
+  { mark: 'bg-amber-100', active: 'bg-amber-200', badge: 'bg-amber-500', bar: 'bg-amber-500', ring: 'ring-amber-300' },
+  { mark: 'bg-rose-100', active: 'bg-rose-200', badge: 'bg-rose-500', bar: 'bg-rose-500', ring: 'ring-rose-300' }
+];
+const colourFor = (index: number) => PALETTE[index % PALETTE.length];
+
+const EXCERPT_LENGTH = 180;
+
+/**
+ * A RAG answer with its citation cards. The answer is rendered like any other reply
+ * (markdown, code blocks, raw toggle); sentences whose wording overlaps a source
+ * chunk are highlighted in that source's colour, and hovering a card emphasises them.
+ */
+const CitedAnswer: React.FC<CitedAnswerProps> = ({ content, sources }) => {
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+
+  const segments = useMemo(() => attributeSentences(content, sources), [content, sources]);
+  const sentenceCounts = useMemo(() => {
+    const counts = sources.map(() => 0);
+    segments.forEach(seg => { if (seg.sourceIndex !== null) counts[seg.sourceIndex]++; });
+    return counts;
+  }, [segments, sources]);
+  const groundedShare = useMemo(() => {
+    const scored = segments.filter(s => s.text.trim().length > 0);
+    const grounded = scored.filter(s => s.sourceIndex !== null);
+    return scored.length ? Math.round((grounded.length / scored.length) * 100) : 0;
+  }, [segments]);
+
+  const toggleExpanded = (index: number) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index); else next.add(index);
+      return next;
+    });
+  };
+
+  // Marks are placed per rendered text run, so code blocks and markdown syntax stay untouched
+  const renderText = (text: string) =>
+    attributeSentences(text, sources).map((seg, idx) => {
+      if (seg.sourceIndex === null) return <span key={idx}>{seg.text}</span>;
+      const colour = colourFor(seg.sourceIndex);
+      return (
+        <span
+          key={idx}
+          title={`Matches source [${seg.sourceIndex + 1}] (${Math.round(seg.overlap * 100)}% word overlap)`}
+          className={`rounded-sm transition-colors ${activeIndex === seg.sourceIndex ? colour.active : colour.mark}`}
+        >
+          {seg.text}
+          <sup className="text-[9px] text-slate-500 ml-0.5">[{seg.sourceIndex + 1}]</sup>
+        </span>
+      );
+    });
+
+  return (
+    <div>
+      <ResponseView content={content} renderText={renderText} />
+
+      <div className="mt-4 pt-3 border-t border-slate-200">
+        <p className="text-[10px] font-medium text-slate-500 uppercase tracking-wide mb-2 flex items-center justify-between">
+          <span className="flex items-center"><BookOpen size={12} className="mr-1" /> {sources.length} Sources</span>
+          <span className="normal-case tracking-normal font-normal" title="Share of sentences whose wording overlaps a retrieved chunk">
+            ~{groundedShare}% of sentences matched to a source
+          </span>
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {sources.map((source, idx) => {
+            const colour = colourFor(idx);
+            const score = getSourceScore(source);
+            const location = getSourceLocation(source);
+            const isExpanded = expanded.has(idx);
+            const text = source.text || '';
+            const excerpt = isExpanded || text.length <= EXCERPT_LENGTH ? text : `${text.slice(0, EXCERPT_LENGTH)}…`;
+            return (
+              <div
+                key={source.id || idx}
+                onMouseEnter={() => setActiveIndex(idx)}
+                onMouseLeave={() => setActiveIndex(null)}
+                className={`bg-white border border-slate-200 rounded-lg p-3 text-xs transition-shadow ${activeIndex === idx ? `ring-2 ${colour.ring}` : ''}`}
+              >
+                <div className="flex items-start gap-2">
+                  <span className={`shrink-0 w-5 h-5 rounded-full text-white text-[10px] font-bold flex items-center justify-center ${colour.badge}`}>
+                    {idx + 1}
+                  </span>
+                  <div className="min-w-0 flex-1">
+                    <p className="font-medium text-slate-800 truncate" title={source.title}>{source.title}</p>
+                    {location && (
+                      <p className="text-[10px] text-slate-400 truncate font-mono flex items-center" title={location}>
+                        <Link2 size={10} className="mr-1 shrink-0" />{location}
+                      </p>
+                    )}
+                  </div>
+                </div>
+
+                <div className="mt-2 flex items-center gap-2">
+                  <div className="flex-1 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                    {score !== null && <div className={`h-full ${colour.bar}`} style={{ width: `${score * 100}%` }} />}
+                  </div>
+                  <span className="text-[10px] text-slate-500 w-16 text-right">
+                    {score !== null ? `${(score * 100).toFixed(1)}%` : 'no score'}
+                  </span>
+                </div>
+                <p className="text-[10px] text-slate-400 mt-1">
+                  {sentenceCounts[idx] > 0 ? `${sentenceCounts[idx]} sentence(s) matched` : 'No sentences matched'}
+                </p>
+
+                {text && (
+                  <>
+                    <p className="mt-2 text-slate-600 whitespace-pre-wrap leading-snug">{excerpt}</p>
+                    {text.length > EXCERPT_LENGTH && (
+                      <button
+                        onClick={() => toggleExpanded(idx)}
+                        className="mt-1 text-[10px] text-slate-500 hover:text-slate-800 flex items-center"
+                      >
+                        {isExpanded ? <ChevronDown size={10} /> : <ChevronRight size={10} />}
+                        {isExpanded ? 'Show less' : 'Show full excerpt'}
+                      </button>
+                    )}
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CitedAnswer;
@@ -0,0 +1,251 @@
+import React, { useState } from 'react';
+import { Columns, Plus, X, Play, Loader2, RefreshCw, AlertCircle, Clock, Hash, BookOpen } from 'lucide-react';
+import { AppConfig, AnythingLLMWorkspace, CompareTarget, ConnectionProfile, LLMProvider, ProviderModel, TargetRunResult } from '../types';
+import { MIN_COMPARE_TARGETS, MAX_COMPARE_TARGETS } from '../constants';
+import { PROVIDER_LIST, getProvider } from '../services/providers';
+import { createTarget, targetFromProfile, targetToConfig, describeTarget, runTarget } from '../services/compare';
+
+interface ComparePanelProps {
+  config: AppConfig;
+  profiles: ConnectionProfile[];
+  /** Models of the connected provider, offered as suggestions */
+  availableModels: ProviderModel[];
+  availableWorkspaces: AnythingLLMWorkspace[];
+}
+
+type ColumnState =
+  | { state: 'running' }
+  | { state: 'done'; result: TargetRunResult }
+  | { state: 'error'; error: string };
+
+const GRID_COLUMNS: Record<number, string> = {
+  2: 'lg:grid-cols-2',
+  3: 'lg:grid-cols-3',
+  4: 'lg:grid-cols-4'
+};
+
+/**
+ * Send one prompt to 2–4 models/workspaces in parallel and show the replies side by side
+ * with latency, token counts and sources.
+ */
+const ComparePanel: React.FC<ComparePanelProps> = ({ config, profiles, availableModels, availableWorkspaces }) => {
+  const [targets, setTargets] = useState<CompareTarget[]>(() => [createTarget(config), createTarget(config)]);
+  const [prompt, setPrompt] = useState('');
+  const [columns, setColumns] = useState<Record<string, ColumnState>>({});
+  const [modelOptions, setModelOptions] = useState<Record<string, string[]>>({});
+
+  const isRunning = (Object.values(columns) as ColumnState[]).some(c => c.state === 'running');
+
+  const updateTarget = (id: string, patch: Partial<CompareTarget>) => {
+    setTargets(prev => prev.map(t => (t.id === id ? { ...t, ...patch } : t)));
+  };
+
+  const changeTargetProvider = (id: string, provider: LLMProvider) => {
+    const fresh = createTarget(config, provider);
+    updateTarget(id, { provider, model: fresh.model, port: fresh.port, apiKey: fresh.apiKey });
+  };
+
+  const applyProfile = (id: string, profileId: string) => {
+    const profile = profiles.find(p => p.id === profileId);
+    if (profile) updateTarget(id, { ...targetFromProfile(profile), id });
+  };
+
+  const suggestionsFor = (target: CompareTarget): string[] => {
+    const loaded = modelOptions[target.id];
+    if (loaded) return loaded;
+    if (target.provider !== config.provider) return [];
+    return target.provider === 'anythingllm' && availableWorkspaces.length
+      ? availableWorkspaces.map(ws => ws.slug)
+      : availableModels.map(m => m.id);
+  };
+
+  const loadModels = async (target: CompareTarget) => {
+    try {
+      const models = await getProvider(target.provider).listModels(targetToConfig(target, config));
+      setModelOptions(prev => ({ ...prev, [target.id]: models.map(m => m.id) }));
+    } catch (e: any) {
+      setColumns(prev => ({ ...prev, [target.id]: { state: 'error', error: e.message } }));
+    }
+  };
+
+  const runAll = () => {
+    const text = prompt.trim();
+    if (!text || isRunning) return;
+    setColumns(Object.fromEntries(targets.map(t => [t.id, { state: 'running' } as ColumnState])));
+    // Each column settles on its own so fast targets show up first
+    targets.forEach(target => {
+      runTarget(target, config, text)
+        .then(result => setColumns(prev => ({ ...prev, [target.id]: { state: 'done', result } })))
+        .catch((e: any) => setColumns(prev => ({ ...prev, [target.id]: { state: 'error', error: e.message } })));
+    });
+  };
+
+  const fastest = Math.min(
+    ...(Object.values(columns) as ColumnState[]).map(c => (c.state === 'done' ? c.result.latencyMs : Infinity))
+  );
+
+  const inputClass = 'w-full px-2 py-1.5 border border-slate-300 rounded text-xs focus:outline-blue-500 bg-white';
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden animate-in fade-in slide-in-from-bottom-4">
+      <div className="p-4 border-b border-slate-100 bg-slate-50/50 flex justify-between items-center">
+        <h3 className="text-sm font-semibold text-slate-800 flex items-center">
+          <Columns size={16} className="mr-2 text-indigo-500" />
+          Compare
+          <span className="ml-2 text-xs font-normal text-slate-400">same prompt, {targets.length} targets</span>
+        </h3>
+        <button
+          onClick={() => setTargets(prev => [...prev, createTarget(config)])}
+          disabled={targets.length >= MAX_COMPARE_TARGETS || isRunning}
+          className="text-xs text-indigo-600 hover:underline disabled:opacity-40 disabled:no-underline flex items-center gap-1"
+        >
+          <Plus size={12} /> Add target
+        </button>
+      </div>
+
+      <div className="p-4 space-y-3">
+        <div className="flex gap-2 items-end">
+          <textarea
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) runAll(); }}
+            rows={2}
+            placeholder="Prompt to send to every target… (Ctrl+Enter to run)"
+            className="flex-1 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-slate-400 outline-none text-sm resize-y"
+          />
+          <button
+            onClick={runAll}
+            disabled={!prompt.trim() || isRunning || targets.some(t => !t.model.trim())}
+            className="h-[42px] px-4 flex items-center gap-2 rounded-lg text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isRunning ? <Loader2 size={14} className="animate-spin" /> : <Play size={14} fill="currentColor" />}
+            Run
+          </button>
+        </div>
+
+        <div className={`grid grid-cols-1 md:grid-cols-2 ${GRID_COLUMNS[targets.length] || ''} gap-3`}>
+          {targets.map(target => {
+            const column = columns[target.id];
+            const listId = `compare-models-${target.id}`;
+            const theme = getProvider(target.provider).theme;
+            return (
+              <div key={target.id} className="border border-slate-200 rounded-lg flex flex-col overflow-hidden">
+                {/* Target settings */}
+                <div className="p-2 bg-slate-50 border-b border-slate-200 space-y-1.5">
+                  <div className="flex items-center gap-1">
+                    <span className={`w-2 h-2 rounded-full shrink-0 ${theme.solid}`} />
+                    <select
+                      value={target.provider}
+                      onChange={(e) => changeTargetProvider(target.id, e.target.value as LLMProvider)}
+                      disabled={isRunning}
+                      className={inputClass}
+                    >
+                      {PROVIDER_LIST.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                    </select>
+                    <button
+                      onClick={() => setTargets(prev => prev.filter(t => t.id !== target.id))}
+                      disabled={targets.length <= MIN_COMPARE_TARGETS || isRunning}
+                      title="Remove target"
+                      className="text-slate-400 hover:text-red-600 disabled:opacity-30"
+                    >
+                      <X size={14} />
+                    </button>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <input
+                      list={listId}
+                      value={target.model}
+                      onChange={(e) => updateTarget(target.id, { model: e.target.value })}
+                      placeholder={getProvider(target.provider).modelPlaceholder}
+                      disabled={isRunning}
+                      className={`${inputClass} font-mono`}
+                    />
+                    <datalist id={listId}>
+                      {suggestionsFor(target).map(id => <option key={id} value={id} />)}
+                    </datalist>
+                    <button onClick={() => loadModels(target)} title="Load models from this server" className="text-slate-400 hover:text-slate-700">
+                      <RefreshCw size={12} />
+                    </button>
+                  </div>
+                  <div className="flex gap-1">
+                    <input
+                      value={target.host}
+                      onChange={(e) => updateTarget(target.id, { host: e.target.value })}
+                      disabled={isRunning}
+                      className={`${inputClass} font-mono`}
+                    />
+                    <input
+                      value={target.port}
+                      onChange={(e) => updateTarget(target.id, { port: e.target.value })}
+                      disabled={isRunning}
+                      className={`${inputClass} font-mono w-20`}
+                    />
+                  </div>
+                  {getProvider(target.provider).capabilities.apiKey !== 'none' && (
+                    <input
+                      type="password"
+                      value={target.apiKey || ''}
+                      onChange={(e) => updateTarget(target.id, { apiKey: e.target.value })}
+                      placeholder="API Key"
+                      disabled={isRunning}
+                      className={`${inputClass} font-mono`}
+                    />
+                  )}
+                  {profiles.length > 0 && (
+                    <select value="" onChange={(e) => applyProfile(target.id, e.target.value)} disabled={isRunning} className={`${inputClass} text-slate-500`}>
+                      <option value="">Use profile…</option>
+                      {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                    </select>
+                  )}
+                </div>
+
+                {/* Response */}
+                <div className="flex-1 p-3 min-h-[160px] max-h-[420px] overflow-y-auto">
+                  {!column && <p className="text-xs text-slate-400 italic">{describeTarget(target)}</p>}
+                  {column?.state === 'running' && (
+                    <p className="text-xs text-slate-400 flex items-center gap-2"><Loader2 size={12} className="animate-spin" /> Waiting for {describeTarget(target)}…</p>
+                  )}
+                  {column?.state === 'error' && (
+                    <p className="text-xs text-red-600 flex items-start gap-1"><AlertCircle size={12} className="mt-0.5 shrink-0" /> {column.error}</p>
+                  )}
+                  {column?.state === 'done' && (
+                    <p className="whitespace-pre-wrap leading-relaxed font-mono text-xs text-slate-800">{column.result.response}</p>
+                  )}
+                </div>
+
+                {/* Stats */}
+                {column?.state === 'done' && (
+                  <div className="border-t border-slate-100 px-3 py-2 text-[10px] text-slate-500 space-y-1">
+                    <div className="flex items-center justify-between">
+                      <span className={`flex items-center gap-1 ${column.result.latencyMs === fastest ? 'text-green-600 font-medium' : ''}`}>
+                        <Clock size={10} /> {(column.result.latencyMs / 1000).toFixed(2)}s
+                      </span>
+                      <span className="flex items-center gap-1" title="Prompt / completion tokens">
+                        <Hash size={10} />
+                        {column.result.promptTokens !== undefined || column.result.completionTokens !== undefined
+                          ? `${column.result.promptTokens ?? '?'} / ${column.result.completionTokens ?? '?'} tokens`
+                          : 'tokens n/a'}
+                      </span>
+                    </div>
+                    {column.result.sources && column.result.sources.length > 0 && (
+                      <div>
+                        <p className="flex items-center gap-1 font-medium"><BookOpen size={10} /> {column.result.sources.length} sources</p>
+                        <ul className="mt-0.5 space-y-0.5">
+                          {column.result.sources.map((s, idx) => (
+                            <li key={s.id || idx} className="truncate" title={s.title}>[{idx + 1}] {s.title}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ComparePanel;
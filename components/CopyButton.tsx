@@ -0,0 +1,38 @@
+import React, { useState } from 'react';
+import { Copy, Check } from 'lucide-react';
+
+interface CopyButtonProps {
+  text: string;
+  className?: string;
+}
+
+/**
+ * Copies `text` to the clipboard and briefly confirms.
+ */
+const CopyButton: React.FC<CopyButtonProps> = ({ text, className = '' }) => {
+  const [copied, setCopied] = useState(false);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (e) {
+      console.error('Copy failed:', e);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={copy}
+      title="Copy to clipboard"
+      className={`flex items-center gap-1 text-[10px] transition-colors ${className}`}
+    >
+      {copied ? <Check size={12} /> : <Copy size={12} />}
+      {copied ? 'Copied' : 'Copy'}
+    </button>
+  );
+};
+
+export default CopyButton;
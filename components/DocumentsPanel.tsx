@@ -0,0 +1,282 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { FileText, Upload, Plus, Minus, Pin, PinOff, RefreshCw, Loader2, Type } from 'lucide-react';
+import { AnythingLLMLibraryDocument, AnythingLLMWorkspaceDocument } from '../types';
+import { AnythingLLMClient, flattenDocuments } from '../services/anythingllm-sdk';
+
+/** dataTransfer type used when dragging a library document onto a workspace */
+export const DOCUMENT_DRAG_TYPE = 'application/x-anythingllm-document';
+
+interface DocumentsPanelProps {
+  client: AnythingLLMClient;
+  /** Selected workspace; documents are added to / removed from this one */
+  workspaceSlug: string;
+  /** Bump to reload after documents change elsewhere (e.g. a drop onto a workspace) */
+  refreshKey: number;
+}
+
+/**
+ * Document library and workspace embeddings for AnythingLLM:
+ * upload files or raw text, add/remove documents in the selected workspace and pin them.
+ */
+const DocumentsPanel: React.FC<DocumentsPanelProps> = ({ client, workspaceSlug, refreshKey }) => {
+  const [library, setLibrary] = useState<AnythingLLMLibraryDocument[]>([]);
+  const [workspaceDocs, setWorkspaceDocs] = useState<AnythingLLMWorkspaceDocument[]>([]);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [busyPath, setBusyPath] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [embedAfterUpload, setEmbedAfterUpload] = useState(true);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const [rawTitle, setRawTitle] = useState('');
+  const [rawText, setRawText] = useState('');
+  const [message, setMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = async () => {
+    setIsRefreshing(true);
+    try {
+      const [tree, workspace] = await Promise.all([
+        client.getDocuments(),
+        workspaceSlug ? client.getWorkspace(workspaceSlug).catch(() => null) : Promise.resolve(null)
+      ]);
+      setLibrary(flattenDocuments(tree));
+      setWorkspaceDocs(workspace?.documents || []);
+    } catch (e: any) {
+      setMessage({ type: 'error', text: e.message });
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, [client, workspaceSlug, refreshKey]);
+
+  const findWorkspaceDoc = (path: string) => workspaceDocs.find(d => d.docpath === path);
+
+  const runForDocument = async (path: string, action: () => Promise<unknown>, successText: string) => {
+    setBusyPath(path);
+    setMessage(null);
+    try {
+      await action();
+      setMessage({ type: 'success', text: successText });
+      await refresh();
+    } catch (e: any) {
+      setMessage({ type: 'error', text: e.message });
+    } finally {
+      setBusyPath(null);
+    }
+  };
+
+  const uploadFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    setIsUploading(true);
+    setMessage(null);
+    try {
+      const locations: string[] = [];
+      for (const file of files) {
+        const docs = await client.uploadDocument(file);
+        locations.push(...docs.map(d => d.location));
+      }
+      if (embedAfterUpload && workspaceSlug && locations.length > 0) {
+        await client.updateEmbeddings(workspaceSlug, locations);
+      }
+      setMessage({
+        type: 'success',
+        text: `Uploaded ${files.length} file(s)${embedAfterUpload && workspaceSlug ? ` and embedded into ${workspaceSlug}` : ''}.`
+      });
+      await refresh();
+    } catch (e: any) {
+      setMessage({ type: 'error', text: e.message });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleRawTextSubmit = async () => {
+    if (!rawTitle.trim() || !rawText.trim()) return;
+    setIsUploading(true);
+    setMessage(null);
+    try {
+      const docs = await client.uploadRawText(rawText, rawTitle.trim());
+      if (embedAfterUpload && workspaceSlug && docs.length > 0) {
+        await client.updateEmbeddings(workspaceSlug, docs.map(d => d.location));
+      }
+      setMessage({ type: 'success', text: `Added "${rawTitle.trim()}".` });
+      setRawTitle('');
+      setRawText('');
+      await refresh();
+    } catch (e: any) {
+      setMessage({ type: 'error', text: e.message });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    uploadFiles(Array.from(e.dataTransfer.files));
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden animate-in fade-in slide-in-from-bottom-4">
+      <div className="p-4 border-b border-slate-100 bg-slate-50/50 flex justify-between items-center">
+        <h3 className="text-sm font-semibold text-slate-800 flex items-center">
+          <FileText size={16} className="mr-2 text-blue-500" />
+          Documents
+          {workspaceSlug && <span className="ml-2 text-xs font-normal text-slate-400">embedding into <span className="font-mono">{workspaceSlug}</span></span>}
+        </h3>
+        <button onClick={refresh} title="Refresh" className="text-slate-400 hover:text-slate-700">
+          <RefreshCw size={14} className={isRefreshing ? 'animate-spin' : ''} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-12 gap-0 lg:divide-x divide-slate-100">
+        {/* Upload */}
+        <div className="lg:col-span-5 p-4 space-y-4">
+          <div
+            onDragOver={(e) => { e.preventDefault(); setIsDragOver(true); }}
+            onDragLeave={() => setIsDragOver(false)}
+            onDrop={handleDrop}
+            onClick={() => fileInputRef.current?.click()}
+            className={`border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-colors ${
+              isDragOver ? 'border-blue-400 bg-blue-50' : 'border-slate-200 hover:border-slate-300 hover:bg-slate-50'
+            }`}
+          >
+            {isUploading ? (
+              <Loader2 size={20} className="mx-auto animate-spin text-blue-500" />
+            ) : (
+              <Upload size={20} className="mx-auto text-slate-400" />
+            )}
+            <p className="text-xs text-slate-500 mt-2">Drop files here or click to upload</p>
+            <p className="text-[10px] text-slate-400">PDF, DOCX, TXT, MD, CSV and more</p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              onChange={(e) => { uploadFiles(Array.from(e.target.files || [])); e.target.value = ''; }}
+              className="hidden"
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-xs text-slate-600">
+            <input
+              type="checkbox"
+              checked={embedAfterUpload}
+              disabled={!workspaceSlug}
+              onChange={(e) => setEmbedAfterUpload(e.target.checked)}
+            />
+            Embed into the selected workspace after upload
+          </label>
+
+          <div className="space-y-2">
+            <p className="text-xs font-medium text-slate-500 uppercase tracking-wide flex items-center">
+              <Type size={12} className="mr-1" /> Raw Text
+            </p>
+            <input
+              type="text"
+              value={rawTitle}
+              onChange={(e) => setRawTitle(e.target.value)}
+              placeholder="Title"
+              className="w-full px-3 py-1.5 border border-slate-300 rounded text-sm focus:outline-blue-500"
+            />
+            <textarea
+              value={rawText}
+              onChange={(e) => setRawText(e.target.value)}
+              rows={4}
+              placeholder="Paste text to add as a document"
+              className="w-full px-3 py-1.5 border border-slate-300 rounded text-sm focus:outline-blue-500 resize-y"
+            />
+            <button
+              onClick={handleRawTextSubmit}
+              disabled={isUploading || !rawTitle.trim() || !rawText.trim()}
+              className="w-full bg-blue-600 hover:bg-blue-700 text-white py-1.5 rounded text-xs font-medium disabled:opacity-50"
+            >
+              Add Text Document
+            </button>
+          </div>
+
+          {message && (
+            <p className={`text-xs ${message.type === 'error' ? 'text-red-600' : 'text-green-600'}`}>{message.text}</p>
+          )}
+        </div>
+
+        {/* Library */}
+        <div className="lg:col-span-7 p-2 overflow-y-auto max-h-[420px]">
+          {library.length === 0 ? (
+            <p className="text-center py-6 text-slate-400 text-xs">
+              {isRefreshing ? 'Loading documents…' : 'No documents in the library yet.'}
+            </p>
+          ) : (
+            <ul className="space-y-1">
+              {library.map(doc => {
+                const embedded = findWorkspaceDoc(doc.path);
+                const isBusy = busyPath === doc.path;
+                return (
+                  <li
+                    key={doc.path}
+                    draggable
+                    onDragStart={(e) => e.dataTransfer.setData(DOCUMENT_DRAG_TYPE, doc.path)}
+                    title="Drag onto a workspace to embed it there"
+                    className={`px-3 py-2 rounded-md text-xs flex items-center justify-between gap-2 cursor-grab ${
+                      embedded ? 'bg-blue-50/60 ring-1 ring-blue-100' : 'hover:bg-slate-50'
+                    }`}
+                  >
+                    <span className="min-w-0">
+                      <span className="block truncate text-slate-700 font-medium">{doc.title || doc.name}</span>
+                      <span className="block truncate text-[10px] text-slate-400 font-mono">{doc.path}</span>
+                    </span>
+                    <span className="flex items-center gap-1 shrink-0">
+                      {isBusy && <Loader2 size={12} className="animate-spin text-slate-400" />}
+                      {embedded && workspaceSlug && (
+                        <button
+                          onClick={() => runForDocument(
+                            doc.path,
+                            () => client.updatePin(workspaceSlug, doc.path, !embedded.pinned),
+                            `${embedded.pinned ? 'Unpinned' : 'Pinned'} ${doc.title || doc.name}.`
+                          )}
+                          disabled={isBusy}
+                          title={embedded.pinned ? 'Unpin' : 'Pin: always include the full document in context'}
+                          className={`p-1 rounded hover:bg-white ${embedded.pinned ? 'text-blue-600' : 'text-slate-400'}`}
+                        >
+                          {embedded.pinned ? <PinOff size={12} /> : <Pin size={12} />}
+                        </button>
+                      )}
+                      {workspaceSlug && (embedded ? (
+                        <button
+                          onClick={() => runForDocument(
+                            doc.path,
+                            () => client.updateEmbeddings(workspaceSlug, [], [doc.path]),
+                            `Removed ${doc.title || doc.name} from ${workspaceSlug}.`
+                          )}
+                          disabled={isBusy}
+                          className="flex items-center gap-1 px-2 py-1 rounded border border-slate-200 bg-white hover:bg-red-50 hover:text-red-600 text-slate-600"
+                        >
+                          <Minus size={10} /> Remove
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => runForDocument(
+                            doc.path,
+                            () => client.updateEmbeddings(workspaceSlug, [doc.path]),
+                            `Embedded ${doc.title || doc.name} into ${workspaceSlug}.`
+                          )}
+                          disabled={isBusy}
+                          className="flex items-center gap-1 px-2 py-1 rounded border border-slate-200 bg-white hover:bg-blue-50 hover:text-blue-600 text-slate-600"
+                        >
+                          <Plus size={10} /> Add
+                        </button>
+                      ))}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DocumentsPanel;
@@ -0,0 +1,397 @@
+import React, { useState, useRef } from 'react';
+import { FlaskConical, Plus, Trash2, Download, Upload, Play, Loader2, CheckCircle2, XCircle, X, ArrowDownRight, ArrowUpRight } from 'lucide-react';
+import { AppConfig, EvalAssertion, EvalAssertionType, EvalCase, EvalCaseResult, EvalChange, EvalRun, EvalSuite } from '../types';
+import { DEFAULT_JUDGE_THRESHOLD } from '../constants';
+import {
+  ASSERTION_LABELS,
+  loadEvalSuites,
+  saveEvalSuites,
+  loadEvalRuns,
+  recordEvalRun,
+  deleteEvalRuns,
+  createSuite,
+  createCase,
+  exportSuite,
+  parseSuiteImport,
+  runEvalSuite,
+  compareEvalRuns,
+  countPassed
+} from '../services/eval';
+import { createTarget, describeTarget } from '../services/compare';
+import { downloadFile } from '../services/storage';
+
+interface EvalPanelProps {
+  config: AppConfig;
+  /** Models of the current server offered for the judge, when known */
+  judgeModels: string[];
+}
+
+const VALUE_PLACEHOLDERS: Record<EvalAssertionType, string> = {
+  'contains': 'Text the answer must include',
+  'not-contains': 'Text the answer must not include',
+  'regex': 'Pattern, e.g. \\b20\\d\\d\\b',
+  'json-schema': '{"type": "object", "required": ["answer"]}',
+  'cites-source': 'Document name (blank = any source)',
+  'llm-judge': 'Rubric, e.g. "Answers from the handbook and mentions the 30-day limit"'
+};
+
+const CHANGE_STYLES: Record<EvalChange, { label: string; className: string }> = {
+  pass: { label: 'pass', className: 'bg-green-50 text-green-700 border-green-200' },
+  fail: { label: 'fail', className: 'bg-red-50 text-red-700 border-red-200' },
+  fixed: { label: 'fixed', className: 'bg-green-100 text-green-800 border-green-300' },
+  regressed: { label: 'regressed', className: 'bg-red-100 text-red-800 border-red-300' },
+  new: { label: 'new', className: 'bg-slate-50 text-slate-600 border-slate-200' }
+};
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+/**
+ * Define eval suites (prompts plus assertions), run them against the current
+ * model or workspace, and see what changed since the previous run.
+ */
+const EvalPanel: React.FC<EvalPanelProps> = ({ config, judgeModels }) => {
+  const [suites, setSuites] = useState<EvalSuite[]>(loadEvalSuites);
+  const [runs, setRuns] = useState<Record<string, EvalRun[]>>(loadEvalRuns);
+  const [activeId, setActiveId] = useState<string>(() => loadEvalSuites()[0]?.id || '');
+  const [running, setRunning] = useState<EvalCaseResult[] | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const suite = suites.find(s => s.id === activeId);
+  const history = (suite && runs[suite.id]) || [];
+  const latest = history[0];
+  const previous = history[1];
+  const changes = latest ? compareEvalRuns(latest, previous) : {};
+  const target = createTarget(config);
+
+  const persist = (next: EvalSuite[]) => {
+    setSuites(next);
+    saveEvalSuites(next);
+  };
+
+  const updateSuite = (patch: Partial<EvalSuite>) => {
+    if (!suite) return;
+    persist(suites.map(s => (s.id === suite.id ? { ...s, ...patch, updatedAt: new Date().toISOString() } : s)));
+  };
+
+  const updateCase = (caseId: string, patch: Partial<EvalCase>) =>
+    updateSuite({ cases: suite!.cases.map(c => (c.id === caseId ? { ...c, ...patch } : c)) });
+
+  const updateAssertion = (evalCase: EvalCase, idx: number, patch: Partial<EvalAssertion>) =>
+    updateCase(evalCase.id, { assertions: evalCase.assertions.map((a, i) => (i === idx ? { ...a, ...patch } : a)) });
+
+  const addSuite = () => {
+    const name = window.prompt('Suite name');
+    if (name === null) return;
+    const created = { ...createSuite(name), cases: [createCase()] };
+    persist([...suites, created]);
+    setActiveId(created.id);
+  };
+
+  const deleteSuite = () => {
+    if (!suite || !window.confirm(`Delete suite "${suite.name}" and its run history?`)) return;
+    const next = suites.filter(s => s.id !== suite.id);
+    persist(next);
+    setRuns(prev => deleteEvalRuns(prev, suite.id));
+    setActiveId(next[0]?.id || '');
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseSuiteImport(await file.text());
+      persist([...suites, imported]);
+      setActiveId(imported.id);
+      setMessage({ type: 'success', text: `Imported "${imported.name}" with ${imported.cases.length} case(s).` });
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.message });
+    }
+  };
+
+  const run = async () => {
+    if (!suite || suite.cases.length === 0) return;
+    const usesJudge = suite.cases.some(c => c.assertions.some(a => a.type === 'llm-judge'));
+    if (usesJudge && !suite.judgeModel) {
+      setMessage({ type: 'error', text: 'Set a judge model to score llm-judge assertions.' });
+      return;
+    }
+    setMessage(null);
+    setRunning([]);
+    try {
+      const result = await runEvalSuite(suite, target, config, (caseResult) =>
+        setRunning(prev => [...(prev || []), caseResult])
+      );
+      setRuns(prev => recordEvalRun(prev, result));
+    } catch (e: any) {
+      setMessage({ type: 'error', text: e.message });
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-1.5 border border-slate-300 rounded text-sm focus:outline-blue-500 bg-white';
+  const isRunning = running !== null;
+  const changeList = Object.values(changes) as EvalChange[];
+  const regressed = changeList.filter(c => c === 'regressed').length;
+  const fixed = changeList.filter(c => c === 'fixed').length;
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden animate-in fade-in slide-in-from-bottom-4">
+      <div className="p-4 border-b border-slate-100 bg-slate-50/50 flex justify-between items-center gap-2 flex-wrap">
+        <h3 className="text-sm font-semibold text-slate-800 flex items-center">
+          <FlaskConical size={16} className="mr-2 text-fuchsia-500" />
+          Eval Suites
+          <span className="ml-2 text-xs font-normal text-slate-400 font-mono">{describeTarget(target)}</span>
+        </h3>
+        <div className="flex items-center gap-2">
+          {suites.length > 0 && (
+            <select
+              value={activeId}
+              onChange={(e) => setActiveId(e.target.value)}
+              disabled={isRunning}
+              className="px-2 py-1 border border-slate-300 rounded text-xs bg-white"
+            >
+              {suites.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+            </select>
+          )}
+          <button onClick={addSuite} disabled={isRunning} className="text-xs text-slate-600 hover:text-slate-900 flex items-center gap-1 disabled:opacity-50">
+            <Plus size={12} /> New Suite
+          </button>
+          {suite && (
+            <>
+              <button onClick={() => downloadFile(`eval-${suite.name.replace(/\W+/g, '-').toLowerCase()}.json`, exportSuite(suite))} title="Export suite" className="text-slate-400 hover:text-slate-700">
+                <Download size={14} />
+              </button>
+              <button onClick={deleteSuite} disabled={isRunning} title="Delete suite" className="text-slate-400 hover:text-red-600 disabled:opacity-50">
+                <Trash2 size={14} />
+              </button>
+            </>
+          )}
+          <button onClick={() => fileInputRef.current?.click()} title="Import suite" className="text-slate-400 hover:text-slate-700">
+            <Upload size={14} />
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleFileChange} className="hidden" />
+        </div>
+      </div>
+
+      {message && (
+        <p className={`px-4 pt-3 text-xs ${message.type === 'error' ? 'text-red-600' : 'text-green-600'}`}>{message.text}</p>
+      )}
+
+      {!suite ? (
+        <p className="p-6 text-center text-sm text-slate-400">
+          No suites yet. Create one to check answers for regressions when documents or settings change.
+        </p>
+      ) : (
+        <div className="p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-12 gap-3 items-end">
+            <div className="md:col-span-5">
+              <label className="text-xs font-medium text-slate-700 mb-1 block">Suite name</label>
+              <input value={suite.name} onChange={(e) => updateSuite({ name: e.target.value })} className={inputClass} />
+            </div>
+            <div className="md:col-span-4">
+              <label className="text-xs font-medium text-slate-700 mb-1 block">Judge model</label>
+              <input
+                list="eval-judge-models"
+                value={suite.judgeModel || ''}
+                onChange={(e) => updateSuite({ judgeModel: e.target.value })}
+                placeholder="e.g. llama3"
+                className={inputClass}
+              />
+              <datalist id="eval-judge-models">
+                {judgeModels.map(m => <option key={m} value={m} />)}
+              </datalist>
+            </div>
+            <div className="md:col-span-3 flex justify-end">
+              <button
+                onClick={run}
+                disabled={isRunning || suite.cases.length === 0}
+                className="px-4 py-1.5 rounded-lg text-sm font-medium bg-fuchsia-600 text-white hover:bg-fuchsia-700 disabled:opacity-50 flex items-center gap-2"
+              >
+                {isRunning ? <Loader2 size={14} className="animate-spin" /> : <Play size={14} fill="currentColor" />}
+                {isRunning ? `Running ${running!.length}/${suite.cases.length}` : 'Run Suite'}
+              </button>
+            </div>
+          </div>
+
+          {/* Cases */}
+          <div className="space-y-3">
+            {suite.cases.map((evalCase, caseIdx) => (
+              <div key={evalCase.id} className="border border-slate-200 rounded-lg p-3 space-y-2">
+                <div className="flex items-start gap-2">
+                  <span className="text-xs font-mono text-slate-400 pt-2">#{caseIdx + 1}</span>
+                  <textarea
+                    value={evalCase.prompt}
+                    onChange={(e) => updateCase(evalCase.id, { prompt: e.target.value })}
+                    placeholder="Prompt"
+                    rows={2}
+                    className={`${inputClass} resize-y`}
+                  />
+                  <button
+                    onClick={() => updateSuite({ cases: suite.cases.filter(c => c.id !== evalCase.id) })}
+                    disabled={isRunning}
+                    title="Remove case"
+                    className="text-slate-300 hover:text-red-600 pt-2 disabled:opacity-50"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+                <div className="pl-6 space-y-2">
+                  {evalCase.assertions.map((assertion, idx) => {
+                    const multiline = assertion.type === 'json-schema' || assertion.type === 'llm-judge';
+                    return (
+                      <div key={idx} className="flex items-start gap-2">
+                        <select
+                          value={assertion.type}
+                          onChange={(e) => updateAssertion(evalCase, idx, { type: e.target.value as EvalAssertionType })}
+                          className="px-2 py-1.5 border border-slate-300 rounded text-xs bg-white w-48 shrink-0"
+                        >
+                          {(Object.keys(ASSERTION_LABELS) as EvalAssertionType[]).map(type => (
+                            <option key={type} value={type}>{ASSERTION_LABELS[type]}</option>
+                          ))}
+                        </select>
+                        {multiline ? (
+                          <textarea
+                            value={assertion.value}
+                            onChange={(e) => updateAssertion(evalCase, idx, { value: e.target.value })}
+                            placeholder={VALUE_PLACEHOLDERS[assertion.type]}
+                            rows={2}
+                            className={`${inputClass} text-xs resize-y ${assertion.type === 'json-schema' ? 'font-mono' : ''}`}
+                          />
+                        ) : (
+                          <input
+                            value={assertion.value}
+                            onChange={(e) => updateAssertion(evalCase, idx, { value: e.target.value })}
+                            placeholder={VALUE_PLACEHOLDERS[assertion.type]}
+                            className={`${inputClass} text-xs ${assertion.type === 'regex' ? 'font-mono' : ''}`}
+                          />
+                        )}
+                        {assertion.type === 'llm-judge' && (
+                          <label className="text-[10px] text-slate-500 shrink-0 flex flex-col">
+                            Pass at
+                            <input
+                              type="number"
+                              min={0}
+                              max={10}
+                              value={assertion.threshold ?? DEFAULT_JUDGE_THRESHOLD}
+                              onChange={(e) => updateAssertion(evalCase, idx, { threshold: Number(e.target.value) })}
+                              className="w-14 px-2 py-1 border border-slate-300 rounded text-xs"
+                            />
+                          </label>
+                        )}
+                        <button
+                          onClick={() => updateCase(evalCase.id, { assertions: evalCase.assertions.filter((_, i) => i !== idx) })}
+                          title="Remove assertion"
+                          className="text-slate-300 hover:text-red-600 pt-1.5"
+                        >
+                          <X size={14} />
+                        </button>
+                      </div>
+                    );
+                  })}
+                  <button
+                    onClick={() => updateCase(evalCase.id, { assertions: [...evalCase.assertions, { type: 'contains', value: '' }] })}
+                    className="text-xs text-slate-500 hover:text-slate-800 flex items-center gap-1"
+                  >
+                    <Plus size={12} /> Assertion
+                  </button>
+                </div>
+              </div>
+            ))}
+            <button
+              onClick={() => updateSuite({ cases: [...suite.cases, createCase()] })}
+              disabled={isRunning}
+              className="w-full py-2 border border-dashed border-slate-300 rounded-lg text-xs text-slate-500 hover:bg-slate-50 flex items-center justify-center gap-1 disabled:opacity-50"
+            >
+              <Plus size={12} /> Add Case
+            </button>
+          </div>
+
+          {/* Report */}
+          {latest && !isRunning && (
+            <div className="border-t border-slate-100 pt-4 space-y-3">
+              <div className="flex flex-wrap items-center gap-3 text-sm">
+                <span className="font-semibold text-slate-800">
+                  {countPassed(latest)} / {latest.results.length} passed
+                </span>
+                {previous && (
+                  <span className="text-xs text-slate-500">
+                    previous: {countPassed(previous)} / {previous.results.length}
+                  </span>
+                )}
+                {regressed > 0 && (
+                  <span className="text-xs text-red-700 flex items-center gap-0.5"><ArrowDownRight size={12} /> {regressed} regressed</span>
+                )}
+                {fixed > 0 && (
+                  <span className="text-xs text-green-700 flex items-center gap-0.5"><ArrowUpRight size={12} /> {fixed} fixed</span>
+                )}
+                <span className="ml-auto text-[10px] text-slate-400">{latest.target} · {formatDate(latest.finishedAt)}</span>
+              </div>
+
+              <div className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+                {latest.results.map((result, idx) => {
+                  const evalCase = suite.cases.find(c => c.id === result.caseId);
+                  const change = previous ? changes[result.caseId] : result.passed ? 'pass' : 'fail';
+                  return (
+                    <details key={result.caseId} className="group">
+                      <summary className="px-3 py-2 flex items-center gap-2 cursor-pointer hover:bg-slate-50 text-xs">
+                        {result.passed ? <CheckCircle2 size={14} className="text-green-500 shrink-0" /> : <XCircle size={14} className="text-red-500 shrink-0" />}
+                        <span className="font-mono text-slate-400">#{idx + 1}</span>
+                        <span className="truncate text-slate-700 flex-1">{result.prompt}</span>
+                        <span className={`px-1.5 py-0.5 rounded border text-[10px] uppercase ${CHANGE_STYLES[change].className}`}>
+                          {CHANGE_STYLES[change].label}
+                        </span>
+                        {result.latencyMs !== undefined && <span className="text-slate-400">{(result.latencyMs / 1000).toFixed(2)}s</span>}
+                      </summary>
+                      <div className="px-3 pb-3 pl-9 space-y-2 text-xs">
+                        {result.error ? (
+                          <p className="text-red-600">{result.error}</p>
+                        ) : (
+                          <>
+                            <ul className="space-y-1">
+                              {result.assertions.map((a, i) => {
+                                const assertion = evalCase?.assertions[i];
+                                return (
+                                  <li key={i} className="flex items-start gap-1">
+                                    {a.passed ? <CheckCircle2 size={12} className="text-green-500 mt-0.5 shrink-0" /> : <XCircle size={12} className="text-red-500 mt-0.5 shrink-0" />}
+                                    <span className="text-slate-600">
+                                      {assertion ? ASSERTION_LABELS[assertion.type] : 'Assertion'}
+                                      {a.detail && <span className="text-slate-400"> — {a.detail}</span>}
+                                    </span>
+                                  </li>
+                                );
+                              })}
+                            </ul>
+                            <p className="whitespace-pre-wrap text-slate-700 bg-slate-50 rounded p-2">{result.response}</p>
+                            {result.sources && result.sources.length > 0 && (
+                              <p className="text-slate-400">Sources: {result.sources.map(s => s.title).join(', ')}</p>
+                            )}
+                          </>
+                        )}
+                      </div>
+                    </details>
+                  );
+                })}
+              </div>
+
+              {history.length > 1 && (
+                <div className="text-[10px] text-slate-400 flex flex-wrap gap-x-4">
+                  <span>History:</span>
+                  {history.map(r => (
+                    <span key={r.id} title={r.target}>
+                      {formatDate(r.finishedAt)} · {countPassed(r)}/{r.results.length}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EvalPanel;
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal, ChevronDown, ChevronRight, Dices, Save, Trash2, RotateCcw } from 'lucide-react';
+import { GenerationParams, OllamaOptions } from '../types';
+import { saveGenerationPreset, deleteGenerationPreset, isDefaultGeneration } from '../services/generation-presets';
+
+interface GenerationParamsPanelProps {
+  /** Model the parameters are saved for */
+  model: string;
+  params?: GenerationParams;
+  onChange: (params: GenerationParams | undefined) => void;
+  presets: Record<string, GenerationParams>;
+  onPresetsChange: (presets: Record<string, GenerationParams>) => void;
+}
+
+type NumericOption = Exclude<keyof OllamaOptions, 'stop'>;
+
+interface OptionField {
+  key: NumericOption;
+  label: string;
+  min?: number;
+  max?: number;
+  step: number;
+  placeholder: string;
+  help?: string;
+}
+
+// Placeholders show Ollama's usual defaults; empty fields are not sent
+const OPTION_FIELDS: OptionField[] = [
+  { key: 'temperature', label: 'Temperature', min: 0, max: 2, step: 0.1, placeholder: '0.8' },
+  { key: 'top_p', label: 'Top P', min: 0, max: 1, step: 0.05, placeholder: '0.9' },
+  { key: 'top_k', label: 'Top K', min: 0, step: 1, placeholder: '40' },
+  { key: 'repeat_penalty', label: 'Repeat Penalty', min: 0, step: 0.05, placeholder: '1.1' },
+  { key: 'num_ctx', label: 'Context Window', min: 1, step: 256, placeholder: '2048', help: 'Tokens of context (num_ctx).' },
+  { key: 'seed', label: 'Seed', step: 1, placeholder: 'random', help: 'Same seed + prompt + settings gives the same output.' }
+];
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-slate-400 outline-none transition-all text-slate-800 placeholder-slate-400 font-mono text-sm';
+
+/**
+ * "Advanced parameters" drawer for the settings panel: sampling options, seed,
+ * stop sequences, system prompt, JSON mode and keep-alive, with presets saved per model.
+ */
+const GenerationParamsPanel: React.FC<GenerationParamsPanelProps> = ({ model, params, onChange, presets, onPresetsChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const current = params || {};
+  const options = current.options || {};
+  const hasPreset = !!presets[model];
+  const isCustom = !isDefaultGeneration(params);
+
+  const update = (patch: Partial<GenerationParams>) => onChange({ ...current, ...patch });
+
+  const setOption = (key: keyof OllamaOptions, value: OllamaOptions[keyof OllamaOptions]) =>
+    update({ options: { ...options, [key]: value } });
+
+  const handleNumber = (key: NumericOption, value: string) => {
+    const parsed = value === '' ? undefined : Number(value);
+    if (parsed !== undefined && Number.isNaN(parsed)) return;
+    setOption(key, parsed);
+  };
+
+  return (
+    <div className="border border-slate-200 rounded-lg">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-4 py-2 flex items-center text-sm font-medium text-slate-700 hover:bg-slate-50"
+      >
+        {isOpen ? <ChevronDown size={14} className="mr-1" /> : <ChevronRight size={14} className="mr-1" />}
+        <SlidersHorizontal size={14} className="mr-2 text-slate-400" />
+        Advanced parameters
+        {isCustom && <span className="ml-2 px-1.5 py-0.5 rounded bg-slate-100 text-[10px] text-slate-600 font-normal">custom</span>}
+        {hasPreset && <span className="ml-auto text-[10px] text-slate-400 font-normal">preset saved for {model}</span>}
+      </button>
+
+      {isOpen && (
+        <div className="p-4 border-t border-slate-100 space-y-4 animate-in fade-in slide-in-from-top-2">
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
+            {OPTION_FIELDS.map(field => (
+              <div key={field.key} className="space-y-1" title={field.help}>
+                <label className="text-xs font-medium text-slate-700 flex items-center justify-between">
+                  {field.label}
+                  {field.key === 'seed' && (
+                    <button
+                      type="button"
+                      onClick={() => setOption('seed', Math.floor(Math.random() * 2 ** 31))}
+                      title="Pick a random fixed seed"
+                      className="text-slate-400 hover:text-slate-700"
+                    >
+                      <Dices size={12} />
+                    </button>
+                  )}
+                </label>
+                <input
+                  type="number"
+                  min={field.min}
+                  max={field.max}
+                  step={field.step}
+                  value={options[field.key] ?? ''}
+                  onChange={(e) => handleNumber(field.key, e.target.value)}
+                  placeholder={field.placeholder}
+                  className={inputClass}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-12 gap-3">
+            <div className="md:col-span-8 space-y-1">
+              <label className="text-xs font-medium text-slate-700">System Prompt</label>
+              <textarea
+                value={current.system || ''}
+                onChange={(e) => update({ system: e.target.value })}
+                rows={3}
+                placeholder="Overrides the model's default system prompt"
+                className={`${inputClass} font-sans resize-y`}
+              />
+            </div>
+            <div className="md:col-span-4 space-y-1">
+              <label className="text-xs font-medium text-slate-700">Stop Sequences</label>
+              <textarea
+                value={(options.stop || []).join('\n')}
+                onChange={(e) => setOption('stop', e.target.value.split('\n').filter(Boolean))}
+                rows={3}
+                placeholder="One per line"
+                className={`${inputClass} resize-y`}
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-end gap-4">
+            <label className="flex items-center gap-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={current.format === 'json'}
+                onChange={(e) => update({ format: e.target.checked ? 'json' : undefined })}
+              />
+              JSON output
+            </label>
+            <div className="space-y-1">
+              <label className="text-xs font-medium text-slate-700">Keep Alive</label>
+              <input
+                value={current.keep_alive || ''}
+                onChange={(e) => update({ keep_alive: e.target.value })}
+                placeholder="5m"
+                title='How long the model stays in memory: "10m", "0" to unload, "-1" to keep loaded'
+                className={`${inputClass} w-28`}
+              />
+            </div>
+
+            <div className="ml-auto flex items-center gap-3 text-xs">
+              <button
+                type="button"
+                onClick={() => onChange(undefined)}
+                disabled={!isCustom}
+                className="text-slate-500 hover:text-slate-800 flex items-center gap-1 disabled:opacity-40"
+              >
+                <RotateCcw size={12} /> Model defaults
+              </button>
+              {hasPreset && (
+                <button
+                  type="button"
+                  onClick={() => onPresetsChange(deleteGenerationPreset(presets, model))}
+                  className="text-slate-500 hover:text-red-600 flex items-center gap-1"
+                >
+                  <Trash2 size={12} /> Forget preset
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => onPresetsChange(saveGenerationPreset(presets, model, current))}
+                disabled={!model}
+                className="px-3 py-1.5 rounded-lg border border-slate-300 text-slate-700 hover:bg-slate-50 flex items-center gap-1 disabled:opacity-40"
+              >
+                <Save size={12} /> Save for {model || 'model'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GenerationParamsPanel;
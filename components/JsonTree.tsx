@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { ChevronRight, ChevronDown } from 'lucide-react';
+import CopyButton from './CopyButton';
+
+interface JsonTreeProps {
+  value: unknown;
+  /** Colours for a dark background (API Playground) */
+  dark?: boolean;
+  /** Levels expanded initially */
+  defaultDepth?: number;
+}
+
+const COLOURS = {
+  light: { key: 'text-sky-700', string: 'text-emerald-700', number: 'text-amber-700', literal: 'text-fuchsia-700', punct: 'text-slate-400', toggle: 'text-slate-400 hover:text-slate-700' },
+  dark: { key: 'text-sky-300', string: 'text-emerald-300', number: 'text-amber-300', literal: 'text-fuchsia-300', punct: 'text-slate-500', toggle: 'text-slate-500 hover:text-slate-200' }
+};
+
+type Palette = typeof COLOURS.light;
+
+// Depth used by "Expand all"; deeper nodes are still reachable by clicking
+const EXPAND_ALL_DEPTH = 100;
+
+const Primitive: React.FC<{ value: unknown; palette: Palette }> = ({ value, palette }) => {
+  if (typeof value === 'string') return <span className={`${palette.string} break-all`}>"{value}"</span>;
+  if (typeof value === 'number') return <span className={palette.number}>{value}</span>;
+  return <span className={palette.literal}>{String(value)}</span>;
+};
+
+const JsonNode: React.FC<{ name?: string; value: unknown; depth: number; openDepth: number; palette: Palette; isLast: boolean }> = ({
+  name, value, depth, openDepth, palette, isLast
+}) => {
+  const [isOpen, setIsOpen] = useState(depth < openDepth);
+  const comma = isLast ? null : <span className={palette.punct}>,</span>;
+  const label = name !== undefined && <><span className={palette.key}>"{name}"</span><span className={palette.punct}>: </span></>;
+
+  if (value === null || typeof value !== 'object') {
+    return <div className="pl-4">{label}<Primitive value={value} palette={palette} />{comma}</div>;
+  }
+
+  const isArray = Array.isArray(value);
+  const entries = isArray ? (value as unknown[]).map((v, i) => [String(i), v] as const) : Object.entries(value as Record<string, unknown>);
+  const [open, close] = isArray ? ['[', ']'] : ['{', '}'];
+
+  if (entries.length === 0) {
+    return <div className="pl-4">{label}<span className={palette.punct}>{open}{close}</span>{comma}</div>;
+  }
+
+  return (
+    <div className="pl-4 relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className={`absolute left-0 top-0.5 ${palette.toggle}`}
+        aria-label={isOpen ? 'Collapse' : 'Expand'}
+      >
+        {isOpen ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+      </button>
+      {label}
+      <span className={palette.punct}>{open}</span>
+      {isOpen ? (
+        <>
+          {entries.map(([key, child], idx) => (
+            <JsonNode
+              key={key}
+              name={isArray ? undefined : key}
+              value={child}
+              depth={depth + 1}
+              openDepth={openDepth}
+              palette={palette}
+              isLast={idx === entries.length - 1}
+            />
+          ))}
+          <span className={palette.punct}>{close}</span>
+        </>
+      ) : (
+        <button type="button" onClick={() => setIsOpen(true)} className={`${palette.punct} hover:underline`}>
+          {' '}{entries.length} {isArray ? 'item' : 'key'}{entries.length === 1 ? '' : 's'} {close}
+        </button>
+      )}
+      {comma}
+    </div>
+  );
+};
+
+/**
+ * Collapsible JSON viewer with expand/collapse-all and copy.
+ */
+const JsonTree: React.FC<JsonTreeProps> = ({ value, dark = false, defaultDepth = 2 }) => {
+  const [openDepth, setOpenDepth] = useState(defaultDepth);
+  // Remount the nodes so their open state follows the new depth
+  const [generation, setGeneration] = useState(0);
+  const palette = dark ? COLOURS.dark : COLOURS.light;
+
+  const expandTo = (depth: number) => {
+    setOpenDepth(depth);
+    setGeneration(g => g + 1);
+  };
+
+  return (
+    <div className="font-mono text-xs leading-relaxed">
+      <div className={`flex items-center gap-3 mb-1 text-[10px] ${palette.toggle}`}>
+        <button type="button" onClick={() => expandTo(EXPAND_ALL_DEPTH)} className="hover:underline">Expand all</button>
+        <button type="button" onClick={() => expandTo(1)} className="hover:underline">Collapse</button>
+        <CopyButton text={JSON.stringify(value, null, 2)} className={`ml-auto ${palette.toggle}`} />
+      </div>
+      <div className="-ml-4" key={generation}>
+        <JsonNode value={value} depth={0} openDepth={openDepth} palette={palette} isLast />
+      </div>
+    </div>
+  );
+};
+
+export default JsonTree;
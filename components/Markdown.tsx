@@ -0,0 +1,125 @@
+import React, { useMemo } from 'react';
+import { BlockNode, InlineNode, parseMarkdown } from '../services/markdown';
+import { CodeTokenType, highlightCode } from '../services/highlight';
+import CopyButton from './CopyButton';
+
+interface MarkdownProps {
+  content: string;
+  /** Renders plain text runs, e.g. to mark cited sentences. Code is never passed through it */
+  renderText?: (text: string) => React.ReactNode;
+}
+
+type TextRenderer = MarkdownProps['renderText'];
+
+const TOKEN_CLASSES: Record<CodeTokenType, string> = {
+  plain: '',
+  comment: 'text-slate-500 italic',
+  string: 'text-emerald-300',
+  number: 'text-amber-300',
+  keyword: 'text-fuchsia-300',
+  literal: 'text-sky-300',
+  property: 'text-sky-300'
+};
+
+const HEADING_CLASSES = ['text-lg font-bold', 'text-base font-bold', 'text-sm font-bold', 'text-sm font-semibold', 'text-sm font-semibold', 'text-sm font-semibold text-slate-600'];
+
+export const CodeBlock: React.FC<{ code: string; lang: string }> = ({ code, lang }) => {
+  const tokens = useMemo(() => highlightCode(code, lang), [code, lang]);
+  return (
+    <div className="rounded-lg overflow-hidden border border-slate-800 bg-slate-900 my-2">
+      <div className="flex justify-between items-center px-3 py-1 bg-slate-800 text-[10px] text-slate-400 font-mono">
+        <span>{lang || 'text'}</span>
+        <CopyButton text={code} className="text-slate-400 hover:text-white" />
+      </div>
+      <pre className="p-3 overflow-x-auto text-xs leading-relaxed text-slate-100 font-mono">
+        <code>
+          {tokens.map((token, idx) =>
+            token.type === 'plain' ? token.text : <span key={idx} className={TOKEN_CLASSES[token.type]}>{token.text}</span>
+          )}
+        </code>
+      </pre>
+    </div>
+  );
+};
+
+const renderInline = (nodes: InlineNode[], renderText: TextRenderer): React.ReactNode[] =>
+  nodes.map((node, idx) => {
+    switch (node.type) {
+      case 'text': return renderText ? <React.Fragment key={idx}>{renderText(node.text)}</React.Fragment> : node.text;
+      case 'code': return <code key={idx} className="px-1 py-0.5 rounded bg-slate-200/70 text-[0.85em] font-mono">{node.text}</code>;
+      case 'strong': return <strong key={idx} className="font-semibold">{renderInline(node.children, renderText)}</strong>;
+      case 'em': return <em key={idx}>{renderInline(node.children, renderText)}</em>;
+      case 'del': return <del key={idx}>{renderInline(node.children, renderText)}</del>;
+      case 'link':
+        return (
+          <a key={idx} href={node.href} target="_blank" rel="noopener noreferrer" className="text-blue-600 underline hover:text-blue-800 break-all">
+            {renderInline(node.children, renderText)}
+          </a>
+        );
+      case 'br': return <br key={idx} />;
+    }
+  });
+
+// Paragraphs directly inside list items render without block spacing, as in tight lists
+const renderBlocks = (blocks: BlockNode[], renderText: TextRenderer, tight = false): React.ReactNode[] =>
+  blocks.map((block, idx) => {
+    switch (block.type) {
+      case 'heading': {
+        const Tag = `h${block.level}` as 'h1';
+        return <Tag key={idx} className={`${HEADING_CLASSES[block.level - 1]} mt-3 mb-1 first:mt-0`}>{renderInline(block.children, renderText)}</Tag>;
+      }
+      case 'paragraph':
+        return tight
+          ? <div key={idx}>{renderInline(block.children, renderText)}</div>
+          : <p key={idx} className="my-2 first:mt-0 last:mb-0 whitespace-pre-wrap">{renderInline(block.children, renderText)}</p>;
+      case 'code':
+        return <CodeBlock key={idx} code={block.text} lang={block.lang} />;
+      case 'list': {
+        const items = block.items.map((item, i) => <li key={i} className="pl-1">{renderBlocks(item, renderText, true)}</li>);
+        return block.ordered
+          ? <ol key={idx} start={block.start} className="list-decimal pl-6 my-2 space-y-1">{items}</ol>
+          : <ul key={idx} className="list-disc pl-6 my-2 space-y-1">{items}</ul>;
+      }
+      case 'blockquote':
+        return <blockquote key={idx} className="border-l-4 border-slate-300 pl-3 my-2 text-slate-600">{renderBlocks(block.children, renderText)}</blockquote>;
+      case 'table':
+        return (
+          <div key={idx} className="overflow-x-auto my-2">
+            <table className="text-xs border border-slate-200 border-collapse">
+              <thead className="bg-slate-100">
+                <tr>
+                  {block.header.map((cell, i) => (
+                    <th key={i} className="px-2 py-1 border border-slate-200 font-semibold" style={{ textAlign: block.align[i] || 'left' }}>
+                      {renderInline(cell, renderText)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, r) => (
+                  <tr key={r} className="even:bg-slate-50">
+                    {row.map((cell, i) => (
+                      <td key={i} className="px-2 py-1 border border-slate-200 align-top" style={{ textAlign: block.align[i] || 'left' }}>
+                        {renderInline(cell, renderText)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      case 'hr':
+        return <hr key={idx} className="my-3 border-slate-200" />;
+    }
+  });
+
+/**
+ * Render a markdown reply as React elements. Raw HTML in the reply is shown as text.
+ */
+const Markdown: React.FC<MarkdownProps> = ({ content, renderText }) => {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+  return <div className="text-sm leading-relaxed break-words">{renderBlocks(blocks, renderText)}</div>;
+};
+
+export default Markdown;
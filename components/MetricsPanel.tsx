@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { Gauge, Trash2 } from 'lucide-react';
+import { MetricSample } from '../types';
+import { getProvider } from '../services/providers';
+import { seriesKey, summarizeMetrics } from '../services/metrics';
+
+interface MetricsPanelProps {
+  samples: MetricSample[];
+  onClear: () => void;
+}
+
+type ChartMetric = 'latencyMs' | 'ttftMs' | 'tokensPerSecond';
+
+const CHART_METRICS: { key: ChartMetric; label: string; format: (v: number) => string }[] = [
+  { key: 'latencyMs', label: 'Total latency', format: v => `${(v / 1000).toFixed(2)}s` },
+  { key: 'ttftMs', label: 'Time to first token', format: v => `${(v / 1000).toFixed(2)}s` },
+  { key: 'tokensPerSecond', label: 'Tokens / sec', format: v => v.toFixed(1) }
+];
+
+// Stroke colours per series, reused when there are more series than colours
+const SERIES_COLORS = ['#f97316', '#2563eb', '#16a34a', '#9333ea', '#db2777', '#0891b2', '#ca8a04', '#475569'];
+
+const WIDTH = 640;
+const HEIGHT = 200;
+const PADDING = { top: 10, right: 10, bottom: 20, left: 44 };
+
+/**
+ * Session telemetry: chart of latency, time to first token or throughput per
+ * model/workspace over this session's chat replies, with a summary table.
+ */
+const MetricsPanel: React.FC<MetricsPanelProps> = ({ samples, onClear }) => {
+  const [metric, setMetric] = useState<ChartMetric>('latencyMs');
+  const summaries = summarizeMetrics(samples);
+  const colorOf = (key: string) => SERIES_COLORS[summaries.findIndex(s => s.key === key) % SERIES_COLORS.length];
+  const chartMetric = CHART_METRICS.find(m => m.key === metric)!;
+
+  // x is the sample's position in the session, so series interleave in the order they were sent
+  const points = samples
+    .map((sample, idx) => ({ idx, key: seriesKey(sample), value: sample[metric] }))
+    .filter((p): p is { idx: number; key: string; value: number } => p.value !== undefined);
+  const maxValue = Math.max(...points.map(p => p.value), 0) || 1;
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (idx: number) => PADDING.left + (samples.length > 1 ? (idx / (samples.length - 1)) * plotWidth : plotWidth / 2);
+  const y = (value: number) => PADDING.top + plotHeight - (value / maxValue) * plotHeight;
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden animate-in fade-in slide-in-from-bottom-4">
+      <div className="p-4 border-b border-slate-100 bg-slate-50/50 flex justify-between items-center gap-2 flex-wrap">
+        <h3 className="text-sm font-semibold text-slate-800 flex items-center">
+          <Gauge size={16} className="mr-2 text-sky-500" />
+          Session Metrics
+          <span className="ml-2 text-xs font-normal text-slate-400">{samples.length} response(s)</span>
+        </h3>
+        <div className="flex items-center gap-2">
+          <select
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as ChartMetric)}
+            className="px-2 py-1 border border-slate-300 rounded text-xs bg-white"
+          >
+            {CHART_METRICS.map(m => <option key={m.key} value={m.key}>{m.label}</option>)}
+          </select>
+          <button onClick={onClear} disabled={samples.length === 0} title="Clear session metrics" className="text-slate-400 hover:text-red-600 disabled:opacity-40">
+            <Trash2 size={14} />
+          </button>
+        </div>
+      </div>
+
+      {samples.length === 0 ? (
+        <p className="p-6 text-center text-sm text-slate-400">
+          Send a chat message to start collecting latency and throughput for this session.
+        </p>
+      ) : (
+        <div className="p-4 space-y-4">
+          {points.length === 0 ? (
+            <p className="text-xs text-slate-400 text-center py-6">
+              No {chartMetric.label.toLowerCase()} recorded yet. It needs streaming (TTFT) or token counts (tokens/sec).
+            </p>
+          ) : (
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={`${chartMetric.label} over time`}>
+              {[0, 0.5, 1].map(f => (
+                <g key={f}>
+                  <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(maxValue * f)} y2={y(maxValue * f)} stroke="#e2e8f0" strokeDasharray={f ? '3 3' : undefined} />
+                  <text x={PADDING.left - 6} y={y(maxValue * f) + 3} textAnchor="end" fontSize="10" fill="#94a3b8">
+                    {chartMetric.format(maxValue * f)}
+                  </text>
+                </g>
+              ))}
+              <text x={WIDTH - PADDING.right} y={HEIGHT - 4} textAnchor="end" fontSize="10" fill="#94a3b8">request →</text>
+              {summaries.map(summary => {
+                const series = points.filter(p => p.key === summary.key);
+                if (series.length === 0) return null;
+                return (
+                  <g key={summary.key} stroke={colorOf(summary.key)} fill={colorOf(summary.key)}>
+                    {series.length > 1 && (
+                      <polyline points={series.map(p => `${x(p.idx)},${y(p.value)}`).join(' ')} fill="none" strokeWidth="1.5" />
+                    )}
+                    {series.map(p => (
+                      <circle key={p.idx} cx={x(p.idx)} cy={y(p.value)} r="3">
+                        <title>{`${summary.model}: ${chartMetric.format(p.value)} (${new Date(samples[p.idx].at).toLocaleTimeString()})`}</title>
+                      </circle>
+                    ))}
+                  </g>
+                );
+              })}
+            </svg>
+          )}
+
+          <table className="w-full text-xs">
+            <thead className="text-slate-500 border-b border-slate-100">
+              <tr>
+                <th className="py-1.5 text-left font-medium">Model / Workspace</th>
+                <th className="py-1.5 text-right font-medium">Requests</th>
+                <th className="py-1.5 text-right font-medium">Avg latency</th>
+                <th className="py-1.5 text-right font-medium">p95 latency</th>
+                <th className="py-1.5 text-right font-medium">Avg TTFT</th>
+                <th className="py-1.5 text-right font-medium">Avg tok/s</th>
+                <th className="py-1.5 text-right font-medium">Tokens</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {summaries.map(s => (
+                <tr key={s.key}>
+                  <td className="py-1.5 text-slate-700">
+                    <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: colorOf(s.key) }} />
+                    <span className="text-slate-400">{getProvider(s.provider).label} /</span> <span className="font-mono">{s.model}</span>
+                  </td>
+                  <td className="py-1.5 text-right text-slate-600">{s.count}</td>
+                  <td className="py-1.5 text-right text-slate-600">{(s.avgLatencyMs / 1000).toFixed(2)}s</td>
+                  <td className="py-1.5 text-right text-slate-600">{(s.p95LatencyMs / 1000).toFixed(2)}s</td>
+                  <td className="py-1.5 text-right text-slate-600">{s.avgTtftMs !== undefined ? `${(s.avgTtftMs / 1000).toFixed(2)}s` : '—'}</td>
+                  <td className="py-1.5 text-right text-slate-600">{s.avgTokensPerSecond !== undefined ? s.avgTokensPerSecond.toFixed(1) : '—'}</td>
+                  <td className="py-1.5 text-right text-slate-600">{s.totalTokens || '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MetricsPanel;
@@ -0,0 +1,293 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { HardDrive, Download, Trash2, Copy, RefreshCw, CheckCircle2, Info, X } from 'lucide-react';
+import { AppConfig, OllamaModel, OllamaModelDetails, OllamaPullProgress } from '../types';
+import * as ollamaService from '../services/ollama';
+import { isAbortError } from '../services/streaming';
+
+interface OllamaModelPanelProps {
+  config: AppConfig;
+  onSelectModel: (name: string) => void;
+  /** Called after the installed model list changes (pull, delete, copy) */
+  onModelsChanged: (models: OllamaModel[]) => void;
+}
+
+const formatBytes = (bytes: number): string => {
+  if (!bytes) return '0 B';
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), units.length - 1);
+  return `${(bytes / Math.pow(1024, i)).toFixed(i === 0 ? 0 : 1)} ${units[i]}`;
+};
+
+/**
+ * Installed Ollama models: list, details (`/api/show`), pull with progress, copy and delete.
+ */
+const OllamaModelPanel: React.FC<OllamaModelPanelProps> = ({ config, onSelectModel, onModelsChanged }) => {
+  const [models, setModels] = useState<OllamaModel[]>([]);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [details, setDetails] = useState<OllamaModelDetails | null>(null);
+  const [detailsError, setDetailsError] = useState<string | null>(null);
+  const [pullName, setPullName] = useState('');
+  const [pullProgress, setPullProgress] = useState<OllamaPullProgress | null>(null);
+  const [isPulling, setIsPulling] = useState(false);
+  const [copyTarget, setCopyTarget] = useState('');
+  const [message, setMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null);
+  const pullAbortRef = useRef<AbortController | null>(null);
+
+  const selected = models.find(m => m.name === config.model);
+
+  const refresh = async () => {
+    setIsRefreshing(true);
+    try {
+      const list = await ollamaService.listModels(config);
+      setModels(list);
+      onModelsChanged(list);
+    } catch (e: any) {
+      setMessage({ type: 'error', text: e.message });
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+    return () => pullAbortRef.current?.abort();
+  }, [config.host, config.port]);
+
+  // Load details whenever the selected model changes
+  useEffect(() => {
+    setDetails(null);
+    setDetailsError(null);
+    if (!selected) return;
+    let cancelled = false;
+    ollamaService.showModel(config, selected.name)
+      .then(d => { if (!cancelled) setDetails(d); })
+      .catch(e => { if (!cancelled) setDetailsError(e.message); });
+    return () => { cancelled = true; };
+  }, [selected?.name]);
+
+  const handlePull = async () => {
+    const name = pullName.trim();
+    if (!name) return;
+    const controller = new AbortController();
+    pullAbortRef.current = controller;
+    setIsPulling(true);
+    setMessage(null);
+    setPullProgress({ status: 'starting' });
+    try {
+      await ollamaService.pullModel(config, name, setPullProgress, controller.signal);
+      setMessage({ type: 'success', text: `Pulled ${name}.` });
+      setPullName('');
+      await refresh();
+      onSelectModel(name.includes(':') ? name : `${name}:latest`);
+    } catch (e: any) {
+      setMessage(isAbortError(e)
+        ? { type: 'error', text: `Pull of ${name} cancelled.` }
+        : { type: 'error', text: e.message });
+    } finally {
+      pullAbortRef.current = null;
+      setIsPulling(false);
+      setPullProgress(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || !window.confirm(`Delete model "${selected.name}" from disk?`)) return;
+    try {
+      await ollamaService.deleteModel(config, selected.name);
+      setMessage({ type: 'success', text: `Deleted ${selected.name}.` });
+      await refresh();
+    } catch (e: any) {
+      setMessage({ type: 'error', text: e.message });
+    }
+  };
+
+  const handleCopy = async () => {
+    const destination = copyTarget.trim();
+    if (!selected || !destination) return;
+    try {
+      await ollamaService.copyModel(config, selected.name, destination);
+      setMessage({ type: 'success', text: `Copied ${selected.name} to ${destination}.` });
+      setCopyTarget('');
+      await refresh();
+    } catch (e: any) {
+      setMessage({ type: 'error', text: e.message });
+    }
+  };
+
+  const percent = pullProgress?.total
+    ? Math.round(((pullProgress.completed || 0) / pullProgress.total) * 100)
+    : null;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-6 animate-in fade-in slide-in-from-bottom-4">
+      {/* Left: Installed Models */}
+      <div className="lg:col-span-5 bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden flex flex-col">
+        <div className="p-4 border-b border-slate-100 bg-slate-50/50 flex justify-between items-center">
+          <h3 className="text-sm font-semibold text-slate-800 flex items-center">
+            <HardDrive size={16} className="mr-2 text-orange-500" />
+            Installed Models
+          </h3>
+          <button onClick={refresh} title="Refresh" className="text-slate-400 hover:text-slate-700">
+            <RefreshCw size={14} className={isRefreshing ? 'animate-spin' : ''} />
+          </button>
+        </div>
+
+        {/* Pull */}
+        <div className="p-3 border-b border-slate-100 space-y-2">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={pullName}
+              onChange={(e) => setPullName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && !isPulling && handlePull()}
+              placeholder="Pull a model, e.g. mistral:7b"
+              disabled={isPulling}
+              className="flex-1 px-3 py-1.5 border border-slate-300 rounded text-sm font-mono focus:outline-orange-500"
+            />
+            {isPulling ? (
+              <button
+                onClick={() => pullAbortRef.current?.abort()}
+                className="px-3 rounded text-xs font-medium text-red-600 bg-red-50 hover:bg-red-100 border border-red-200 flex items-center gap-1"
+              >
+                <X size={12} /> Cancel
+              </button>
+            ) : (
+              <button
+                onClick={handlePull}
+                disabled={!pullName.trim()}
+                className="px-3 rounded text-xs font-medium text-white bg-orange-600 hover:bg-orange-700 disabled:opacity-50 flex items-center gap-1"
+              >
+                <Download size={12} /> Pull
+              </button>
+            )}
+          </div>
+          {pullProgress && (
+            <div>
+              <div className="flex justify-between text-[10px] text-slate-500 mb-1">
+                <span className="truncate">{pullProgress.status}</span>
+                {percent !== null && (
+                  <span>{formatBytes(pullProgress.completed || 0)} / {formatBytes(pullProgress.total || 0)} ({percent}%)</span>
+                )}
+              </div>
+              <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                <div
+                  className={`h-full bg-orange-500 transition-all ${percent === null ? 'animate-pulse w-full opacity-40' : ''}`}
+                  style={percent !== null ? { width: `${percent}%` } : undefined}
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="p-2 overflow-y-auto max-h-[360px]">
+          {models.length === 0 ? (
+            <p className="text-center py-6 text-slate-400 text-xs">
+              {isRefreshing ? 'Loading models…' : 'No models installed. Pull one above.'}
+            </p>
+          ) : (
+            <ul className="space-y-1">
+              {models.map(m => (
+                <li key={m.digest || m.name}>
+                  <button
+                    onClick={() => onSelectModel(m.name)}
+                    className={`w-full text-left px-3 py-2 rounded-md text-xs transition-colors flex items-center justify-between group ${
+                      config.model === m.name
+                        ? 'bg-orange-50 text-orange-700 font-medium ring-1 ring-orange-200'
+                        : 'hover:bg-slate-50 text-slate-600'
+                    }`}
+                  >
+                    <span className="min-w-0">
+                      <span className="block truncate font-mono">{m.name}</span>
+                      <span className="block text-[10px] text-slate-400">
+                        {[formatBytes(m.size), m.details?.family, m.details?.parameter_size, m.details?.quantization_level]
+                          .filter(Boolean)
+                          .join(' · ')}
+                      </span>
+                    </span>
+                    {config.model === m.name && <CheckCircle2 size={12} className="shrink-0" />}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {/* Right: Details */}
+      <div className="lg:col-span-7 bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden flex flex-col">
+        <div className="p-4 border-b border-slate-100 bg-slate-50/50">
+          <h3 className="text-sm font-semibold text-slate-800 flex items-center">
+            <Info size={16} className="mr-2 text-slate-500" />
+            Model Details
+          </h3>
+        </div>
+        <div className="p-5 space-y-4 text-sm">
+          {message && (
+            <p className={`text-xs ${message.type === 'error' ? 'text-red-600' : 'text-green-600'}`}>{message.text}</p>
+          )}
+          {!selected ? (
+            <p className="text-slate-400 text-xs italic">
+              {config.model ? `"${config.model}" is not installed.` : 'Select a model to see its details.'}
+            </p>
+          ) : (
+            <>
+              <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-xs">
+                <dt className="text-slate-500">Name</dt><dd className="font-mono text-slate-800">{selected.name}</dd>
+                <dt className="text-slate-500">Size</dt><dd className="text-slate-800">{formatBytes(selected.size)}</dd>
+                <dt className="text-slate-500">Family</dt><dd className="text-slate-800">{selected.details?.family || '—'}</dd>
+                <dt className="text-slate-500">Parameters</dt><dd className="text-slate-800">{selected.details?.parameter_size || '—'}</dd>
+                <dt className="text-slate-500">Quantization</dt><dd className="text-slate-800">{selected.details?.quantization_level || '—'}</dd>
+                <dt className="text-slate-500">Modified</dt><dd className="text-slate-800">{new Date(selected.modified_at).toLocaleString()}</dd>
+                {details?.capabilities && (
+                  <>
+                    <dt className="text-slate-500">Capabilities</dt>
+                    <dd className="text-slate-800">{details.capabilities.join(', ')}</dd>
+                  </>
+                )}
+              </dl>
+
+              {detailsError && <p className="text-xs text-red-600">{detailsError}</p>}
+              {details?.parameters && (
+                <div>
+                  <p className="text-xs font-medium text-slate-500 uppercase tracking-wide mb-1">Parameters</p>
+                  <pre className="text-[11px] bg-slate-50 border border-slate-100 rounded p-2 overflow-auto max-h-32 whitespace-pre-wrap">{details.parameters}</pre>
+                </div>
+              )}
+              {details?.template && (
+                <div>
+                  <p className="text-xs font-medium text-slate-500 uppercase tracking-wide mb-1">Template</p>
+                  <pre className="text-[11px] bg-slate-50 border border-slate-100 rounded p-2 overflow-auto max-h-32 whitespace-pre-wrap">{details.template}</pre>
+                </div>
+              )}
+
+              <div className="flex flex-wrap gap-2 pt-2 border-t border-slate-100">
+                <input
+                  type="text"
+                  value={copyTarget}
+                  onChange={(e) => setCopyTarget(e.target.value)}
+                  placeholder="Copy as… (new name)"
+                  className="flex-1 min-w-[160px] px-3 py-1.5 border border-slate-300 rounded text-xs font-mono focus:outline-orange-500"
+                />
+                <button
+                  onClick={handleCopy}
+                  disabled={!copyTarget.trim()}
+                  className="px-3 py-1.5 rounded text-xs border border-slate-200 hover:bg-slate-100 text-slate-600 disabled:opacity-50 flex items-center gap-1"
+                >
+                  <Copy size={12} /> Copy
+                </button>
+                <button
+                  onClick={handleDelete}
+                  className="px-3 py-1.5 rounded text-xs border border-slate-200 hover:bg-red-50 hover:text-red-600 text-slate-600 flex items-center gap-1"
+                >
+                  <Trash2 size={12} /> Delete
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OllamaModelPanel;
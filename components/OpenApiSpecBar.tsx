@@ -0,0 +1,92 @@
+import React, { useRef, useState } from 'react';
+import { FileCode, Download, Upload, Loader2, X } from 'lucide-react';
+import { AnythingLLMClient } from '../services/anythingllm-sdk';
+import { OpenApiDocument, fetchOpenApiSpec, generateTypeScriptModels, parseOpenApiDocument } from '../services/openapi';
+import { downloadFile } from '../services/storage';
+
+interface OpenApiSpecBarProps {
+  client: AnythingLLMClient;
+  /** The spec in use */
+  spec: OpenApiDocument;
+  /** Whether `spec` is the bundled copy rather than one loaded from the server or a file */
+  isBundled: boolean;
+  /** Number of playground methods generated from the spec */
+  methodCount: number;
+  onChange: (spec: OpenApiDocument | null) => void;
+}
+
+/**
+ * Shows the OpenAPI spec behind the API Playground's endpoint list: the bundled copy,
+ * or one loaded from the server or a file. Downloads TypeScript models generated from it.
+ */
+const OpenApiSpecBar: React.FC<OpenApiSpecBarProps> = ({ client, spec, isBundled, methodCount, onChange }) => {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadFromServer = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      onChange(await fetchOpenApiSpec(client));
+    } catch (e: any) {
+      setError(`${e.message} Using the bundled spec.`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      onChange(parseOpenApiDocument(await file.text()));
+    } catch (err: any) {
+      setError(`Could not import ${file.name}: ${err.message}`);
+    }
+  };
+
+  const downloadModels = () => {
+    downloadFile('anythingllm-api.d.ts', generateTypeScriptModels(spec), 'text/plain');
+  };
+
+  return (
+    <div className="px-4 py-2 border-b border-slate-100 text-xs">
+      <div className="flex items-center gap-2 flex-wrap">
+        <FileCode size={14} className="text-slate-400" />
+        <span className="text-slate-600">
+          {spec.info?.title || 'OpenAPI spec'} {spec.info?.version && <span className="text-slate-400">v{spec.info.version}</span>}
+          <span className="text-slate-400"> · {methodCount} endpoints{isBundled ? ' · bundled' : ''}</span>
+        </span>
+        <button onClick={downloadModels} className="ml-auto flex items-center gap-1 text-slate-500 hover:text-blue-600" title="Download TypeScript request/response models">
+          <Download size={12} /> Types
+        </button>
+        {isBundled ? (
+          <>
+            <button
+              onClick={loadFromServer}
+              disabled={isLoading}
+              title="Use the running server's spec"
+              className="flex items-center gap-1 text-slate-500 hover:text-blue-600 disabled:opacity-50"
+            >
+              {isLoading ? <Loader2 size={12} className="animate-spin" /> : <Download size={12} />} From server
+            </button>
+            <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1 text-slate-500 hover:text-blue-600">
+              <Upload size={12} /> Import
+            </button>
+          </>
+        ) : (
+          <button onClick={() => onChange(null)} className="text-slate-400 hover:text-red-500" title="Use the bundled spec">
+            <X size={14} />
+          </button>
+        )}
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleFileChange} className="hidden" />
+      </div>
+      {error && <p className="text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+};
+
+export default OpenApiSpecBar;
@@ -0,0 +1,109 @@
+import React from 'react';
+import { Activity } from 'lucide-react';
+import { AnythingLLMWorkspace, SDKMethodParam } from '../types';
+
+interface ParamInputProps {
+  param: SDKMethodParam;
+  value: any;
+  onChange: (value: any) => void;
+  workspaces: AnythingLLMWorkspace[];
+  currentWorkspace: string;
+  error?: string;
+}
+
+const inputClass = (error?: string) =>
+  `w-full px-3 py-1.5 border rounded text-sm focus:outline-blue-500 ${error ? 'border-red-300 bg-red-50' : 'border-slate-300'}`;
+
+/**
+ * Form control for one SDK method parameter, chosen from its declared type.
+ */
+const ParamInput: React.FC<ParamInputProps> = ({ param, value, onChange, workspaces, currentWorkspace, error }) => {
+  if (param.options) {
+    return (
+      <select value={value ?? ''} onChange={(e) => onChange(e.target.value)} className={`${inputClass(error)} bg-white`}>
+        {!param.required && <option value="">(none)</option>}
+        {param.options.map(option => <option key={option} value={option}>{option}</option>)}
+      </select>
+    );
+  }
+
+  switch (param.type) {
+    case 'boolean': {
+      const checked = value === true || value === 'true';
+      return (
+        <label className="inline-flex items-center gap-2 cursor-pointer select-none">
+          <button
+            type="button"
+            role="switch"
+            aria-checked={checked}
+            onClick={() => onChange(!checked)}
+            className={`relative w-9 h-5 rounded-full transition-colors ${checked ? 'bg-blue-600' : 'bg-slate-300'}`}
+          >
+            <span className={`absolute top-0.5 left-0.5 w-4 h-4 bg-white rounded-full shadow transition-transform ${checked ? 'translate-x-4' : ''}`} />
+          </button>
+          <span className="text-xs font-mono text-slate-600">{String(checked)}</span>
+        </label>
+      );
+    }
+
+    case 'number':
+      return (
+        <input
+          type="number"
+          value={value ?? ''}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={param.defaultValue !== undefined ? String(param.defaultValue) : undefined}
+          className={inputClass(error)}
+        />
+      );
+
+    case 'json':
+      return (
+        <textarea
+          value={value ?? ''}
+          onChange={(e) => onChange(e.target.value)}
+          rows={4}
+          spellCheck={false}
+          placeholder={param.required ? '{}' : 'Optional'}
+          className={`${inputClass(error)} font-mono text-xs resize-y`}
+        />
+      );
+
+    case 'slug': {
+      // Keep a typed slug selectable even if it is not in the loaded list
+      const known = workspaces.some(ws => ws.slug === value);
+      return (
+        <div className="flex gap-2">
+          <select value={value ?? ''} onChange={(e) => onChange(e.target.value)} className={`flex-1 ${inputClass(error)} bg-white`}>
+            <option value="">Select a workspace...</option>
+            {!known && value && <option value={value}>{value}</option>}
+            {workspaces.map(ws => <option key={ws.slug} value={ws.slug}>{ws.name} ({ws.slug})</option>)}
+          </select>
+          {currentWorkspace && (
+            <button
+              type="button"
+              onClick={() => onChange(currentWorkspace)}
+              title="Use current workspace"
+              className="px-2 bg-slate-200 rounded hover:bg-slate-300 text-slate-600"
+            >
+              <Activity size={14} />
+            </button>
+          )}
+        </div>
+      );
+    }
+
+    default:
+      return (
+        <input
+          type="text"
+          value={value ?? ''}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={param.defaultValue}
+          className={inputClass(error)}
+        />
+      );
+  }
+};
+
+export default ParamInput;
@@ -0,0 +1,267 @@
+import React, { useState } from 'react';
+import { History, FolderOpen, Play, Code, Trash2, Plus, CheckCircle2, AlertCircle, Loader2, ChevronDown, ChevronRight, Pencil } from 'lucide-react';
+import { AppConfig, PlaygroundCall, PlaygroundCollection, PlaygroundRequest, SDKMethodDefinition } from '../types';
+import { createCollection, toPlaygroundRequest } from '../services/playground';
+import { SNIPPET_LANGUAGES, SnippetLanguage, buildSnippet } from '../services/snippets';
+import { CodeBlock } from './Markdown';
+
+interface PlaygroundHistoryPanelProps {
+  history: PlaygroundCall[];
+  collections: PlaygroundCollection[];
+  config: AppConfig;
+  findMethod: (method: string) => SDKMethodDefinition | undefined;
+  /** Progress of a replay or collection run */
+  run: { label: string; done: number; total: number } | null;
+  /** Load a request into the playground form, and its result when it is a past call */
+  onOpen: (request: PlaygroundRequest, call?: PlaygroundCall) => void;
+  /** Execute requests in order */
+  onRun: (requests: PlaygroundRequest[], label: string) => void;
+  onClearHistory: () => void;
+  onCollectionsChange: (collections: PlaygroundCollection[]) => void;
+}
+
+type Tab = 'history' | 'collections';
+
+const NEW_COLLECTION = '__new__';
+
+// Short "key=value" summary of the arguments for list rows
+const describeArgs = (args: Record<string, any>) =>
+  Object.entries(args)
+    .filter(([, value]) => value !== '' && value !== undefined)
+    .map(([key, value]) => `${key}=${typeof value === 'string' ? value.replace(/\s+/g, ' ').slice(0, 40) : String(value)}`)
+    .join(' ');
+
+const SnippetView: React.FC<{ call: PlaygroundCall; config: AppConfig; definition?: SDKMethodDefinition }> = ({ call, config, definition }) => {
+  const [language, setLanguage] = useState<SnippetLanguage>('curl');
+  const current = SNIPPET_LANGUAGES.find(l => l.id === language)!;
+  return (
+    <div className="px-3 pb-3">
+      <div className="flex gap-1">
+        {SNIPPET_LANGUAGES.map(l => (
+          <button
+            key={l.id}
+            onClick={() => setLanguage(l.id)}
+            className={`px-2 py-0.5 rounded text-[10px] font-medium ${language === l.id ? 'bg-slate-800 text-white' : 'text-slate-500 hover:bg-slate-100'}`}
+          >
+            {l.label}
+          </button>
+        ))}
+      </div>
+      <CodeBlock code={buildSnippet(language, call, config, definition)} lang={current.lang} />
+    </div>
+  );
+};
+
+/**
+ * History of API Playground calls with replay and snippet export, and named
+ * collections of calls that can be run in sequence.
+ */
+const PlaygroundHistoryPanel: React.FC<PlaygroundHistoryPanelProps> = ({
+  history, collections, config, findMethod, run, onOpen, onRun, onClearHistory, onCollectionsChange
+}) => {
+  const [tab, setTab] = useState<Tab>('history');
+  const [snippetCallId, setSnippetCallId] = useState<string | null>(null);
+  const [expandedCollectionId, setExpandedCollectionId] = useState<string | null>(null);
+  const [newCollectionName, setNewCollectionName] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const updateCollection = (id: string, update: (collection: PlaygroundCollection) => PlaygroundCollection) => {
+    onCollectionsChange(collections.map(c => (c.id === id ? { ...update(c), updatedAt: new Date().toISOString() } : c)));
+  };
+
+  const saveToCollection = (call: PlaygroundCall, target: string) => {
+    const request = toPlaygroundRequest(call);
+    if (target === NEW_COLLECTION) {
+      const name = window.prompt('Collection name', '');
+      if (name === null) return;
+      const collection = { ...createCollection(name), requests: [request] };
+      onCollectionsChange([...collections, collection]);
+      setNotice(`Saved to "${collection.name}".`);
+      return;
+    }
+    const collection = collections.find(c => c.id === target);
+    if (!collection) return;
+    updateCollection(target, c => ({ ...c, requests: [...c.requests, request] }));
+    setNotice(`Saved to "${collection.name}".`);
+  };
+
+  const addCollection = () => {
+    const collection = createCollection(newCollectionName);
+    onCollectionsChange([...collections, collection]);
+    setNewCollectionName('');
+    setExpandedCollectionId(collection.id);
+  };
+
+  const moveRequest = (collection: PlaygroundCollection, index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= collection.requests.length) return;
+    updateCollection(collection.id, c => {
+      const requests = [...c.requests];
+      [requests[index], requests[target]] = [requests[target], requests[index]];
+      return { ...c, requests };
+    });
+  };
+
+  const isRunning = run !== null;
+  const tabClass = (active: boolean) =>
+    `px-3 py-1 rounded text-xs font-medium flex items-center gap-1 ${active ? 'bg-white shadow-sm text-slate-800' : 'text-slate-500 hover:text-slate-700'}`;
+  const iconButton = 'p-1 rounded text-slate-400 hover:text-slate-700 hover:bg-slate-100 disabled:opacity-40';
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden animate-in fade-in slide-in-from-bottom-4">
+      <div className="p-3 border-b border-slate-100 bg-slate-50/50 flex justify-between items-center gap-2 flex-wrap">
+        <div className="flex gap-1 bg-slate-100 p-0.5 rounded-lg">
+          <button onClick={() => setTab('history')} className={tabClass(tab === 'history')}>
+            <History size={12} /> History <span className="text-slate-400">({history.length})</span>
+          </button>
+          <button onClick={() => setTab('collections')} className={tabClass(tab === 'collections')}>
+            <FolderOpen size={12} /> Collections <span className="text-slate-400">({collections.length})</span>
+          </button>
+        </div>
+        {run && (
+          <span className="text-xs text-slate-500 flex items-center gap-1">
+            <Loader2 size={12} className="animate-spin" /> {run.label}: {run.done}/{run.total}
+          </span>
+        )}
+        {notice && !run && <span className="text-xs text-green-600">{notice}</span>}
+        {tab === 'history' && history.length > 0 && (
+          <button
+            onClick={() => window.confirm('Clear the playground history?') && onClearHistory()}
+            className="text-xs text-slate-400 hover:text-red-500"
+          >
+            Clear history
+          </button>
+        )}
+      </div>
+
+      {tab === 'history' ? (
+        <div className="max-h-[420px] overflow-auto divide-y divide-slate-100">
+          {history.length === 0 && <p className="p-6 text-center text-xs text-slate-400">Executed calls appear here.</p>}
+          {history.map(call => {
+            const definition = findMethod(call.method);
+            return (
+              <div key={call.id}>
+                <div className="px-3 py-2 flex items-center gap-2 text-xs">
+                  {call.error
+                    ? <span title={call.error}><AlertCircle size={14} className="text-red-500 shrink-0" /></span>
+                    : <CheckCircle2 size={14} className="text-green-500 shrink-0" />}
+                  <button onClick={() => onOpen(call, call)} className="min-w-0 flex-1 text-left hover:text-blue-600" title="Open in playground">
+                    <span className="font-medium text-slate-700">{call.label}</span>
+                    <span className="ml-2 text-slate-400 font-mono truncate">{describeArgs(call.args)}</span>
+                  </button>
+                  <span className="text-slate-400 whitespace-nowrap">{call.durationMs} ms</span>
+                  <span className="text-slate-400 whitespace-nowrap">{new Date(call.at).toLocaleTimeString()}</span>
+                  <button onClick={() => onRun([call], call.label)} disabled={isRunning || !definition} title={definition ? 'Replay' : 'Method not available'} className={iconButton}>
+                    <Play size={12} />
+                  </button>
+                  <button
+                    onClick={() => setSnippetCallId(snippetCallId === call.id ? null : call.id)}
+                    title="Export as code"
+                    className={`${iconButton} ${snippetCallId === call.id ? 'text-blue-600' : ''}`}
+                  >
+                    <Code size={12} />
+                  </button>
+                  <select
+                    value=""
+                    onChange={(e) => saveToCollection(call, e.target.value)}
+                    title="Save to collection"
+                    className="w-24 px-1 py-0.5 border border-slate-200 rounded text-[10px] text-slate-500 bg-white"
+                  >
+                    <option value="">Save to…</option>
+                    {collections.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                    <option value={NEW_COLLECTION}>New collection…</option>
+                  </select>
+                </div>
+                {snippetCallId === call.id && <SnippetView call={call} config={config} definition={definition} />}
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="max-h-[420px] overflow-auto">
+          <div className="p-3 border-b border-slate-100 flex gap-2">
+            <input
+              type="text"
+              value={newCollectionName}
+              onChange={(e) => setNewCollectionName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addCollection()}
+              placeholder="New collection name"
+              className="flex-1 px-2 py-1.5 border border-slate-300 rounded text-xs focus:outline-blue-500"
+            />
+            <button onClick={addCollection} className="px-2 py-1 rounded text-xs border border-slate-300 text-slate-600 hover:bg-slate-50 flex items-center gap-1">
+              <Plus size={12} /> Add
+            </button>
+          </div>
+          {collections.length === 0 && (
+            <p className="p-6 text-center text-xs text-slate-400">Save calls from the history to build a collection.</p>
+          )}
+          <div className="divide-y divide-slate-100">
+            {collections.map(collection => {
+              const isExpanded = expandedCollectionId === collection.id;
+              return (
+                <div key={collection.id}>
+                  <div className="px-3 py-2 flex items-center gap-2 text-xs">
+                    <button onClick={() => setExpandedCollectionId(isExpanded ? null : collection.id)} className="text-slate-400 hover:text-slate-700">
+                      {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                    </button>
+                    <span className="font-medium text-slate-700 flex-1">{collection.name}</span>
+                    <span className="text-slate-400">{collection.requests.length} call{collection.requests.length === 1 ? '' : 's'}</span>
+                    <button
+                      onClick={() => onRun(collection.requests, collection.name)}
+                      disabled={isRunning || collection.requests.length === 0}
+                      className="px-2 py-0.5 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-40 flex items-center gap-1"
+                    >
+                      <Play size={10} fill="currentColor" /> Run all
+                    </button>
+                    <button
+                      onClick={() => window.confirm(`Delete collection "${collection.name}"?`) && onCollectionsChange(collections.filter(c => c.id !== collection.id))}
+                      title="Delete collection"
+                      className={iconButton}
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  </div>
+                  {isExpanded && (
+                    <ol className="pb-2">
+                      {collection.requests.length === 0 && <li className="px-10 py-1 text-xs text-slate-400 italic">Empty.</li>}
+                      {collection.requests.map((request, idx) => (
+                        <li key={request.id} className="pl-10 pr-3 py-1 flex items-center gap-2 text-xs">
+                          <span className="text-slate-400 w-4 text-right">{idx + 1}.</span>
+                          <span className={`min-w-0 flex-1 truncate ${findMethod(request.method) ? 'text-slate-700' : 'text-slate-400 line-through'}`}>
+                            {request.label}
+                            <span className="ml-2 text-slate-400 font-mono">{describeArgs(request.args)}</span>
+                          </span>
+                          <button onClick={() => moveRequest(collection, idx, -1)} disabled={idx === 0} title="Move up" className={iconButton}>
+                            <ChevronDown size={12} className="rotate-180" />
+                          </button>
+                          <button onClick={() => moveRequest(collection, idx, 1)} disabled={idx === collection.requests.length - 1} title="Move down" className={iconButton}>
+                            <ChevronDown size={12} />
+                          </button>
+                          <button onClick={() => onOpen(request)} title="Open in playground" className={iconButton}>
+                            <Pencil size={12} />
+                          </button>
+                          <button onClick={() => onRun([request], request.label)} disabled={isRunning} title="Run" className={iconButton}>
+                            <Play size={12} />
+                          </button>
+                          <button
+                            onClick={() => updateCollection(collection.id, c => ({ ...c, requests: c.requests.filter(r => r.id !== request.id) }))}
+                            title="Remove from collection"
+                            className={iconButton}
+                          >
+                            <Trash2 size={12} />
+                          </button>
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlaygroundHistoryPanel;
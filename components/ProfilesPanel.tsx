@@ -0,0 +1,208 @@
+import React, { useState, useRef } from 'react';
+import { Bookmark, Save, Trash2, Download, Upload, Lock, Unlock, Loader2 } from 'lucide-react';
+import { ConnectionProfile } from '../types';
+import { isCryptoAvailable } from '../services/crypto';
+
+interface ProfilesPanelProps {
+  profiles: ConnectionProfile[];
+  activeProfileId: string | null;
+  /** True when the active profile has an encrypted key that has not been unlocked yet */
+  needsUnlock: boolean;
+  onSelect: (id: string) => void;
+  /** Save the current config as a profile. `overwriteId` updates an existing one. */
+  onSave: (name: string, passphrase?: string, overwriteId?: string) => Promise<void>;
+  onDelete: (id: string) => void;
+  onUnlock: (passphrase: string) => Promise<void>;
+  onExport: () => void;
+  onImport: (file: File) => Promise<void>;
+}
+
+/**
+ * Saved connection profiles: quick switch, save/update/delete, passphrase-protected keys and JSON import/export.
+ */
+const ProfilesPanel: React.FC<ProfilesPanelProps> = ({
+  profiles,
+  activeProfileId,
+  needsUnlock,
+  onSelect,
+  onSave,
+  onDelete,
+  onUnlock,
+  onExport,
+  onImport
+}) => {
+  const activeProfile = profiles.find(p => p.id === activeProfileId);
+  const [name, setName] = useState('');
+  const [encrypt, setEncrypt] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [unlockPassphrase, setUnlockPassphrase] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const cryptoAvailable = isCryptoAvailable();
+
+  const run = async (action: () => Promise<void>, successText: string) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      await action();
+      setMessage({ type: 'success', text: successText });
+    } catch (e: any) {
+      setMessage({ type: 'error', text: e.message || 'Operation failed' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = (overwrite: boolean) => {
+    const profileName = overwrite && activeProfile ? activeProfile.name : name.trim();
+    if (!profileName) {
+      setMessage({ type: 'error', text: 'Enter a profile name.' });
+      return;
+    }
+    if (encrypt && !passphrase) {
+      setMessage({ type: 'error', text: 'Enter a passphrase to encrypt the API key.' });
+      return;
+    }
+    run(async () => {
+      await onSave(profileName, encrypt ? passphrase : undefined, overwrite ? activeProfile?.id : undefined);
+      setName('');
+      setPassphrase('');
+    }, overwrite ? `Updated "${profileName}".` : `Saved "${profileName}".`);
+  };
+
+  const handleUnlock = () => {
+    run(async () => {
+      await onUnlock(unlockPassphrase);
+      setUnlockPassphrase('');
+    }, 'API key unlocked for this session.');
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) run(() => onImport(file), `Imported profiles from ${file.name}.`);
+  };
+
+  return (
+    <div className="lg:col-span-12 rounded-lg border border-slate-200 bg-slate-50/50 p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="text-sm font-medium text-slate-700 flex items-center mr-1">
+          <Bookmark size={14} className="mr-1" /> Profile
+        </label>
+        <select
+          value={activeProfileId || ''}
+          onChange={(e) => e.target.value && onSelect(e.target.value)}
+          className="px-3 py-1.5 border border-slate-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-slate-400 outline-none min-w-[180px]"
+        >
+          <option value="">— Unsaved connection —</option>
+          {profiles.map(p => (
+            <option key={p.id} value={p.id}>
+              {p.name} ({p.provider}){p.encryptedApiKey ? ' 🔒' : ''}
+            </option>
+          ))}
+        </select>
+        {activeProfile && (
+          <>
+            <button
+              onClick={() => handleSave(true)}
+              disabled={busy}
+              className="flex items-center gap-1 text-xs px-2 py-1.5 rounded border border-slate-200 bg-white hover:bg-slate-100 text-slate-600 disabled:opacity-50"
+            >
+              <Save size={12} /> Update
+            </button>
+            <button
+              onClick={() => {
+                if (window.confirm(`Delete profile "${activeProfile.name}"?`)) onDelete(activeProfile.id);
+              }}
+              className="flex items-center gap-1 text-xs px-2 py-1.5 rounded border border-slate-200 bg-white hover:bg-red-50 hover:text-red-600 text-slate-600"
+            >
+              <Trash2 size={12} /> Delete
+            </button>
+          </>
+        )}
+        <div className="flex-1" />
+        <button
+          onClick={onExport}
+          disabled={profiles.length === 0}
+          className="flex items-center gap-1 text-xs px-2 py-1.5 rounded border border-slate-200 bg-white hover:bg-slate-100 text-slate-600 disabled:opacity-50"
+        >
+          <Download size={12} /> Export
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-1 text-xs px-2 py-1.5 rounded border border-slate-200 bg-white hover:bg-slate-100 text-slate-600"
+        >
+          <Upload size={12} /> Import
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleFileChange} className="hidden" />
+      </div>
+
+      {needsUnlock && (
+        <div className="flex flex-wrap items-center gap-2 bg-amber-50 border border-amber-200 rounded-lg p-2">
+          <Lock size={14} className="text-amber-600" />
+          <span className="text-xs text-amber-800">This profile's API key is encrypted.</span>
+          <input
+            type="password"
+            value={unlockPassphrase}
+            onChange={(e) => setUnlockPassphrase(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && unlockPassphrase && handleUnlock()}
+            placeholder="Passphrase"
+            className="px-2 py-1 border border-amber-300 rounded text-xs bg-white outline-none"
+          />
+          <button
+            onClick={handleUnlock}
+            disabled={busy || !unlockPassphrase}
+            className="flex items-center gap-1 text-xs px-2 py-1 rounded bg-amber-600 hover:bg-amber-700 text-white disabled:opacity-50"
+          >
+            {busy ? <Loader2 size={12} className="animate-spin" /> : <Unlock size={12} />} Unlock
+          </button>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="New profile name"
+          className="px-3 py-1.5 border border-slate-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-slate-400 outline-none"
+        />
+        <label
+          className={`flex items-center gap-1 text-xs text-slate-600 ${cryptoAvailable ? '' : 'opacity-50'}`}
+          title={cryptoAvailable ? 'Encrypt the API key with a passphrase (AES-GCM)' : 'WebCrypto requires https or localhost'}
+        >
+          <input
+            type="checkbox"
+            checked={encrypt}
+            disabled={!cryptoAvailable}
+            onChange={(e) => setEncrypt(e.target.checked)}
+          />
+          Encrypt API key
+        </label>
+        {encrypt && (
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Passphrase"
+            className="px-3 py-1.5 border border-slate-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-slate-400 outline-none"
+          />
+        )}
+        <button
+          onClick={() => handleSave(false)}
+          disabled={busy}
+          className="flex items-center gap-1 text-xs px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-900 text-white disabled:opacity-50"
+        >
+          {busy ? <Loader2 size={12} className="animate-spin" /> : <Save size={12} />} Save as Profile
+        </button>
+      </div>
+
+      {message && (
+        <p className={`text-xs ${message.type === 'error' ? 'text-red-600' : 'text-green-600'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+};
+
+export default ProfilesPanel;
@@ -0,0 +1,322 @@
+import React, { useState, useRef, useMemo } from 'react';
+import { MessageSquare, Smile, Feather, Book, Code, Globe, Lightbulb, FileText, Search, Bug, Languages, ListChecks, Plus, Pencil, Trash2, Download, Upload, Loader2, Pin, Send, X, Tag } from 'lucide-react';
+import { LLMProvider, PromptPreset, ProviderTheme } from '../types';
+import { PROVIDER_LIST, getProvider } from '../services/providers';
+import { createPreset, extractVariables, fillTemplate, collectTags, exportPrompts, parsePromptsImport, mergePrompts } from '../services/prompt-library';
+import { downloadFile } from '../services/storage';
+
+/** Icons a preset can use, by the name stored in `PromptPreset.icon` */
+export const PRESET_ICONS: Record<string, React.FC<{ className?: string }>> = {
+  message: MessageSquare,
+  smile: Smile,
+  feather: Feather,
+  book: Book,
+  code: Code,
+  globe: Globe,
+  idea: Lightbulb,
+  document: FileText,
+  search: Search,
+  bug: Bug,
+  translate: Languages,
+  checklist: ListChecks
+};
+
+export const PresetIcon: React.FC<{ name: string; className?: string }> = ({ name, className }) => {
+  const Icon = PRESET_ICONS[name] || MessageSquare;
+  return <Icon className={className} />;
+};
+
+interface PromptLibraryProps {
+  presets: PromptPreset[];
+  onChange: (presets: PromptPreset[]) => void;
+  /** Send the final prompt text, switching to the preset's pinned provider/model if any */
+  onRun: (preset: PromptPreset, text: string) => void;
+  selectedPromptId: string | null;
+  isLoading: boolean;
+  theme: ProviderTheme;
+}
+
+interface PresetForm {
+  id?: string;
+  title: string;
+  text: string;
+  icon: string;
+  tags: string;
+  provider: LLMProvider | '';
+  model: string;
+}
+
+const EMPTY_FORM: PresetForm = { title: '', text: '', icon: 'message', tags: '', provider: '', model: '' };
+
+/**
+ * The prompt library: run presets (filling in `{{variables}}` first), create, edit,
+ * tag and delete them, and share them as JSON.
+ */
+const PromptLibrary: React.FC<PromptLibraryProps> = ({ presets, onChange, onRun, selectedPromptId, isLoading, theme }) => {
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [form, setForm] = useState<PresetForm | null>(null);
+  const [filling, setFilling] = useState<{ preset: PromptPreset; values: Record<string, string> } | null>(null);
+  const [message, setMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const tags = useMemo(() => collectTags(presets), [presets]);
+  const visible = activeTag ? presets.filter(p => p.tags?.includes(activeTag)) : presets;
+
+  const handleRun = (preset: PromptPreset) => {
+    const variables = extractVariables(preset.text);
+    if (variables.length === 0) {
+      onRun(preset, preset.text);
+      return;
+    }
+    setFilling({ preset, values: Object.fromEntries(variables.map(v => [v, ''])) });
+  };
+
+  const submitFilled = () => {
+    if (!filling) return;
+    onRun(filling.preset, fillTemplate(filling.preset.text, filling.values));
+    setFilling(null);
+  };
+
+  const editPreset = (preset: PromptPreset) => {
+    setForm({
+      id: preset.id,
+      title: preset.title,
+      text: preset.text,
+      icon: preset.icon,
+      tags: (preset.tags || []).join(', '),
+      provider: preset.provider || '',
+      model: preset.model || ''
+    });
+  };
+
+  const savePreset = () => {
+    if (!form || !form.title.trim() || !form.text.trim()) {
+      setMessage({ type: 'error', text: 'A preset needs a title and prompt text.' });
+      return;
+    }
+    const preset = createPreset({
+      title: form.title,
+      text: form.text,
+      icon: form.icon,
+      tags: form.tags.split(','),
+      provider: form.provider || undefined,
+      model: form.model
+    }, form.id);
+    onChange(form.id ? presets.map(p => (p.id === form.id ? preset : p)) : [...presets, preset]);
+    setForm(null);
+    setMessage({ type: 'success', text: `Saved "${preset.title}".` });
+  };
+
+  const deletePreset = (preset: PromptPreset) => {
+    if (!window.confirm(`Delete preset "${preset.title}"?`)) return;
+    onChange(presets.filter(p => p.id !== preset.id));
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parsePromptsImport(await file.text());
+      onChange(mergePrompts(presets, imported));
+      setMessage({ type: 'success', text: `Imported ${imported.length} prompt(s) from ${file.name}.` });
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.message });
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-1.5 border border-slate-300 rounded text-sm focus:outline-blue-500 bg-white';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-1">
+          <button
+            onClick={() => setActiveTag(null)}
+            className={`px-2 py-0.5 rounded-full text-xs border ${activeTag === null ? 'bg-slate-800 text-white border-slate-800' : 'border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+          >
+            All
+          </button>
+          {tags.map(tag => (
+            <button
+              key={tag}
+              onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+              className={`px-2 py-0.5 rounded-full text-xs border flex items-center gap-1 ${activeTag === tag ? 'bg-slate-800 text-white border-slate-800' : 'border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+            >
+              <Tag size={10} /> {tag}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={() => setForm({ ...EMPTY_FORM })} className="text-xs text-slate-600 hover:text-slate-900 flex items-center gap-1">
+            <Plus size={12} /> New Preset
+          </button>
+          <button onClick={() => downloadFile('llm-prompts.json', exportPrompts(presets))} title="Export library" className="text-slate-400 hover:text-slate-700">
+            <Download size={14} />
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} title="Import library" className="text-slate-400 hover:text-slate-700">
+            <Upload size={14} />
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleFileChange} className="hidden" />
+        </div>
+      </div>
+
+      {message && (
+        <p className={`text-xs ${message.type === 'error' ? 'text-red-600' : 'text-green-600'}`}>{message.text}</p>
+      )}
+
+      {/* Create / edit */}
+      {form && (
+        <div className="bg-white border border-slate-200 rounded-xl p-4 space-y-3 shadow-sm">
+          <div className="grid grid-cols-1 md:grid-cols-12 gap-3">
+            <div className="md:col-span-5">
+              <label className="text-xs font-medium text-slate-700 mb-1 block">Title</label>
+              <input value={form.title} onChange={(e) => setForm({ ...form, title: e.target.value })} className={inputClass} />
+            </div>
+            <div className="md:col-span-3">
+              <label className="text-xs font-medium text-slate-700 mb-1 block">Icon</label>
+              <select value={form.icon} onChange={(e) => setForm({ ...form, icon: e.target.value })} className={inputClass}>
+                {Object.keys(PRESET_ICONS).map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+            </div>
+            <div className="md:col-span-4">
+              <label className="text-xs font-medium text-slate-700 mb-1 block">Tags</label>
+              <input value={form.tags} onChange={(e) => setForm({ ...form, tags: e.target.value })} placeholder="support, summaries" className={inputClass} />
+            </div>
+            <div className="md:col-span-12">
+              <label className="text-xs font-medium text-slate-700 mb-1 block">Prompt</label>
+              <textarea
+                value={form.text}
+                onChange={(e) => setForm({ ...form, text: e.target.value })}
+                rows={4}
+                placeholder="Summarize {{document}} for a {{audience}} audience."
+                className={`${inputClass} font-mono text-xs resize-y`}
+              />
+              <p className="text-[10px] text-slate-400 mt-1">
+                Use <span className="font-mono">{'{{name}}'}</span> for values to fill in before sending.
+                {extractVariables(form.text).length > 0 && ` Variables: ${extractVariables(form.text).join(', ')}.`}
+              </p>
+            </div>
+            <div className="md:col-span-4">
+              <label className="text-xs font-medium text-slate-700 mb-1 block">Pin Provider</label>
+              <select value={form.provider} onChange={(e) => setForm({ ...form, provider: e.target.value as LLMProvider | '' })} className={inputClass}>
+                <option value="">Active provider</option>
+                {PROVIDER_LIST.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+              </select>
+            </div>
+            <div className="md:col-span-8">
+              <label className="text-xs font-medium text-slate-700 mb-1 block">
+                Pin {form.provider ? getProvider(form.provider).modelLabel : 'Model / Workspace'}
+              </label>
+              <input
+                value={form.model}
+                onChange={(e) => setForm({ ...form, model: e.target.value })}
+                placeholder="Empty uses the active one"
+                className={`${inputClass} font-mono`}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setForm(null)} className="px-3 py-1.5 rounded-lg text-xs font-medium border border-slate-300 text-slate-600 hover:bg-slate-50">Cancel</button>
+            <button onClick={savePreset} className={`px-3 py-1.5 rounded-lg text-xs font-medium text-white ${theme.button}`}>Save Preset</button>
+          </div>
+        </div>
+      )}
+
+      {/* Fill in variables */}
+      {filling && (
+        <div className="bg-white border border-slate-200 rounded-xl p-4 space-y-3 shadow-sm">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold text-slate-800">{filling.preset.title}</h3>
+            <button onClick={() => setFilling(null)} className="text-slate-400 hover:text-slate-700"><X size={14} /></button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {Object.keys(filling.values).map((name, idx) => (
+              <div key={name}>
+                <label className="text-xs font-medium text-slate-700 mb-1 block font-mono">{name}</label>
+                <textarea
+                  autoFocus={idx === 0}
+                  value={filling.values[name]}
+                  onChange={(e) => setFilling({ ...filling, values: { ...filling.values, [name]: e.target.value } })}
+                  rows={2}
+                  className={`${inputClass} resize-y`}
+                />
+              </div>
+            ))}
+          </div>
+          <pre className="whitespace-pre-wrap text-xs font-mono bg-slate-50 border border-slate-100 rounded p-2 text-slate-600">
+            {fillTemplate(filling.preset.text, filling.values)}
+          </pre>
+          <div className="flex justify-end">
+            <button
+              onClick={submitFilled}
+              disabled={isLoading || (Object.values(filling.values) as string[]).some(v => !v.trim())}
+              className={`px-3 py-1.5 rounded-lg text-xs font-medium text-white flex items-center gap-1 disabled:opacity-50 ${theme.button}`}
+            >
+              <Send size={12} /> Send
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {visible.map((preset) => (
+          <div
+            key={preset.id}
+            className={`group relative flex flex-col p-5 rounded-xl border transition-all duration-200
+              ${selectedPromptId === preset.id
+                ? theme.presetSelected
+                : 'border-slate-200 bg-white hover:shadow-md'
+              }
+              ${isLoading ? 'opacity-50' : ''}
+            `}
+          >
+            <button
+              onClick={() => handleRun(preset)}
+              disabled={isLoading}
+              className="text-left flex-1 disabled:cursor-not-allowed"
+            >
+              <div className="flex items-center justify-between mb-3">
+                <span className={`p-2 rounded-lg transition-colors
+                  ${selectedPromptId === preset.id
+                    ? theme.presetIconSelected
+                    : `bg-slate-100 text-slate-600 ${theme.presetIconHover}`
+                  }
+                `}>
+                  <PresetIcon name={preset.icon} className="w-5 h-5" />
+                </span>
+                {selectedPromptId === preset.id && isLoading && (
+                  <Loader2 className={`animate-spin ${theme.text}`} size={18} />
+                )}
+              </div>
+              <h3 className="font-semibold text-slate-900 mb-1">{preset.title}</h3>
+              <p className="text-sm text-slate-500 line-clamp-2">{preset.text}</p>
+            </button>
+            <div className="mt-3 flex items-center justify-between gap-2">
+              <div className="flex flex-wrap items-center gap-1 min-w-0">
+                {(preset.provider || preset.model) && (
+                  <span className="text-[10px] font-mono text-slate-500 bg-slate-100 px-1.5 py-0.5 rounded flex items-center gap-1 truncate" title="Pinned target">
+                    <Pin size={9} />
+                    {[preset.provider && getProvider(preset.provider).label, preset.model].filter(Boolean).join(' / ')}
+                  </span>
+                )}
+                {preset.tags?.map(tag => (
+                  <span key={tag} className="text-[10px] text-slate-400 bg-slate-50 border border-slate-100 px-1.5 py-0.5 rounded">{tag}</span>
+                ))}
+              </div>
+              <span className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity shrink-0">
+                <button onClick={() => editPreset(preset)} title="Edit" className="text-slate-400 hover:text-slate-700"><Pencil size={12} /></button>
+                <button onClick={() => deletePreset(preset)} title="Delete" className="text-slate-400 hover:text-red-600"><Trash2 size={12} /></button>
+              </span>
+            </div>
+          </div>
+        ))}
+        {visible.length === 0 && (
+          <p className="text-sm text-slate-400 col-span-full text-center py-6">No presets{activeTag ? ` tagged "${activeTag}"` : ''}.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PromptLibrary;
@@ -0,0 +1,82 @@
+import React from 'react';
+import { HttpExchange } from '../types';
+import CopyButton from './CopyButton';
+
+interface RequestInspectorProps {
+  exchanges: HttpExchange[];
+}
+
+const statusClass = (exchange: HttpExchange) => {
+  if (exchange.status === undefined || exchange.status >= 400) return 'bg-red-900/60 text-red-300';
+  if (exchange.status >= 300) return 'bg-amber-900/60 text-amber-300';
+  return 'bg-green-900/60 text-green-300';
+};
+
+// Pretty-print JSON bodies; anything else is shown as sent
+const formatBody = (body: string) => {
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body;
+  }
+};
+
+/**
+ * The HTTP calls made by the last playground execution. Credentials are redacted by the SDK.
+ */
+const RequestInspector: React.FC<RequestInspectorProps> = ({ exchanges }) => {
+  if (exchanges.length === 0) {
+    return (
+      <div className="h-full flex items-center justify-center text-slate-700 italic select-none">
+        No requests recorded yet.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 text-slate-300">
+      {exchanges.map((exchange, idx) => (
+        <div key={idx} className="space-y-2">
+          <div className="flex items-center gap-2 flex-wrap">
+            <span className="font-bold text-sky-300">{exchange.method}</span>
+            <span className="break-all flex-1 min-w-0">{exchange.url}</span>
+            <CopyButton text={exchange.url} className="text-slate-500 hover:text-slate-200" />
+          </div>
+          <div className="flex items-center gap-2 text-[10px]">
+            <span className={`px-1.5 py-0.5 rounded ${statusClass(exchange)}`}>{exchange.status ?? 'No response'}</span>
+            <span className="text-slate-500">{exchange.durationMs} ms</span>
+            <span className="text-slate-600">{new Date(exchange.at).toLocaleTimeString()}</span>
+          </div>
+          {exchange.error && <p className="text-red-400 whitespace-pre-wrap break-words">{exchange.error}</p>}
+
+          <div>
+            <p className="text-[10px] uppercase tracking-wide text-slate-500 mb-1">Headers</p>
+            <table className="w-full">
+              <tbody>
+                {Object.entries(exchange.headers).map(([name, value]) => (
+                  <tr key={name}>
+                    <td className="pr-3 text-slate-500 align-top whitespace-nowrap">{name}</td>
+                    <td className="break-all">{value}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {exchange.body !== undefined && (
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <p className="text-[10px] uppercase tracking-wide text-slate-500">Body</p>
+                <CopyButton text={exchange.body} className="text-slate-500 hover:text-slate-200" />
+              </div>
+              <pre className="whitespace-pre-wrap break-all text-emerald-300 bg-slate-900 rounded p-2">{formatBody(exchange.body)}</pre>
+            </div>
+          )}
+          {idx < exchanges.length - 1 && <hr className="border-slate-800" />}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default RequestInspector;
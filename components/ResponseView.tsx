@@ -0,0 +1,51 @@
+import React, { useState, useMemo } from 'react';
+import { parseJsonReply } from '../services/markdown';
+import Markdown from './Markdown';
+import JsonTree from './JsonTree';
+import CopyButton from './CopyButton';
+
+interface ResponseViewProps {
+  content: string;
+  /** While tokens arrive the raw text is shown, with a cursor */
+  isStreaming?: boolean;
+  /** Passed to the markdown renderer for plain text runs (e.g. citation marks) */
+  renderText?: (text: string) => React.ReactNode;
+}
+
+/**
+ * A model reply rendered as markdown, or as a JSON tree when the reply is pure JSON,
+ * with a toggle back to the raw text.
+ */
+const ResponseView: React.FC<ResponseViewProps> = ({ content, isStreaming = false, renderText }) => {
+  const [showRaw, setShowRaw] = useState(false);
+  const json = useMemo(() => (isStreaming ? undefined : parseJsonReply(content)), [content, isStreaming]);
+
+  if (isStreaming || !content) {
+    return (
+      <p className="whitespace-pre-wrap leading-relaxed font-mono text-sm">
+        {content}
+        {isStreaming && <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-slate-400 animate-pulse" />}
+      </p>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex justify-end items-center gap-3 mb-1 text-[10px] text-slate-400">
+        <button type="button" onClick={() => setShowRaw(!showRaw)} className="hover:text-slate-700">
+          {showRaw ? (json !== undefined ? 'JSON view' : 'Rendered') : 'Raw'}
+        </button>
+        <CopyButton text={content} className="hover:text-slate-700" />
+      </div>
+      {showRaw ? (
+        <p className="whitespace-pre-wrap leading-relaxed font-mono text-sm">{content}</p>
+      ) : json !== undefined ? (
+        <JsonTree value={json} />
+      ) : (
+        <Markdown content={content} renderText={renderText} />
+      )}
+    </div>
+  );
+};
+
+export default ResponseView;
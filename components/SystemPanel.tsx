@@ -0,0 +1,263 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Server, RefreshCw, Search, Lock, Unlock, Save, HardDriveDownload, Loader2, Cpu, Layers, Database } from 'lucide-react';
+import { AnythingLLMSystemSettings, AnythingLLMWorkspace } from '../types';
+import { AnythingLLMClient } from '../services/anythingllm-sdk';
+import { SETTING_GROUPS, formatSettingValue, groupSettings, isEditableSetting, isSecretSetting, summarizeSystem } from '../services/system-settings';
+
+interface SystemPanelProps {
+  client: AnythingLLMClient;
+  workspaces: AnythingLLMWorkspace[];
+}
+
+const inputClass = 'px-2 py-1 border border-slate-300 rounded text-xs focus:outline-blue-500 bg-white';
+
+const SummaryCard: React.FC<{ icon: React.ReactNode; label: string; value: string | null; detail?: string | null }> = ({ icon, label, value, detail }) => (
+  <div className="flex-1 min-w-[160px] p-3 rounded-lg border border-slate-200 bg-slate-50">
+    <p className="text-[10px] uppercase tracking-wide text-slate-500 flex items-center gap-1">{icon}{label}</p>
+    <p className="text-sm font-semibold text-slate-800 mt-1">{value || 'Not configured'}</p>
+    {detail && <p className="text-xs text-slate-500 font-mono truncate" title={detail}>{detail}</p>}
+  </div>
+);
+
+/**
+ * Read-mostly view of the AnythingLLM instance behind RAG answers: active LLM,
+ * embedder and vector database, documents per workspace, and every system setting.
+ * Settings can only be changed after unlocking editing.
+ */
+const SystemPanel: React.FC<SystemPanelProps> = ({ client, workspaces }) => {
+  const [settings, setSettings] = useState<AnythingLLMSystemSettings | null>(null);
+  const [totalVectors, setTotalVectors] = useState<number | null>(null);
+  const [workspaceDocuments, setWorkspaceDocuments] = useState<Record<string, number>>({});
+  const [workspaceDocumentErrors, setWorkspaceDocumentErrors] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [message, setMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null);
+  const [filter, setFilter] = useState('');
+  const [isUnlocked, setIsUnlocked] = useState(false);
+  const [edits, setEdits] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  // Bumped to abandon a running per-workspace count loop
+  const documentRunRef = useRef(0);
+
+  const loadSettings = async () => {
+    setIsLoading(true);
+    setMessage(null);
+    try {
+      const [nextSettings, total] = await Promise.all([client.getSystemSettings(), client.getVectorCount()]);
+      setSettings(nextSettings);
+      setTotalVectors(total);
+    } catch (e: any) {
+      setMessage({ type: 'error', text: e.message });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // One request per workspace, in sequence; stop when a newer run starts. The Developer API has
+  // no per-workspace vector count, so embedded documents are counted instead
+  const loadWorkspaceDocuments = async () => {
+    const run = ++documentRunRef.current;
+    const counts: Record<string, number> = {};
+    const errors: Record<string, string> = {};
+    setWorkspaceDocuments({});
+    setWorkspaceDocumentErrors({});
+    for (const ws of workspaces) {
+      try {
+        const workspace = await client.getWorkspace(ws.slug);
+        if (run !== documentRunRef.current) return;
+        counts[ws.slug] = workspace?.documents?.length ?? 0;
+        setWorkspaceDocuments({ ...counts });
+      } catch (e: any) {
+        if (run !== documentRunRef.current) return;
+        errors[ws.slug] = e.message;
+        setWorkspaceDocumentErrors({ ...errors });
+      }
+    }
+  };
+
+  useEffect(() => {
+    loadSettings();
+  }, [client]);
+
+  useEffect(() => {
+    loadWorkspaceDocuments();
+    return () => { documentRunRef.current++; };
+  }, [client, workspaces]);
+
+  const summary = useMemo(() => (settings ? summarizeSystem(settings) : null), [settings]);
+  const groups = useMemo(() => (settings ? groupSettings(settings, filter) : null), [settings, filter]);
+  const maxDocuments = Math.max(1, ...Object.values(workspaceDocuments) as number[]);
+  // Secrets count once something is typed; other settings once they differ from the server value
+  const changedKeys = Object.keys(edits).filter(key =>
+    isSecretSetting(key) ? edits[key] !== '' : edits[key] !== String(settings?.[key] ?? '')
+  );
+
+  const unlock = () => {
+    if (!window.confirm('Unlock editing? Changes apply to the whole AnythingLLM instance and affect every workspace and user.')) return;
+    setIsUnlocked(true);
+  };
+
+  const lock = () => {
+    if (changedKeys.length && !window.confirm('Discard unsaved changes?')) return;
+    setEdits({});
+    setIsUnlocked(false);
+  };
+
+  const applyChanges = async () => {
+    const updates = Object.fromEntries(changedKeys.map(key => [key, edits[key]]));
+    const list = changedKeys.map(key => (isSecretSetting(key) ? `${key} = (new secret)` : `${key} = ${edits[key] || '(empty)'}`)).join('\n');
+    if (!window.confirm(`Apply ${changedKeys.length} change${changedKeys.length === 1 ? '' : 's'}?\n\n${list}`)) return;
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      await client.updateSystemEnv(updates);
+      setEdits({});
+      setMessage({ type: 'success', text: `Updated ${changedKeys.join(', ')}.` });
+      await loadSettings();
+    } catch (e: any) {
+      setMessage({ type: 'error', text: e.message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const dumpEnv = async () => {
+    if (!window.confirm("Write the current settings to the server's .env file?")) return;
+    try {
+      await client.dumpSystemEnv();
+      setMessage({ type: 'success', text: 'Settings written to the server .env file.' });
+    } catch (e: any) {
+      setMessage({ type: 'error', text: e.message });
+    }
+  };
+
+  const editValue = (key: string, value: AnythingLLMSystemSettings[string]) =>
+    key in edits ? edits[key] : isSecretSetting(key) ? '' : value === null ? '' : String(value);
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden animate-in fade-in slide-in-from-bottom-4">
+      <div className="p-4 border-b border-slate-100 bg-slate-50/50 flex justify-between items-center gap-2 flex-wrap">
+        <h3 className="text-sm font-semibold text-slate-800 flex items-center">
+          <Server size={16} className="mr-2 text-blue-500" />
+          System
+        </h3>
+        <div className="flex items-center gap-2">
+          {isUnlocked ? (
+            <>
+              <button onClick={dumpEnv} title="Write settings to the server .env file" className="px-2 py-1 rounded text-xs border border-slate-300 text-slate-600 hover:bg-slate-50 flex items-center gap-1">
+                <HardDriveDownload size={12} /> Dump .env
+              </button>
+              <button
+                onClick={applyChanges}
+                disabled={isSaving || changedKeys.length === 0}
+                className="px-2 py-1 rounded text-xs bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-40 flex items-center gap-1"
+              >
+                {isSaving ? <Loader2 size={12} className="animate-spin" /> : <Save size={12} />} Apply{changedKeys.length ? ` (${changedKeys.length})` : ''}
+              </button>
+              <button onClick={lock} className="px-2 py-1 rounded text-xs border border-amber-300 text-amber-700 bg-amber-50 hover:bg-amber-100 flex items-center gap-1">
+                <Unlock size={12} /> Lock
+              </button>
+            </>
+          ) : (
+            <button onClick={unlock} disabled={!settings} className="px-2 py-1 rounded text-xs border border-slate-300 text-slate-600 hover:bg-slate-50 disabled:opacity-40 flex items-center gap-1">
+              <Lock size={12} /> Unlock editing
+            </button>
+          )}
+          <button onClick={() => { loadSettings(); loadWorkspaceDocuments(); }} title="Refresh" className="text-slate-400 hover:text-slate-700">
+            <RefreshCw size={14} className={isLoading ? 'animate-spin' : ''} />
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <p className={`px-4 py-2 text-xs border-b border-slate-100 whitespace-pre-wrap ${message.type === 'error' ? 'text-red-600' : 'text-green-600'}`}>{message.text}</p>
+      )}
+
+      {summary && (
+        <div className="p-4 flex flex-wrap gap-3 border-b border-slate-100">
+          <SummaryCard icon={<Cpu size={10} />} label="LLM" value={summary.llmProvider} detail={summary.llmModel} />
+          <SummaryCard icon={<Layers size={10} />} label="Embedder" value={summary.embeddingEngine} detail={summary.embeddingModel} />
+          <SummaryCard
+            icon={<Database size={10} />}
+            label="Vector database"
+            value={summary.vectorDb}
+            detail={totalVectors !== null ? `${totalVectors.toLocaleString()} vectors` : null}
+          />
+        </div>
+      )}
+
+      {workspaces.length > 0 && (
+        <div className="p-4 border-b border-slate-100">
+          <h4 className="text-xs font-semibold text-slate-600 uppercase tracking-wide mb-2">Documents per workspace</h4>
+          <table className="w-full text-xs">
+            <tbody>
+              {workspaces.map(ws => {
+                const count = workspaceDocuments[ws.slug];
+                const error = workspaceDocumentErrors[ws.slug];
+                return (
+                  <tr key={ws.slug}>
+                    <td className="py-1 pr-3 text-slate-700 whitespace-nowrap">{ws.name} <span className="text-slate-400 font-mono">({ws.slug})</span></td>
+                    <td className="py-1 w-full">
+                      <div className="h-2 rounded bg-slate-100 overflow-hidden">
+                        {count !== undefined && <div className="h-full bg-blue-400" style={{ width: `${(count / maxDocuments) * 100}%` }} />}
+                      </div>
+                    </td>
+                    <td className="py-1 pl-3 text-right font-mono text-slate-600 whitespace-nowrap">
+                      {error ? <span className="text-red-600" title={error}>failed</span> : count === undefined ? '…' : count.toLocaleString()}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {groups && (
+        <div className="p-4 space-y-3">
+          <div className="relative">
+            <Search size={12} className="absolute left-2 top-1/2 -translate-y-1/2 text-slate-400" />
+            <input
+              type="text"
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder="Filter settings…"
+              className={`${inputClass} w-full pl-6`}
+            />
+          </div>
+          <div className="max-h-[420px] overflow-auto space-y-3">
+            {SETTING_GROUPS.filter(group => groups[group].length > 0).map(group => (
+              <div key={group}>
+                <h4 className="text-xs font-semibold text-slate-600 uppercase tracking-wide mb-1">{group}</h4>
+                <table className="w-full text-xs">
+                  <tbody>
+                    {groups[group].map(([key, value]) => (
+                      <tr key={key} className="border-t border-slate-100">
+                        <td className="py-1 pr-3 font-mono text-slate-500 whitespace-nowrap align-top">{key}</td>
+                        <td className="py-1 w-full break-all">
+                          {isUnlocked && isEditableSetting(key, value) ? (
+                            <input
+                              type={isSecretSetting(key) ? 'password' : 'text'}
+                              value={editValue(key, value)}
+                              onChange={(e) => setEdits(prev => ({ ...prev, [key]: e.target.value }))}
+                              placeholder={isSecretSetting(key) ? (value ? 'Unchanged' : 'Not set') : undefined}
+                              autoComplete="off"
+                              className={`${inputClass} w-full font-mono ${changedKeys.includes(key) ? 'border-amber-400 bg-amber-50' : ''}`}
+                            />
+                          ) : (
+                            <span className={isSecretSetting(key) ? 'text-slate-400 italic' : 'text-slate-700 font-mono'}>{formatSettingValue(key, value)}</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SystemPanel;
@@ -0,0 +1,275 @@
+import React, { useState, useEffect } from 'react';
+import { SlidersHorizontal, RefreshCw, Loader2, Save, Eye, Undo2 } from 'lucide-react';
+import { AnythingLLMWorkspace, AnythingLLMWorkspaceSettings } from '../types';
+import { AnythingLLMClient } from '../services/anythingllm-sdk';
+
+interface WorkspaceSettingsPanelProps {
+  client: AnythingLLMClient;
+  /** Workspace being edited */
+  workspaceSlug: string;
+  /** Called after a successful save, e.g. to refresh the workspace list when the name changed */
+  onSaved?: (workspace: AnythingLLMWorkspace) => void;
+}
+
+type SettingKey = keyof AnythingLLMWorkspaceSettings;
+
+interface SettingField {
+  key: SettingKey;
+  label: string;
+  type: 'text' | 'textarea' | 'number' | 'select';
+  help?: string;
+  min?: number;
+  max?: number;
+  step?: number;
+  options?: { value: string; label: string }[];
+}
+
+const FIELDS: SettingField[] = [
+  { key: 'name', label: 'Name', type: 'text' },
+  { key: 'chatMode', label: 'Chat Mode', type: 'select', help: 'Query mode only answers from embedded documents.',
+    options: [{ value: 'chat', label: 'Chat' }, { value: 'query', label: 'Query' }] },
+  { key: 'openAiTemp', label: 'Temperature', type: 'number', min: 0, max: 2, step: 0.1 },
+  { key: 'openAiHistory', label: 'Chat History', type: 'number', min: 0, step: 1, help: 'Previous messages kept in context.' },
+  { key: 'similarityThreshold', label: 'Similarity Threshold', type: 'select', help: 'Chunks below this score are not retrieved.',
+    options: [
+      { value: '0', label: 'No restriction' },
+      { value: '0.25', label: 'Low (≥ 0.25)' },
+      { value: '0.5', label: 'Medium (≥ 0.50)' },
+      { value: '0.75', label: 'High (≥ 0.75)' }
+    ] },
+  { key: 'topN', label: 'Max Context Snippets (topN)', type: 'number', min: 1, max: 200, step: 1 },
+  { key: 'chatProvider', label: 'LLM Provider', type: 'text', help: 'e.g. ollama, openai, lmstudio. Empty uses the system default.' },
+  { key: 'chatModel', label: 'LLM Model', type: 'text', help: 'Model for the provider above. Empty uses the provider default.' },
+  { key: 'openAiPrompt', label: 'System Prompt', type: 'textarea' },
+  { key: 'queryRefusalResponse', label: 'Query Refusal Message', type: 'textarea', help: 'Sent in query mode when no relevant context is found.' }
+];
+
+const NUMERIC_KEYS: SettingKey[] = ['openAiTemp', 'openAiHistory', 'similarityThreshold', 'topN'];
+
+// Form values are strings; empty text fields are sent as null so the server falls back to its defaults
+const toSettings = (form: Record<SettingKey, string>): AnythingLLMWorkspaceSettings => {
+  const settings: Record<string, unknown> = {};
+  FIELDS.forEach(({ key }) => {
+    const value = form[key];
+    if (NUMERIC_KEYS.includes(key)) settings[key] = value === '' ? null : Number(value);
+    else settings[key] = value === '' && key !== 'name' ? null : value;
+  });
+  return settings as AnythingLLMWorkspaceSettings;
+};
+
+const toForm = (workspace: AnythingLLMWorkspace): Record<SettingKey, string> => {
+  const form = {} as Record<SettingKey, string>;
+  FIELDS.forEach(({ key }) => {
+    const value = workspace[key];
+    form[key] = value === null || value === undefined ? '' : String(value);
+  });
+  return form;
+};
+
+/**
+ * Edit an AnythingLLM workspace's prompt, retrieval and LLM settings.
+ * Changes are reviewed as a field-by-field diff before being saved.
+ */
+const WorkspaceSettingsPanel: React.FC<WorkspaceSettingsPanelProps> = ({ client, workspaceSlug, onSaved }) => {
+  const [original, setOriginal] = useState<Record<SettingKey, string> | null>(null);
+  const [form, setForm] = useState<Record<SettingKey, string> | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showDiff, setShowDiff] = useState(false);
+  const [message, setMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null);
+
+  const load = async () => {
+    if (!workspaceSlug) return;
+    setIsLoading(true);
+    setMessage(null);
+    setShowDiff(false);
+    try {
+      const workspace = await client.getWorkspace(workspaceSlug);
+      const values = toForm(workspace);
+      setOriginal(values);
+      setForm(values);
+    } catch (e: any) {
+      setOriginal(null);
+      setForm(null);
+      setMessage({ type: 'error', text: e.message });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [client, workspaceSlug]);
+
+  const changes = original && form
+    ? FIELDS.filter(f => original[f.key] !== form[f.key])
+    : [];
+
+  const updateField = (key: SettingKey, value: string) => {
+    setForm(prev => (prev ? { ...prev, [key]: value } : prev));
+    setMessage(null);
+  };
+
+  const handleSave = async () => {
+    if (!form || changes.length === 0) return;
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      // Only send the fields that changed
+      const all = toSettings(form);
+      const patch: AnythingLLMWorkspaceSettings = Object.fromEntries(changes.map(({ key }) => [key, all[key]]));
+      const workspace = await client.updateWorkspace(workspaceSlug, patch);
+      setMessage({ type: 'success', text: `Saved ${changes.length} setting(s).` });
+      setShowDiff(false);
+      await load();
+      if (workspace) onSaved?.(workspace);
+    } catch (e: any) {
+      setMessage({ type: 'error', text: e.message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-1.5 border border-slate-300 rounded text-sm focus:outline-blue-500 bg-white';
+
+  const renderInput = (field: SettingField) => {
+    const value = form?.[field.key] ?? '';
+    if (field.type === 'textarea') {
+      return (
+        <textarea
+          value={value}
+          onChange={(e) => updateField(field.key, e.target.value)}
+          rows={4}
+          className={`${inputClass} font-mono text-xs resize-y`}
+        />
+      );
+    }
+    if (field.type === 'select') {
+      // Keep the server's value selectable when it isn't one of the presets, so saving doesn't replace it
+      const serverValue = original?.[field.key] ?? '';
+      const extra = [...new Set([serverValue, value])].filter(v => !field.options?.some(o => o.value === v));
+      return (
+        <select value={value} onChange={(e) => updateField(field.key, e.target.value)} className={inputClass}>
+          {extra.map(v => <option key={v} value={v}>{v === serverValue ? `Current (${v || '—'})` : v || '—'}</option>)}
+          {field.options?.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+      );
+    }
+    return (
+      <input
+        type={field.type}
+        value={value}
+        min={field.min}
+        max={field.max}
+        step={field.step}
+        onChange={(e) => updateField(field.key, e.target.value)}
+        className={inputClass}
+      />
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden animate-in fade-in slide-in-from-bottom-4">
+      <div className="p-4 border-b border-slate-100 bg-slate-50/50 flex justify-between items-center">
+        <h3 className="text-sm font-semibold text-slate-800 flex items-center">
+          <SlidersHorizontal size={16} className="mr-2 text-blue-500" />
+          Workspace Settings
+          {workspaceSlug && <span className="ml-2 text-xs font-normal text-slate-400 font-mono">{workspaceSlug}</span>}
+        </h3>
+        <button onClick={load} title="Reload" className="text-slate-400 hover:text-slate-700">
+          <RefreshCw size={14} className={isLoading ? 'animate-spin' : ''} />
+        </button>
+      </div>
+
+      {!workspaceSlug ? (
+        <p className="p-6 text-center text-xs text-slate-400">Select a workspace to edit its settings.</p>
+      ) : !form ? (
+        <div className="p-6 text-center text-xs text-slate-400">
+          {isLoading ? <Loader2 size={16} className="animate-spin mx-auto" /> : 'Workspace settings unavailable.'}
+        </div>
+      ) : (
+        <div className="p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-3">
+            {FIELDS.filter(f => f.type !== 'textarea').map(field => (
+              <div key={field.key}>
+                <label className={`text-xs font-medium mb-1 block ${original?.[field.key] !== form[field.key] ? 'text-blue-700' : 'text-slate-700'}`}>
+                  {field.label}
+                </label>
+                {renderInput(field)}
+                {field.help && <p className="text-[10px] text-slate-400 mt-1">{field.help}</p>}
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-3">
+            {FIELDS.filter(f => f.type === 'textarea').map(field => (
+              <div key={field.key}>
+                <label className={`text-xs font-medium mb-1 block ${original?.[field.key] !== form[field.key] ? 'text-blue-700' : 'text-slate-700'}`}>
+                  {field.label}
+                </label>
+                {renderInput(field)}
+                {field.help && <p className="text-[10px] text-slate-400 mt-1">{field.help}</p>}
+              </div>
+            ))}
+          </div>
+
+          {showDiff && changes.length > 0 && (
+            <div className="border border-slate-200 rounded-lg overflow-hidden">
+              <div className="px-3 py-2 bg-slate-50 text-xs font-medium text-slate-600 border-b border-slate-200">
+                {changes.length} change(s) to save
+              </div>
+              <table className="w-full text-xs">
+                <tbody className="divide-y divide-slate-100">
+                  {changes.map(field => (
+                    <tr key={field.key} className="align-top">
+                      <td className="px-3 py-2 font-medium text-slate-700 w-40">{field.label}</td>
+                      <td className="px-3 py-2">
+                        <pre className="whitespace-pre-wrap font-mono bg-red-50 text-red-700 rounded px-2 py-1 line-through decoration-red-300">{original?.[field.key] || '(empty)'}</pre>
+                      </td>
+                      <td className="px-3 py-2">
+                        <pre className="whitespace-pre-wrap font-mono bg-green-50 text-green-700 rounded px-2 py-1">{form[field.key] || '(empty)'}</pre>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between gap-2">
+            <p className={`text-xs ${message?.type === 'error' ? 'text-red-600' : message ? 'text-green-600' : 'text-slate-400'}`}>
+              {message?.text || (changes.length ? `${changes.length} unsaved change(s)` : 'No changes')}
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={() => { setForm(original); setShowDiff(false); }}
+                disabled={changes.length === 0 || isSaving}
+                className="px-3 py-1.5 rounded-lg text-xs font-medium border border-slate-300 text-slate-600 hover:bg-slate-50 disabled:opacity-50 flex items-center gap-1"
+              >
+                <Undo2 size={12} /> Discard
+              </button>
+              {!showDiff ? (
+                <button
+                  onClick={() => setShowDiff(true)}
+                  disabled={changes.length === 0}
+                  className="px-3 py-1.5 rounded-lg text-xs font-medium bg-slate-800 text-white hover:bg-slate-900 disabled:opacity-50 flex items-center gap-1"
+                >
+                  <Eye size={12} /> Review Changes
+                </button>
+              ) : (
+                <button
+                  onClick={handleSave}
+                  disabled={changes.length === 0 || isSaving}
+                  className="px-3 py-1.5 rounded-lg text-xs font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 flex items-center gap-1"
+                >
+                  {isSaving ? <Loader2 size={12} className="animate-spin" /> : <Save size={12} />} Save
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WorkspaceSettingsPanel;
@@ -0,0 +1,150 @@
+import React, { useState, useEffect } from 'react';
+import { GitBranch, Plus, Pencil, Trash2, Check, X, Loader2 } from 'lucide-react';
+import { AnythingLLMThread } from '../types';
+import { AnythingLLMClient } from '../services/anythingllm-sdk';
+
+interface WorkspaceThreadsProps {
+  client: AnythingLLMClient;
+  workspaceSlug: string;
+  /** Thread the chat is sending to; null for the workspace's default thread */
+  activeThreadSlug: string | null;
+  onSelectThread: (threadSlug: string | null) => void;
+  onThreadDeleted: (threadSlug: string) => void;
+}
+
+/**
+ * Thread list for the selected workspace: pick, create, rename and delete threads.
+ * Each thread keeps its own server-side history.
+ */
+const WorkspaceThreads: React.FC<WorkspaceThreadsProps> = ({
+  client,
+  workspaceSlug,
+  activeThreadSlug,
+  onSelectThread,
+  onThreadDeleted
+}) => {
+  const [threads, setThreads] = useState<AnythingLLMThread[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [newName, setNewName] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ slug: string; name: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    setIsLoading(true);
+    try {
+      const workspace = await client.getWorkspace(workspaceSlug);
+      setThreads(workspace?.threads || []);
+      setError(null);
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, [client, workspaceSlug]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+      await refresh();
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  const handleCreate = () => run(async () => {
+    const thread = await client.createThread(workspaceSlug, newName?.trim() || undefined);
+    setNewName(null);
+    if (thread?.slug) onSelectThread(thread.slug);
+  });
+
+  const handleRename = () => {
+    if (!editing || !editing.name.trim()) return;
+    run(async () => {
+      await client.updateThread(workspaceSlug, editing.slug, editing.name.trim());
+      setEditing(null);
+    });
+  };
+
+  const handleDelete = (thread: AnythingLLMThread) => {
+    if (!window.confirm(`Delete thread "${thread.name}" and its history?`)) return;
+    run(async () => {
+      await client.deleteThread(workspaceSlug, thread.slug);
+      onThreadDeleted(thread.slug);
+    });
+  };
+
+  const itemClass = (active: boolean) =>
+    `w-full text-left px-2 py-1 rounded text-[11px] transition-colors flex items-center gap-1 ${
+      active ? 'bg-blue-100 text-blue-800 font-medium' : 'text-slate-500 hover:bg-slate-50'
+    }`;
+
+  return (
+    <div className="ml-3 pl-2 border-l border-slate-200 mt-1 mb-2 space-y-0.5">
+      <button onClick={() => onSelectThread(null)} className={itemClass(activeThreadSlug === null)}>
+        <GitBranch size={10} className="shrink-0" />
+        <span className="truncate">default</span>
+      </button>
+
+      {threads.map(thread => (
+        <div key={thread.slug} className="group flex items-center">
+          {editing?.slug === thread.slug ? (
+            <div className="flex-1 flex items-center gap-1">
+              <input
+                autoFocus
+                value={editing.name}
+                onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleRename(); if (e.key === 'Escape') setEditing(null); }}
+                className="flex-1 min-w-0 px-1 py-0.5 border border-slate-300 rounded text-[11px]"
+              />
+              <button onClick={handleRename} title="Save" className="text-green-600"><Check size={12} /></button>
+              <button onClick={() => setEditing(null)} title="Cancel" className="text-slate-400"><X size={12} /></button>
+            </div>
+          ) : (
+            <>
+              <button onClick={() => onSelectThread(thread.slug)} className={itemClass(activeThreadSlug === thread.slug)}>
+                <GitBranch size={10} className="shrink-0" />
+                <span className="truncate" title={thread.slug}>{thread.name}</span>
+              </button>
+              <span className="hidden group-hover:flex items-center gap-1 ml-1 shrink-0">
+                <button onClick={() => setEditing({ slug: thread.slug, name: thread.name })} title="Rename" className="text-slate-400 hover:text-slate-700">
+                  <Pencil size={10} />
+                </button>
+                <button onClick={() => handleDelete(thread)} title="Delete" className="text-slate-400 hover:text-red-600">
+                  <Trash2 size={10} />
+                </button>
+              </span>
+            </>
+          )}
+        </div>
+      ))}
+
+      {newName !== null ? (
+        <div className="flex items-center gap-1">
+          <input
+            autoFocus
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleCreate(); if (e.key === 'Escape') setNewName(null); }}
+            placeholder="Thread name"
+            className="flex-1 min-w-0 px-1 py-0.5 border border-slate-300 rounded text-[11px]"
+          />
+          <button onClick={handleCreate} title="Create" className="text-green-600"><Check size={12} /></button>
+          <button onClick={() => setNewName(null)} title="Cancel" className="text-slate-400"><X size={12} /></button>
+        </div>
+      ) : (
+        <button onClick={() => setNewName('')} className="px-2 py-1 text-[11px] text-blue-600 hover:underline flex items-center gap-1">
+          {isLoading ? <Loader2 size={10} className="animate-spin" /> : <Plus size={10} />} New thread
+        </button>
+      )}
+
+      {error && <p className="px-2 text-[10px] text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default WorkspaceThreads;
@@ -1,12 +1,45 @@
-import { PromptPreset, LLMProvider } from './types';
+import { PromptPreset, LLMProvider, RequestPolicy } from './types';
 
 export const DEFAULT_PROVIDER: LLMProvider = 'anythingllm';
 export const DEFAULT_HOST = 'http://localhost';
 export const DEFAULT_OLLAMA_PORT = '11434';
 export const DEFAULT_ANYTHINGLLM_PORT = '3001';
+// LM Studio's default; llama.cpp server uses 8080 and vLLM 8000
+export const DEFAULT_OPENAI_PORT = '1234';
 // Default testing values
 export const DEFAULT_MODEL = 'mini'; 
-export const DEFAULT_API_KEY = 'FNSXGP0-ABZMZRW-HNRGGHG-NXA90ZQ';
+// API keys are never bundled; save them in a connection profile instead
+export const DEFAULT_API_KEY = '';
+
+// Generous timeout: non-streaming replies only start once generation has finished
+export const DEFAULT_REQUEST_POLICY: RequestPolicy = {
+  timeoutMs: 120_000,
+  maxRetries: 2,
+  retryBaseDelayMs: 500
+};
+
+// Compare mode columns
+export const MIN_COMPARE_TARGETS = 2;
+export const MAX_COMPARE_TARGETS = 4;
+
+// Batch runner: requests in flight at once
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+export const MAX_BATCH_CONCURRENCY = 8;
+
+// Eval harness: llm-judge pass mark out of 10, and runs kept per suite
+export const DEFAULT_JUDGE_THRESHOLD = 7;
+export const MAX_EVAL_RUNS = 10;
+
+// Session telemetry: responses kept for the metrics dashboard
+export const MAX_METRIC_SAMPLES = 500;
+
+// Image attachments: largest accepted file and images per message
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+export const MAX_IMAGES_PER_MESSAGE = 4;
+
+// API Playground: executed calls kept, and result characters stored per call
+export const MAX_PLAYGROUND_HISTORY = 50;
+export const MAX_STORED_RESULT_CHARS = 20000;
 
 export const PROMPT_PRESETS: PromptPreset[] = [
   {
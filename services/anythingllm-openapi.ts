@@ -0,0 +1,505 @@
+import { OpenApiDocument, OpenApiOperation, OpenApiParameter } from './openapi';
+
+/**
+ * Bundled copy of AnythingLLM's Developer API spec (`/api/v1`), used for the API
+ * Playground until the running server's spec is loaded or imported. It follows the
+ * layout of the server's own swagger definitions: no operationIds, and request
+ * bodies described by examples.
+ */
+
+const pathParam = (name: string, description: string): OpenApiParameter =>
+  ({ name, in: 'path', required: true, description, schema: { type: 'string' } });
+
+const queryParam = (name: string, description: string, type = 'string'): OpenApiParameter =>
+  ({ name, in: 'query', required: false, description, schema: { type } });
+
+const SLUG = pathParam('slug', 'Unique slug of the workspace');
+const THREAD_SLUG = pathParam('threadSlug', 'Unique slug of the thread');
+const EMBED_UUID = pathParam('embedUuid', 'UUID of the embed');
+
+const jsonBody = (example: unknown): OpenApiOperation['requestBody'] =>
+  ({ required: true, content: { 'application/json': { example } } });
+
+const fileBody = (extra: Record<string, { type: string; description?: string }> = {}): OpenApiOperation['requestBody'] => ({
+  required: true,
+  content: {
+    'multipart/form-data': {
+      schema: { type: 'object', required: ['file'], properties: { file: { type: 'string', format: 'binary' }, ...extra } }
+    }
+  }
+});
+
+const ok = (example: unknown): OpenApiOperation['responses'] =>
+  ({ '200': { description: 'OK', content: { 'application/json': { example } } } });
+
+const op = (tag: string, summary: string, extra: Partial<OpenApiOperation> = {}): OpenApiOperation =>
+  ({ tags: [tag], summary, ...extra });
+
+// Example payloads shared by several operations
+const WORKSPACE = {
+  id: 79,
+  name: 'Sample workspace',
+  slug: 'sample-workspace',
+  createdAt: '2023-08-17 00:45:03',
+  openAiTemp: null,
+  lastUpdatedAt: '2023-08-17 00:45:03',
+  openAiHistory: 20,
+  openAiPrompt: null,
+  similarityThreshold: 0.25,
+  chatMode: 'chat',
+  topN: 4
+};
+
+const SOURCE = { title: 'anythingllm.txt', chunk: 'This is a context chunk used in the answer of the prompt message.' };
+
+const CHAT_REQUEST = {
+  message: 'What is AnythingLLM?',
+  mode: 'query | chat',
+  sessionId: 'identifier-to-partition-chats-by-external-id',
+  attachments: [{ name: 'image.png', mime: 'image/png', contentString: 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAA...' }],
+  reset: false
+};
+
+const CHAT_RESPONSE = {
+  id: 'chat-uuid',
+  type: 'abort | textResponse',
+  textResponse: 'Response to your query',
+  sources: [SOURCE],
+  close: true,
+  error: 'null | text string of the failure mode.'
+};
+
+const DOCUMENT = {
+  id: 'c530dbe6-bff1-4b9e-b87f-710d539d20bc',
+  url: 'file://useful-document.txt',
+  title: 'useful-document.txt',
+  docAuthor: 'no author found',
+  description: 'No description found.',
+  docSource: 'my-local-file',
+  chunkSource: 'useful-document.txt',
+  published: '1/16/2024, 3:07:00 PM',
+  wordCount: 26,
+  token_count_estimate: 37,
+  location: 'custom-documents/useful-document.txt-c530dbe6-bff1-4b9e-b87f-710d539d20bc.json'
+};
+
+const USER = { id: 1, username: 'john_doe', role: 'admin' };
+
+const INVITE = { id: 1, status: 'pending', code: 'abc-123', claimedBy: null };
+
+const EMBED = {
+  id: 1,
+  uuid: 'embed-uuid-1',
+  enabled: true,
+  chat_mode: 'query',
+  createdAt: '2023-04-01T12:00:00Z',
+  workspace: { id: 1, name: 'Workspace 1' },
+  chat_count: 10
+};
+
+export const ANYTHINGLLM_OPENAPI_SPEC: OpenApiDocument = {
+  openapi: '3.0.0',
+  info: { title: 'AnythingLLM Developer API', version: '1.0.0' },
+  servers: [{ url: '/api' }],
+  paths: {
+    // --- Authentication ---
+    '/v1/auth': {
+      get: op('Authentication', 'Verify the attached Authentication header contains a valid API token.', {
+        responses: ok({ authenticated: true })
+      })
+    },
+
+    // --- Admin ---
+    '/v1/admin/is-multi-user-mode': {
+      get: op('Admin', 'Check to see if the instance is in multi-user-mode first. Methods are disabled until multi user mode is enabled via the UI.', {
+        responses: ok({ isMultiUser: true })
+      })
+    },
+    '/v1/admin/users': {
+      get: op('Admin', 'List all users in the instance. Methods are disabled until multi user mode is enabled via the UI.', {
+        responses: ok({ users: [USER] })
+      })
+    },
+    '/v1/admin/users/new': {
+      post: op('Admin', 'Create a new user with username and password. Methods are disabled until multi user mode is enabled via the UI.', {
+        requestBody: jsonBody({ username: 'sample-sam', password: 'hunter2', role: 'default | admin' }),
+        responses: ok({ user: { id: 1, username: 'sample-sam', role: 'default' }, error: null })
+      })
+    },
+    '/v1/admin/users/{id}': {
+      parameters: [pathParam('id', 'id of the user in the database')],
+      post: op('Admin', 'Update existing user settings. Methods are disabled until multi user mode is enabled via the UI.', {
+        requestBody: jsonBody({ username: 'sample-sam', password: 'hunter2', role: 'default | admin', suspended: 0 }),
+        responses: ok({ success: true, error: null })
+      }),
+      delete: op('Admin', 'Delete existing user by id. Methods are disabled until multi user mode is enabled via the UI.', {
+        responses: ok({ success: true, error: null })
+      })
+    },
+    '/v1/admin/invites': {
+      get: op('Admin', 'List all existing invitations to instance regardless of status. Methods are disabled until multi user mode is enabled via the UI.', {
+        responses: ok({ invites: [INVITE] })
+      })
+    },
+    '/v1/admin/invite/new': {
+      post: op('Admin', 'Create a new invite code for someone to use to register with instance. Methods are disabled until multi user mode is enabled via the UI.', {
+        requestBody: jsonBody({ workspaceIds: [1, 2, 45] }),
+        responses: ok({ invite: INVITE, error: null })
+      })
+    },
+    '/v1/admin/invite/{id}': {
+      parameters: [pathParam('id', 'id of the invite in the database')],
+      delete: op('Admin', 'Deactivates (soft-delete) invite by id. Methods are disabled until multi user mode is enabled via the UI.', {
+        responses: ok({ success: true, error: null })
+      })
+    },
+    '/v1/admin/workspaces/{workspaceId}/users': {
+      parameters: [pathParam('workspaceId', 'id of the workspace')],
+      get: op('Admin', 'Retrieve a list of users with permissions to access the specified workspace.', {
+        responses: ok({ users: [{ userId: 1, role: 'admin' }] })
+      })
+    },
+    '/v1/admin/workspaces/{workspaceId}/update-users': {
+      parameters: [pathParam('workspaceId', 'id of the workspace in the database')],
+      post: op('Admin', 'Overwrite workspace permissions to only be accessible by the given user ids and admins.', {
+        deprecated: true,
+        requestBody: jsonBody({ userIds: [1, 2, 4, 12] }),
+        responses: ok({ success: true, error: null })
+      })
+    },
+    '/v1/admin/workspaces/{workspaceSlug}/manage-users': {
+      parameters: [pathParam('workspaceSlug', 'slug of the workspace in the database')],
+      post: op('Admin', 'Set workspace permissions to be accessible by the given user ids and admins.', {
+        requestBody: jsonBody({ userIds: [1, 2, 4, 12], reset: false }),
+        responses: ok({ success: true, error: null, users: [{ userId: 1, username: 'main-admin', role: 'admin' }] })
+      })
+    },
+    '/v1/admin/workspace-chats': {
+      post: op('Admin', 'All chats in the system ordered by most recent.', {
+        requestBody: jsonBody({ offset: 2 }),
+        responses: ok({ success: true, error: null })
+      })
+    },
+    '/v1/admin/preferences': {
+      post: op('Admin', 'Update multi-user preferences for instance.', {
+        requestBody: jsonBody({ support_email: 'support@example.com' }),
+        responses: ok({ success: true, error: null })
+      })
+    },
+
+    // --- Documents ---
+    '/v1/document/upload': {
+      post: op('Documents', 'Upload a new file to AnythingLLM to be parsed and prepared for embedding.', {
+        requestBody: fileBody({ addToWorkspaces: { type: 'string', description: 'comma-separated workspace slugs to embed the document into' } }),
+        responses: ok({ success: true, error: null, documents: [DOCUMENT] })
+      })
+    },
+    '/v1/document/upload/{folderName}': {
+      parameters: [pathParam('folderName', 'Target folder path (defaults to "custom-documents")')],
+      post: op('Documents', 'Upload a new file to a specific folder in AnythingLLM to be parsed and prepared for embedding.', {
+        requestBody: fileBody({ addToWorkspaces: { type: 'string', description: 'comma-separated workspace slugs to embed the document into' } }),
+        responses: ok({ success: true, error: null, documents: [DOCUMENT] })
+      })
+    },
+    '/v1/document/upload-link': {
+      post: op('Documents', 'Upload a valid URL for AnythingLLM to scrape and prepare for embedding.', {
+        requestBody: jsonBody({ link: 'https://anythingllm.com', addToWorkspaces: 'workspace1,workspace2', scraperHeaders: { Authorization: 'Bearer token123' } }),
+        responses: ok({ success: true, error: null, documents: [DOCUMENT] })
+      })
+    },
+    '/v1/document/raw-text': {
+      post: op('Documents', 'Upload a file by specifying its raw text content and metadata values without having to upload a file.', {
+        requestBody: jsonBody({
+          textContent: 'This is the raw text that will be saved as a document in AnythingLLM.',
+          addToWorkspaces: 'workspace1,workspace2',
+          metadata: { title: 'This key is required. See in /server/endpoints/api/document/index.js:287', keyOne: 'valueOne' }
+        }),
+        responses: ok({ success: true, error: null, documents: [DOCUMENT] })
+      })
+    },
+    '/v1/documents': {
+      get: op('Documents', 'List of all locally-stored documents in instance', {
+        responses: ok({ localFiles: { name: 'documents', type: 'folder', items: [{ name: 'my-stored-document.json', type: 'file', id: 'bb07c334-4dab-4419-9462-9d00065a49a1', title: 'my-file.txt', cached: false }] } })
+      })
+    },
+    '/v1/documents/folder/{folderName}': {
+      parameters: [pathParam('folderName', 'Name of the folder to retrieve documents from')],
+      get: op('Documents', 'Get all documents stored in a specific folder.', {
+        responses: ok({ folder: 'custom-documents', documents: [{ name: 'document1.json', type: 'file', cached: false, pinnedWorkspaces: [], watched: false }] })
+      })
+    },
+    '/v1/document/accepted-file-types': {
+      get: op('Documents', 'Check available filetypes and MIMEs that can be uploaded.', {
+        responses: ok({ types: { 'application/mbox': ['.mbox'], 'application/pdf': ['.pdf'], 'text/plain': ['.txt', '.md'] } })
+      })
+    },
+    '/v1/document/metadata-schema': {
+      get: op('Documents', 'Get the known available metadata schema for when doing a raw-text upload and the acceptable type of value for each key.', {
+        responses: ok({ schema: { keyOne: 'string | number | nullable', keyTwo: 'string | number | nullable' } })
+      })
+    },
+    '/v1/document/{docName}': {
+      parameters: [pathParam('docName', 'Unique document name to find (name in /documents)')],
+      get: op('Documents', 'Get a single document by its unique AnythingLLM document name', {
+        responses: ok({ localFiles: { name: 'my-stored-document.txt-uuid1234.json', type: 'file', title: 'my-stored-document.txt', cached: false } })
+      })
+    },
+    '/v1/document/create-folder': {
+      post: op('Documents', 'Create a new folder inside the documents storage directory.', {
+        requestBody: jsonBody({ name: 'new-folder' }),
+        responses: ok({ success: true, message: null })
+      })
+    },
+    '/v1/document/remove-folder': {
+      delete: op('Documents', 'Remove a folder and all its contents from the documents storage directory.', {
+        requestBody: jsonBody({ name: 'my-folder' }),
+        responses: ok({ success: true, message: 'Folder removed successfully' })
+      })
+    },
+    '/v1/document/move-files': {
+      post: op('Documents', 'Move files within the documents storage directory.', {
+        requestBody: jsonBody({ files: [{ from: 'custom-documents/file.txt-fc4beeeb-e436-454d-8bb4-e5b8979cb48f.json', to: 'folder/file.txt-fc4beeeb-e436-454d-8bb4-e5b8979cb48f.json' }] }),
+        responses: ok({ success: true, message: null })
+      })
+    },
+
+    // --- Workspaces ---
+    '/v1/workspace/new': {
+      post: op('Workspaces', 'Create a new workspace', {
+        requestBody: jsonBody({
+          name: 'My New Workspace',
+          similarityThreshold: 0.7,
+          openAiTemp: 0.7,
+          openAiHistory: 20,
+          openAiPrompt: 'Custom prompt for responses',
+          queryRefusalResponse: 'Custom refusal message',
+          chatMode: 'chat',
+          topN: 4
+        }),
+        responses: ok({ workspace: WORKSPACE, message: 'Workspace created' })
+      })
+    },
+    '/v1/workspaces': {
+      get: op('Workspaces', 'List all current workspaces', {
+        responses: ok({ workspaces: [{ ...WORKSPACE, threads: [{ user_id: 1, slug: 'thread-slug' }] }] })
+      })
+    },
+    '/v1/workspace/{slug}': {
+      parameters: [SLUG],
+      get: op('Workspaces', 'Get a workspace by its unique slug.', {
+        responses: ok({ workspace: [{ ...WORKSPACE, documents: [], threads: [] }] })
+      }),
+      delete: op('Workspaces', 'Deletes a workspace by its slug.')
+    },
+    '/v1/workspace/{slug}/update': {
+      parameters: [SLUG],
+      post: op('Workspaces', 'Update workspace settings by its unique slug.', {
+        requestBody: jsonBody({ name: 'Updated Workspace Name', openAiTemp: 0.2, openAiHistory: 20, openAiPrompt: 'Respond to all inquires and questions in binary - do not respond in any other format.' }),
+        responses: ok({ workspace: WORKSPACE, message: null })
+      })
+    },
+    '/v1/workspace/{slug}/chats': {
+      parameters: [
+        SLUG,
+        queryParam('apiSessionId', 'Optional apiSessionId to filter by'),
+        queryParam('limit', 'Optional number of chat messages to return (default: 100)', 'integer'),
+        queryParam('orderBy', 'Optional order of chat messages (asc or desc)')
+      ],
+      get: op('Workspaces', 'Get a workspaces chats regardless of user by its unique slug.', {
+        responses: ok({ history: [{ role: 'user', content: 'What is AnythingLLM?', sentAt: 1692851630 }, { role: 'assistant', content: 'AnythingLLM is a platform that allows you to convert notes, PDFs, and other source materials into a chatbot.', sources: [SOURCE] }] })
+      })
+    },
+    '/v1/workspace/{slug}/update-embeddings': {
+      parameters: [SLUG],
+      post: op('Workspaces', 'Add or remove documents from a workspace by its unique slug.', {
+        requestBody: jsonBody({ adds: ['custom-documents/my-pdf.pdf-hash.json'], deletes: ['custom-documents/anythingllm.txt-hash.json'] }),
+        responses: ok({ workspace: WORKSPACE, message: null })
+      })
+    },
+    '/v1/workspace/{slug}/update-pin': {
+      parameters: [SLUG],
+      post: op('Workspaces', 'Add or remove pin from a document in a workspace by its unique slug.', {
+        requestBody: jsonBody({ docPath: 'custom-documents/my-pdf.pdf-hash.json', pinStatus: true }),
+        responses: ok({ message: 'Pin status updated successfully' })
+      })
+    },
+    '/v1/workspace/{slug}/chat': {
+      parameters: [SLUG],
+      post: op('Workspaces', 'Execute a chat with a workspace', {
+        requestBody: jsonBody(CHAT_REQUEST),
+        responses: ok(CHAT_RESPONSE)
+      })
+    },
+    '/v1/workspace/{slug}/stream-chat': {
+      parameters: [SLUG],
+      post: op('Workspaces', 'Execute a streamable chat with a workspace', {
+        requestBody: jsonBody(CHAT_REQUEST),
+        responses: { '200': { description: 'Server-Sent Events stream of chat response chunks', content: { 'text/event-stream': { example: CHAT_RESPONSE } } } }
+      })
+    },
+    '/v1/workspace/{slug}/vector-search': {
+      parameters: [SLUG],
+      post: op('Workspaces', 'Perform a vector similarity search in a workspace', {
+        requestBody: jsonBody({ query: 'What is the meaning of life?', topN: 4, scoreThreshold: 0.75 }),
+        responses: ok({ results: [{ id: '5a6bee0a-306c-47fc-942b-8ab9bf3899c4', text: 'Document chunk content...', metadata: { url: 'file://document.txt', title: 'document.txt' }, distance: 0.541887640953064, score: 0.45811235904693604 }] })
+      })
+    },
+
+    // --- System Settings ---
+    '/v1/system/env-dump': {
+      get: op('System Settings', 'Dump all settings to file storage')
+    },
+    '/v1/system': {
+      get: op('System Settings', 'Get all current system settings that are defined.', {
+        responses: ok({ settings: { VectorDB: 'pinecone', PineConeKey: true, PineConeIndex: 'my-pinecone-index', LLMProvider: 'azure', '[KEY_NAME]': 'KEY_VALUE' } })
+      })
+    },
+    '/v1/system/vector-count': {
+      get: op('System Settings', 'Number of all vectors in connected vector database', {
+        responses: ok({ vectorCount: 5450 })
+      })
+    },
+    '/v1/system/update-env': {
+      post: op('System Settings', 'Update a system setting or preference.', {
+        requestBody: jsonBody({ VectorDB: 'lancedb', AnotherKey: 'updatedValue' }),
+        responses: ok({ newValues: { '[ENV_KEY]': 'Value' }, error: 'error goes here, otherwise null' })
+      })
+    },
+    '/v1/system/export-chats': {
+      parameters: [queryParam('type', 'Export format jsonl, json, csv, jsonAlpaca')],
+      get: op('System Settings', 'Export all of the chats from the system in a known format. Output depends on the type sent. Will be send with the correct header for the output.', {
+        responses: ok([{ role: 'user', content: 'What is AnythingLLM?' }, { role: 'assistant', content: 'AnythingLLM is a knowledge graph and vector database management system built using NodeJS express server.' }])
+      })
+    },
+    '/v1/system/remove-documents': {
+      delete: op('System Settings', 'Permanently remove documents from the system.', {
+        requestBody: jsonBody({ names: ['custom-documents/file.txt-fc4beeeb-e436-454d-8bb4-e5b8979cb48f.json'] }),
+        responses: ok({ success: true, message: 'Documents removed successfully' })
+      })
+    },
+
+    // --- Workspace Threads ---
+    '/v1/workspace/{slug}/thread/new': {
+      parameters: [SLUG],
+      post: op('Workspace Threads', 'Create a new workspace thread', {
+        requestBody: { required: false, content: { 'application/json': { example: { userId: 1, name: 'Name', slug: 'thread-slug' } } } },
+        responses: ok({ thread: { id: 1, name: 'Thread', slug: 'thread-uuid', user_id: 1, workspace_id: 1 }, message: null })
+      })
+    },
+    '/v1/workspace/{slug}/thread/{threadSlug}/update': {
+      parameters: [SLUG, THREAD_SLUG],
+      post: op('Workspace Threads', 'Update thread name by its unique slug.', {
+        requestBody: jsonBody({ name: 'Updated Thread Name' }),
+        responses: ok({ thread: { id: 1, name: 'Updated Thread Name', slug: 'thread-uuid', user_id: 1, workspace_id: 1 }, message: null })
+      })
+    },
+    '/v1/workspace/{slug}/thread/{threadSlug}': {
+      parameters: [SLUG, THREAD_SLUG],
+      delete: op('Workspace Threads', 'Delete a workspace thread')
+    },
+    '/v1/workspace/{slug}/thread/{threadSlug}/chats': {
+      parameters: [SLUG, THREAD_SLUG],
+      get: op('Workspace Threads', 'Get chats for a workspace thread', {
+        responses: ok({ history: [{ role: 'user', content: 'What is AnythingLLM?', sentAt: 1692851630 }, { role: 'assistant', content: 'AnythingLLM is a platform that allows you to convert notes, PDFs, and other source materials into a chatbot.', sources: [SOURCE] }] })
+      })
+    },
+    '/v1/workspace/{slug}/thread/{threadSlug}/chat': {
+      parameters: [SLUG, THREAD_SLUG],
+      post: op('Workspace Threads', 'Chat with a workspace thread', {
+        requestBody: jsonBody({ message: CHAT_REQUEST.message, mode: CHAT_REQUEST.mode, userId: 1, attachments: CHAT_REQUEST.attachments, reset: false }),
+        responses: ok(CHAT_RESPONSE)
+      })
+    },
+    '/v1/workspace/{slug}/thread/{threadSlug}/stream-chat': {
+      parameters: [SLUG, THREAD_SLUG],
+      post: op('Workspace Threads', 'Stream chat with a workspace thread', {
+        requestBody: jsonBody({ message: CHAT_REQUEST.message, mode: CHAT_REQUEST.mode, userId: 1, attachments: CHAT_REQUEST.attachments, reset: false }),
+        responses: { '200': { description: 'Server-Sent Events stream of chat response chunks', content: { 'text/event-stream': { example: CHAT_RESPONSE } } } }
+      })
+    },
+
+    // --- User Management ---
+    '/v1/users': {
+      get: op('User Management', 'List all users', {
+        responses: ok({ users: [{ id: 1, username: 'john_doe', role: 'admin' }, { id: 2, username: 'jane_smith', role: 'default' }] })
+      })
+    },
+    '/v1/users/{id}/issue-auth-token': {
+      parameters: [pathParam('id', 'The ID of the user to issue a temporary auth token for')],
+      get: op('User Management', 'Issue a temporary auth token for a user', {
+        responses: ok({ token: '1234567890', loginPath: '/sso/simple?token=1234567890' })
+      })
+    },
+
+    // --- Embed ---
+    '/v1/embed': {
+      get: op('Embed', 'List all active embeds', {
+        responses: ok({ embeds: [EMBED] })
+      })
+    },
+    '/v1/embed/new': {
+      post: op('Embed', 'Create a new embed configuration', {
+        requestBody: jsonBody({
+          workspace_slug: 'workspace-slug-1',
+          chat_mode: 'chat',
+          allowlist_domains: ['example.com'],
+          allow_model_override: false,
+          allow_temperature_override: false,
+          allow_prompt_override: false,
+          max_chats_per_day: 100,
+          max_chats_per_session: 10
+        }),
+        responses: ok({ embed: { id: 1, uuid: 'embed-uuid-1', enabled: true, chat_mode: 'chat', allowlist_domains: ['example.com'], workspace: { id: 1, name: 'Workspace 1' } }, error: null })
+      })
+    },
+    '/v1/embed/{embedUuid}': {
+      parameters: [EMBED_UUID],
+      post: op('Embed', 'Update an existing embed configuration', {
+        requestBody: jsonBody({ enabled: true, chat_mode: 'chat', allowlist_domains: ['example.com'], max_chats_per_day: 100, max_chats_per_session: 10 }),
+        responses: ok({ success: true, error: null })
+      }),
+      delete: op('Embed', 'Delete an existing embed configuration', {
+        responses: ok({ success: true, error: null })
+      })
+    },
+    '/v1/embed/{embedUuid}/chats': {
+      parameters: [EMBED_UUID],
+      get: op('Embed', 'Get all chats for a specific embed', {
+        responses: ok({ chats: [{ id: 1, session_id: 'session-uuid-1', prompt: 'Hello', response: 'Hi there!', createdAt: '2023-04-01T12:00:00Z' }] })
+      })
+    },
+    '/v1/embed/{embedUuid}/chats/{sessionUuid}': {
+      parameters: [EMBED_UUID, pathParam('sessionUuid', 'UUID of the session')],
+      get: op('Embed', 'Get chats for a specific embed and session', {
+        responses: ok({ chats: [{ id: 1, prompt: 'Hello', response: 'Hi there!', createdAt: '2023-04-01T12:00:00Z' }] })
+      })
+    },
+
+    // --- OpenAI Compatible Endpoints ---
+    '/v1/openai/models': {
+      get: op('OpenAI Compatible Endpoints', 'Get all available "models" which are workspaces you can use for chatting.', {
+        responses: ok({ data: [{ name: 'Sample workspace', model: 'sample-workspace', llm: { provider: 'ollama', model: 'llama3.1' } }] })
+      })
+    },
+    '/v1/openai/chat/completions': {
+      post: op('OpenAI Compatible Endpoints', 'Execute a chat with a workspace with OpenAI compatibility. Supports streaming as well. Model must be a workspace slug from /models.', {
+        requestBody: jsonBody({
+          messages: [{ role: 'system', content: 'You are a helpful assistant' }, { role: 'user', content: 'What is AnythingLLM?' }],
+          model: 'sample-workspace',
+          stream: false,
+          temperature: 0.7
+        })
+      })
+    },
+    '/v1/openai/embeddings': {
+      post: op('OpenAI Compatible Endpoints', 'Get the embeddings of any arbitrary text string. This will use the embedder provider set in the system. Please ensure the token length of each string fits within the context of your embedder model.', {
+        requestBody: jsonBody({ input: ['This is my first string to embed', 'This is my second string to embed'], model: null })
+      })
+    },
+    '/v1/openai/vector_stores': {
+      get: op('OpenAI Compatible Endpoints', 'List all the vector database collections connected to AnythingLLM. These are essentially workspaces but return their unique vector db identifier - this is the same as the workspace slug.', {
+        responses: ok({ data: [{ id: 'slug-here', object: 'vector_store', name: 'My workspace', file_counts: { total: 3 }, provider: 'LanceDB' }] })
+      })
+    }
+  }
+};
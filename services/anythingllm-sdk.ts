@@ -1,28 +1,41 @@
-import { AnythingLLMWorkspace, AnythingLLMUser, SDKMethodDefinition } from "../types";
+import { AnythingLLMWorkspace, AnythingLLMThread, AnythingLLMChatHistoryItem, AnythingLLMWorkspaceChat, AnythingLLMUser, AnythingLLMDocument, AnythingLLMSource, AnythingLLMDocumentItem, AnythingLLMLibraryDocument, AnythingLLMWorkspaceSettings, AnythingLLMSystemStatus, AnythingLLMSystemSettings, AnythingLLMUserRole, AnythingLLMUserUpdate, AnythingLLMInvite, AnythingLLMApiKey, HttpExchange, ImageAttachment, LLMErrorKind, RequestPolicy, SDKMethodDefinition } from "../types";
+import { readSse } from "./streaming";
+import { request as sendRequest } from "./http";
+import { AuthError, RequestError, ServerError, getErrorKind } from "./errors";
+import { loadedImages, toAnythingLLMAttachment } from "./images";
 
 /**
  * AnythingLLM Client SDK
- * 
+ *
  * A comprehensive standalone library to interact with the AnythingLLM Developer API.
  * Supports Workspace management, Chat, System administration, and Document handling.
- * 
+ *
+ * Failures are thrown as `LLMError` subclasses (see `services/errors.ts`).
+ *
  * @see https://github.com/Mintplex-Labs/anything-llm/tree/master/server/swagger/definitions
  */
 export class AnythingLLMClient {
+  private origin: string;
   private baseUrl: string;
   private apiKey: string;
+  private policy: Partial<RequestPolicy>;
+  /** Called after every HTTP call (used by the API Playground's request inspector) */
+  onRequest?: (exchange: HttpExchange) => void;
 
   /**
    * Initialize the client
    * @param host The base host (e.g. http://localhost)
    * @param port The port number (e.g. 3001)
    * @param apiKey The Developer API Key found in AnythingLLM settings
+   * @param policy Optional timeout/retry overrides; defaults to `DEFAULT_REQUEST_POLICY`
    */
-  constructor(host: string, port: string, apiKey: string) {
+  constructor(host: string, port: string, apiKey: string, policy: Partial<RequestPolicy> = {}) {
     // Ensure no trailing slash on host, build full base URL
     const cleanHost = host.replace(/\/$/, '');
-    this.baseUrl = `${cleanHost}:${port}/api/v1`;
+    this.origin = `${cleanHost}:${port}`;
+    this.baseUrl = `${this.origin}/api/v1`;
     this.apiKey = apiKey.trim();
+    this.policy = policy;
   }
 
   /**
@@ -36,29 +49,103 @@ export class AnythingLLMClient {
     };
   }
 
-  // --- Core / Auth ---
+  /**
+   * Headers for multipart uploads; the browser sets the multipart Content-Type boundary itself.
+   */
+  private get authHeaders(): HeadersInit {
+    return {
+      'Authorization': `Bearer ${this.apiKey}`,
+      'Accept': 'application/json'
+    };
+  }
 
   /**
-   * Test the connection and authentication.
+   * Send a request through the shared timeout/retry layer.
+   * @param context Prefix for the error message, e.g. "Failed to create workspace"
    */
-  async validateConnection(): Promise<{ authenticated: boolean; error?: string }> {
+  private request(path: string, init: RequestInit & { retries?: number } = {}, context?: string): Promise<Response> {
+    return this.send(`${this.baseUrl}${path}`, init, context);
+  }
+
+  private async send(url: string, init: RequestInit & { retries?: number } = {}, context?: string): Promise<Response> {
+    const { signal, ...rest } = init;
+    const headers = rest.headers ?? this.headers;
+    const started = performance.now();
+    const report = (status?: number, error?: string) => this.onRequest?.({
+      at: new Date().toISOString(),
+      method: (rest.method || 'GET').toUpperCase(),
+      url,
+      headers: redactHeaders(headers),
+      body: describeBody(rest.body),
+      status,
+      durationMs: Math.round(performance.now() - started),
+      error
+    });
+
     try {
-      const response = await fetch(`${this.baseUrl}/auth`, {
-        method: 'GET',
-        headers: this.headers
+      const response = await sendRequest(url, {
+        headers,
+        ...rest,
+        signal: signal ?? undefined,
+        service: 'anythingllm',
+        policy: this.policy,
+        context
       });
+      report(response.status);
+      return response;
+    } catch (error: any) {
+      report(error?.status, error?.message);
+      throw error;
+    }
+  }
 
-      if (response.status === 200) {
-        return { authenticated: true };
-      }
+  // --- Raw endpoints ---
 
-      if (response.status === 401 || response.status === 403) {
-        return { authenticated: false, error: 'Invalid API Key' };
-      }
+  /**
+   * Call any endpoint by its path from the server root. Used by playground methods
+   * generated from the OpenAPI spec; prefer the typed methods below in code.
+   * @param path e.g. `/api/v1/workspace/my-chat`, with path params already filled in
+   * @returns Parsed JSON, null for an empty body, or the text when the body is not valid JSON
+   */
+  async callEndpoint(
+    method: string,
+    path: string,
+    options: { query?: Record<string, unknown>; body?: unknown; auth?: boolean } = {}
+  ): Promise<unknown> {
+    const { query = {}, body, auth = true } = options;
+    const search = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') search.append(key, String(value));
+    });
+    const qs = search.toString();
+    const response = await this.send(`${this.origin}${path}${qs ? `?${qs}` : ''}`, {
+      method,
+      headers: auth ? this.headers : { 'Accept': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    }, `${method} ${path} failed`);
+    const text = await response.text();
+    if (!(response.headers.get('content-type') || '').includes('json')) return text;
+    if (!text.trim()) return null;
+    try {
+      return JSON.parse(text);
+    } catch {
+      // Mislabelled or truncated body: show it as text rather than failing the call
+      return text;
+    }
+  }
+
+  // --- Core / Auth ---
 
-      return { authenticated: false, error: `Server returned ${response.status} ${response.statusText}` };
+  /**
+   * Test the connection and authentication.
+   */
+  async validateConnection(): Promise<{ authenticated: boolean; error?: string; errorKind?: LLMErrorKind }> {
+    try {
+      await this.request('/auth', { method: 'GET', retries: 0 });
+      return { authenticated: true };
     } catch (error: any) {
-      return { authenticated: false, error: error.message || 'Network Error' };
+      const message = error instanceof AuthError ? 'Invalid API Key' : error.message || 'Network Error';
+      return { authenticated: false, error: message, errorKind: getErrorKind(error) };
     }
   }
 
@@ -68,11 +155,7 @@ export class AnythingLLMClient {
    * Fetch all workspaces available in the AnythingLLM instance.
    */
   async getWorkspaces(): Promise<AnythingLLMWorkspace[]> {
-    const response = await fetch(`${this.baseUrl}/workspaces`, {
-      method: 'GET',
-      headers: this.headers
-    });
-    if (!response.ok) throw new Error(response.statusText);
+    const response = await this.request('/workspaces', { method: 'GET' }, 'Failed to fetch workspaces');
     const data = await response.json();
     return data.workspaces || [];
   }
@@ -81,13 +164,10 @@ export class AnythingLLMClient {
    * Get details for a specific workspace by slug
    */
   async getWorkspace(slug: string): Promise<AnythingLLMWorkspace> {
-    const response = await fetch(`${this.baseUrl}/workspace/${slug}`, {
-      method: 'GET',
-      headers: this.headers
-    });
-    if (!response.ok) throw new Error(`Workspace '${slug}' not found or error.`);
+    const response = await this.request(`/workspace/${slug}`, { method: 'GET' }, `Workspace '${slug}' not found or error`);
     const data = await response.json();
-    return data.workspace;
+    // Newer AnythingLLM versions wrap the workspace in an array
+    return Array.isArray(data.workspace) ? data.workspace[0] : data.workspace;
   }
 
   /**
@@ -95,12 +175,23 @@ export class AnythingLLMClient {
    * @param name The display name of the workspace
    */
   async createWorkspace(name: string): Promise<AnythingLLMWorkspace> {
-    const response = await fetch(`${this.baseUrl}/workspace/new`, {
+    const response = await this.request('/workspace/new', {
       method: 'POST',
-      headers: this.headers,
       body: JSON.stringify({ name })
-    });
-    if (!response.ok) throw new Error(`Failed to create workspace: ${await response.text()}`);
+    }, 'Failed to create workspace');
+    const data = await response.json();
+    return data.workspace;
+  }
+
+  /**
+   * Update a workspace's settings. Only the fields provided are changed.
+   * @param settings System prompt, temperature, history, retrieval and LLM settings
+   */
+  async updateWorkspace(slug: string, settings: AnythingLLMWorkspaceSettings): Promise<AnythingLLMWorkspace> {
+    const response = await this.request(`/workspace/${slug}/update`, {
+      method: 'POST',
+      body: JSON.stringify(settings)
+    }, 'Failed to update workspace');
     const data = await response.json();
     return data.workspace;
   }
@@ -110,70 +201,552 @@ export class AnythingLLMClient {
    * @param slug The slug of the workspace to delete
    */
   async deleteWorkspace(slug: string): Promise<{ success: boolean; message?: string }> {
-    const response = await fetch(`${this.baseUrl}/workspace/${slug}`, {
-      method: 'DELETE',
-      headers: this.headers
-    });
-    if (!response.ok) throw new Error(`Failed to delete workspace: ${await response.text()}`);
+    await this.request(`/workspace/${slug}`, { method: 'DELETE' }, 'Failed to delete workspace');
     return { success: true };
   }
 
   /**
-   * Trigger an embedding update for a workspace.
-   * This forces the vector database to re-sync with documents.
+   * Add documents to, or remove them from, a workspace's vector database.
+   * @param adds Document paths to embed (e.g. `custom-documents/file.json`)
+   * @param deletes Document paths to remove from the workspace
    */
-  async updateEmbeddings(slug: string): Promise<{ success: boolean; response: any }> {
-    const response = await fetch(`${this.baseUrl}/workspace/${slug}/update-embeddings`, {
+  async updateEmbeddings(slug: string, adds: string[] = [], deletes: string[] = []): Promise<{ success: boolean; response: any }> {
+    const response = await this.request(`/workspace/${slug}/update-embeddings`, {
       method: 'POST',
-      headers: this.headers
-    });
-    if (!response.ok) throw new Error(`Failed to update embeddings: ${await response.text()}`);
+      body: JSON.stringify({ adds, deletes })
+    }, 'Failed to update embeddings');
     const data = await response.json();
     return { success: true, response: data };
   }
 
+  /**
+   * Pin or unpin a document so its full content is always included in the workspace context.
+   * @param docPath The document path as stored in the workspace (e.g. `custom-documents/file.json`)
+   */
+  async updatePin(slug: string, docPath: string, pinStatus: boolean): Promise<{ success: boolean; message?: string }> {
+    const response = await this.request(`/workspace/${slug}/update-pin`, {
+      method: 'POST',
+      body: JSON.stringify({ docPath, pinStatus })
+    }, 'Failed to update pin');
+    const data = await response.json();
+    return { success: true, message: data.message };
+  }
+
+  // --- Threads ---
+
+  /**
+   * Create a thread in a workspace.
+   * @param name Optional display name; the server picks one when omitted
+   */
+  async createThread(slug: string, name?: string): Promise<AnythingLLMThread> {
+    const response = await this.request(`/workspace/${slug}/thread/new`, {
+      method: 'POST',
+      body: JSON.stringify(name ? { name } : {})
+    }, 'Failed to create thread');
+    const data = await response.json();
+    return data.thread;
+  }
+
+  /**
+   * Rename a thread.
+   */
+  async updateThread(slug: string, threadSlug: string, name: string): Promise<AnythingLLMThread> {
+    const response = await this.request(`/workspace/${slug}/thread/${threadSlug}/update`, {
+      method: 'POST',
+      body: JSON.stringify({ name })
+    }, 'Failed to update thread');
+    const data = await response.json();
+    return data.thread;
+  }
+
+  /**
+   * Delete a thread and its chat history.
+   */
+  async deleteThread(slug: string, threadSlug: string): Promise<{ success: boolean }> {
+    await this.request(`/workspace/${slug}/thread/${threadSlug}`, { method: 'DELETE' }, 'Failed to delete thread');
+    return { success: true };
+  }
+
+  /**
+   * Get the stored chat history of a thread, oldest first.
+   */
+  async getThreadChats(slug: string, threadSlug: string): Promise<AnythingLLMChatHistoryItem[]> {
+    const response = await this.request(`/workspace/${slug}/thread/${threadSlug}/chats`, { method: 'GET' }, 'Failed to fetch thread chats');
+    const data = await response.json();
+    return (data.history || []).map((item: any) => ({ ...item, sources: normalizeSources(item.sources) }));
+  }
+
+  // --- Documents ---
+
+  /**
+   * Upload a file to the document library. It is parsed but not embedded
+   * until added to a workspace via `updateEmbeddings`.
+   */
+  async uploadDocument(file: File): Promise<AnythingLLMDocument[]> {
+    const form = new FormData();
+    form.append('file', file, file.name);
+    const response = await this.request('/document/upload', {
+      method: 'POST',
+      headers: this.authHeaders,
+      body: form
+    }, 'Failed to upload document');
+    const data = await response.json();
+    if (!data.success) throw new RequestError(`Failed to upload document: ${data.error || 'Unknown error'}`, 'anythingllm', response.status);
+    return data.documents || [];
+  }
+
+  /**
+   * Add raw text to the document library as a new document.
+   * @param title Title stored in the document metadata
+   */
+  async uploadRawText(textContent: string, title: string): Promise<AnythingLLMDocument[]> {
+    const response = await this.request('/document/raw-text', {
+      method: 'POST',
+      body: JSON.stringify({ textContent, metadata: { title } })
+    }, 'Failed to upload text');
+    const data = await response.json();
+    if (!data.success) throw new RequestError(`Failed to upload text: ${data.error || 'Unknown error'}`, 'anythingllm', response.status);
+    return data.documents || [];
+  }
+
+  /**
+   * List every document in the library as a folder tree.
+   */
+  async getDocuments(): Promise<AnythingLLMDocumentItem[]> {
+    const response = await this.request('/documents', { method: 'GET' }, 'Failed to fetch documents');
+    const data = await response.json();
+    return data.localFiles?.items || [];
+  }
+
   // --- Chat ---
 
   /**
    * Send a chat message to a specific workspace.
+   * @param sessionId Optional session identifier. In `chat` mode, messages sharing a sessionId share history.
+   * @param images Optional images, sent as `attachments` (needs a vision-capable workspace LLM)
    */
-  async sendChat(slug: string, message: string, mode: 'chat' | 'query' = 'chat'): Promise<{ textResponse: string, sources: any[] }> {
-    const response = await fetch(`${this.baseUrl}/workspace/${slug}/chat`, {
+  async sendChat(
+    slug: string,
+    message: string,
+    mode: 'chat' | 'query' = 'chat',
+    sessionId?: string,
+    images: ImageAttachment[] = []
+  ): Promise<{ textResponse: string, sources: AnythingLLMSource[] }> {
+    const response = await this.request(`/workspace/${slug}/chat`, {
       method: 'POST',
-      headers: this.headers,
-      body: JSON.stringify({ message, mode })
-    });
+      body: JSON.stringify({ message, mode, ...(sessionId ? { sessionId } : {}), ...attachmentsField(images) })
+    }, 'Chat failed');
 
-    if (!response.ok) {
-      throw new Error(`Chat failed (${response.status}): ${await response.text()}`);
+    const data = await response.json();
+    return {
+      textResponse: data.textResponse,
+      sources: normalizeSources(data.sources)
+    };
+  }
+
+  /**
+   * Stream a chat message to a specific workspace.
+   * Uses the SSE `stream-chat` endpoint; `onChunk` receives each text fragment as it arrives.
+   * @param options.sessionId Messages sharing a sessionId share history in `chat` mode
+   * @param options.threadSlug Stream into this thread instead of the workspace's default thread
+   * @param options.images Optional images, sent as `attachments`
+   * @param options.signal Optional AbortSignal to stop the stream early
+   */
+  async streamChat(
+    slug: string,
+    message: string,
+    onChunk: (chunk: string) => void = () => {},
+    options: { mode?: 'chat' | 'query'; sessionId?: string; threadSlug?: string; images?: ImageAttachment[]; signal?: AbortSignal } = {}
+  ): Promise<{ textResponse: string, sources: AnythingLLMSource[] }> {
+    const { mode = 'chat', sessionId, threadSlug, images = [], signal } = options;
+    const path = threadSlug ? `/workspace/${slug}/thread/${threadSlug}/stream-chat` : `/workspace/${slug}/stream-chat`;
+    const response = await this.request(path, {
+      method: 'POST',
+      headers: { ...this.headers, 'Accept': 'text/event-stream' },
+      body: JSON.stringify({ message, mode, ...(sessionId ? { sessionId } : {}), ...attachmentsField(images) }),
+      signal
+    }, 'Chat failed');
+
+    let textResponse = '';
+    let sources: AnythingLLMSource[] = [];
+
+    for await (const event of readSse(response)) {
+      if (event.type === 'abort' || event.error) {
+        throw new ServerError(`Chat failed: ${event.error || 'Stream aborted by server'}`, 'anythingllm');
+      }
+      if (event.textResponse) {
+        textResponse += event.textResponse;
+        onChunk(event.textResponse);
+      }
+      if (Array.isArray(event.sources) && event.sources.length > 0) {
+        sources = normalizeSources(event.sources);
+      }
+      if (event.close) break;
     }
 
+    return { textResponse, sources };
+  }
+
+  /**
+   * Send a chat message to a thread inside a workspace. History is kept per thread.
+   */
+  async sendThreadChat(
+    slug: string,
+    threadSlug: string,
+    message: string,
+    mode: 'chat' | 'query' = 'chat',
+    images: ImageAttachment[] = []
+  ): Promise<{ textResponse: string, sources: AnythingLLMSource[] }> {
+    const response = await this.request(`/workspace/${slug}/thread/${threadSlug}/chat`, {
+      method: 'POST',
+      body: JSON.stringify({ message, mode, ...attachmentsField(images) })
+    }, 'Chat failed');
+
     const data = await response.json();
     return {
       textResponse: data.textResponse,
-      sources: data.sources || []
+      sources: normalizeSources(data.sources)
+    };
+  }
+
+  // --- Chat History ---
+
+  /**
+   * Get the stored chat history of a workspace's default thread, oldest first.
+   * @param options.apiSessionId Only chats sent through the API with this sessionId
+   * @param options.limit Maximum number of messages
+   * @param options.orderBy `asc` or `desc` by send time
+   */
+  async getWorkspaceChats(
+    slug: string,
+    options: { apiSessionId?: string; limit?: number; orderBy?: 'asc' | 'desc' } = {}
+  ): Promise<AnythingLLMChatHistoryItem[]> {
+    const params = new URLSearchParams();
+    if (options.apiSessionId) params.set('apiSessionId', options.apiSessionId);
+    if (options.limit) params.set('limit', String(options.limit));
+    if (options.orderBy) params.set('orderBy', options.orderBy);
+    const query = params.toString() ? `?${params}` : '';
+    const response = await this.request(`/workspace/${slug}/chats${query}`, { method: 'GET' }, 'Failed to fetch workspace chats');
+    const data = await response.json();
+    return (data.history || []).map((item: any) => ({ ...item, sources: normalizeSources(item.sources) }));
+  }
+
+  /**
+   * Page through every chat on the instance, across workspaces and users (Admin only).
+   * @param offset Page index, starting at 0
+   */
+  async getSystemChats(offset = 0): Promise<{ chats: AnythingLLMWorkspaceChat[]; hasPages: boolean }> {
+    const response = await this.request('/admin/workspace-chats', {
+      method: 'POST',
+      body: JSON.stringify({ offset }),
+      // Read-only despite being a POST
+      retries: this.policy.maxRetries
+    }, 'Failed to fetch system chats');
+    const data = await response.json();
+    return {
+      chats: (data.chats || []).map(normalizeSystemChat),
+      hasPages: !!data.hasPages
     };
   }
 
   // --- System / Admin ---
 
+  /**
+   * Whether the instance runs in multi-user mode. Admin endpoints other than this one
+   * are rejected on single-user instances.
+   */
+  async getSystemStatus(): Promise<AnythingLLMSystemStatus> {
+    const response = await this.request('/admin/is-multi-user-mode', { method: 'GET' }, 'Failed to fetch system status');
+    const data = await response.json();
+    return { online: true, mode: data.isMultiUser ? 'multi-user' : 'password' };
+  }
+
   /**
    * Get all users (Admin only)
    */
   async getUsers(): Promise<AnythingLLMUser[]> {
-    const response = await fetch(`${this.baseUrl}/system/users`, {
-      method: 'GET',
-      headers: this.headers
-    });
-    if (!response.ok) throw new Error(`Failed to fetch users (May require Admin privilege): ${response.statusText}`);
+    const response = await this.request('/admin/users', { method: 'GET' }, 'Failed to fetch users (May require Admin privilege)');
     const data = await response.json();
     return data.users || [];
   }
+
+  /**
+   * Create a user (Admin only, multi-user mode).
+   */
+  async createUser(username: string, password: string, role: AnythingLLMUserRole = 'default'): Promise<AnythingLLMUser> {
+    const response = await this.request('/admin/users/new', {
+      method: 'POST',
+      body: JSON.stringify({ username, password, role })
+    }, 'Failed to create user');
+    const data = await response.json();
+    if (!data.user) throw new RequestError(`Failed to create user: ${data.error || 'Unknown error'}`, 'anythingllm', response.status);
+    return data.user;
+  }
+
+  /**
+   * Change a user's name, password, role or suspension (Admin only).
+   */
+  async updateUser(id: number, updates: AnythingLLMUserUpdate): Promise<{ success: boolean }> {
+    const response = await this.request(`/admin/users/${id}`, {
+      method: 'POST',
+      body: JSON.stringify(updates)
+    }, 'Failed to update user');
+    const data = await response.json();
+    if (!data.success) throw new RequestError(`Failed to update user: ${data.error || 'Unknown error'}`, 'anythingllm', response.status);
+    return { success: true };
+  }
+
+  /**
+   * Delete a user (Admin only).
+   */
+  async deleteUser(id: number): Promise<{ success: boolean }> {
+    const response = await this.request(`/admin/users/${id}`, { method: 'DELETE' }, 'Failed to delete user');
+    const data = await response.json();
+    if (!data.success) throw new RequestError(`Failed to delete user: ${data.error || 'Unknown error'}`, 'anythingllm', response.status);
+    return { success: true };
+  }
+
+  /**
+   * List invitation codes (Admin only).
+   */
+  async getInvites(): Promise<AnythingLLMInvite[]> {
+    const response = await this.request('/admin/invites', { method: 'GET' }, 'Failed to fetch invites');
+    const data = await response.json();
+    return data.invites || [];
+  }
+
+  /**
+   * Create an invitation code. Users who sign up with it join the given workspaces.
+   * @param workspaceIds Workspace ids (not slugs)
+   */
+  async createInvite(workspaceIds: number[] = []): Promise<AnythingLLMInvite> {
+    const response = await this.request('/admin/invite/new', {
+      method: 'POST',
+      body: JSON.stringify({ workspaceIds })
+    }, 'Failed to create invite');
+    const data = await response.json();
+    if (!data.invite) throw new RequestError(`Failed to create invite: ${data.error || 'Unknown error'}`, 'anythingllm', response.status);
+    return data.invite;
+  }
+
+  /**
+   * Revoke an invitation code (Admin only).
+   */
+  async deleteInvite(id: number): Promise<{ success: boolean }> {
+    const response = await this.request(`/admin/invite/${id}`, { method: 'DELETE' }, 'Failed to revoke invite');
+    const data = await response.json();
+    if (!data.success) throw new RequestError(`Failed to revoke invite: ${data.error || 'Unknown error'}`, 'anythingllm', response.status);
+    return { success: true };
+  }
+
+  /**
+   * Ids of the users with access to a workspace (Admin only).
+   * @param workspaceId Workspace id (not slug)
+   */
+  async getWorkspaceUsers(workspaceId: number): Promise<number[]> {
+    const response = await this.request(`/admin/workspaces/${workspaceId}/users`, { method: 'GET' }, 'Failed to fetch workspace users');
+    const data = await response.json();
+    return (data.users || []).map((u: any) => u.userId ?? u.id);
+  }
+
+  /**
+   * Replace the set of users with access to a workspace (Admin only).
+   */
+  async updateWorkspaceUsers(workspaceId: number, userIds: number[]): Promise<{ success: boolean }> {
+    const response = await this.request(`/admin/workspaces/${workspaceId}/update-users`, {
+      method: 'POST',
+      body: JSON.stringify({ userIds })
+    }, 'Failed to update workspace users');
+    const data = await response.json();
+    if (!data.success) throw new RequestError(`Failed to update workspace users: ${data.error || 'Unknown error'}`, 'anythingllm', response.status);
+    return { success: true };
+  }
+
+  /**
+   * The instance configuration: active LLM, embedder, vector database and their settings.
+   */
+  async getSystemSettings(): Promise<AnythingLLMSystemSettings> {
+    const response = await this.request('/system', { method: 'GET' }, 'Failed to fetch system settings');
+    const data = await response.json();
+    return data.settings || {};
+  }
+
+  /**
+   * Number of vectors stored across the whole instance.
+   */
+  async getVectorCount(): Promise<number> {
+    const response = await this.request('/system/vector-count', { method: 'GET' }, 'Failed to count vectors');
+    const data = await response.json();
+    return Number(data.vectorCount) || 0;
+  }
+
+  /**
+   * Change instance settings (Admin only). Keys are setting names as returned by
+   * `getSystemSettings`, e.g. `{ LLMProvider: 'ollama' }`.
+   * @returns The values the server accepted
+   */
+  async updateSystemEnv(updates: Record<string, string>): Promise<Record<string, unknown>> {
+    const response = await this.request('/system/update-env', {
+      method: 'POST',
+      body: JSON.stringify(updates)
+    }, 'Failed to update settings');
+    const data = await response.json();
+    if (data.error) throw new RequestError(`Failed to update settings: ${data.error}`, 'anythingllm', response.status);
+    return data.newValues || {};
+  }
+
+  /**
+   * Write the current settings to the server's .env file so they survive a restart (Admin only).
+   */
+  async dumpSystemEnv(): Promise<{ success: boolean }> {
+    await this.request('/system/env-dump', { method: 'GET' }, 'Failed to dump settings');
+    return { success: true };
+  }
+
+  // The Developer API has no API key routes, so keys are managed through the app's own
+  // routes (`/api/system/...`). Protected instances only serve these to a signed-in session,
+  // so callers should treat a failed `getApiKeys` as "not available" and hide key management.
+
+  /**
+   * List Developer API keys (Admin only).
+   * @throws LLMError when the route is unavailable to this key or returns no key list
+   */
+  async getApiKeys(): Promise<AnythingLLMApiKey[]> {
+    const response = await this.send(`${this.origin}/api/system/api-keys`, { method: 'GET' }, 'Failed to fetch API keys');
+    // Unknown routes may fall through to the web app's HTML page
+    const data = await response.json().catch(() => null);
+    if (!Array.isArray(data?.apiKeys)) {
+      throw new RequestError('Failed to fetch API keys: the server did not return a key list', 'anythingllm', response.status);
+    }
+    return data.apiKeys;
+  }
+
+  /**
+   * Generate a new Developer API key (Admin only).
+   */
+  async createApiKey(): Promise<AnythingLLMApiKey> {
+    const response = await this.send(`${this.origin}/api/system/generate-api-key`, { method: 'POST' }, 'Failed to create API key');
+    const data = await response.json();
+    if (!data.apiKey) throw new RequestError(`Failed to create API key: ${data.error || 'Unknown error'}`, 'anythingllm', response.status);
+    return data.apiKey;
+  }
+
+  /**
+   * Revoke a Developer API key (Admin only).
+   */
+  async deleteApiKey(id: number): Promise<{ success: boolean }> {
+    await this.send(`${this.origin}/api/system/api-key/${id}`, { method: 'DELETE' }, 'Failed to revoke API key');
+    return { success: true };
+  }
 }
 
+// The inspector must never show the API key
+const redactHeaders = (headers: HeadersInit): Record<string, string> => {
+  const result: Record<string, string> = {};
+  new Headers(headers).forEach((value, name) => {
+    result[name] = name === 'authorization' ? value.replace(/^(\w+\s+).+$/, '$1••••••••') : value;
+  });
+  return result;
+};
+
+// Request bodies as inspector text; multipart uploads are summarised per field
+const describeBody = (body: BodyInit | null | undefined): string | undefined => {
+  if (body === undefined || body === null) return undefined;
+  if (typeof body === 'string') return body;
+  if (body instanceof FormData) {
+    const parts: string[] = [];
+    body.forEach((value, name) => {
+      parts.push(typeof value === 'string' ? `${name}: ${value}` : `${name}: <file ${value.name}, ${value.size} bytes>`);
+    });
+    return `multipart/form-data\n${parts.join('\n')}`;
+  }
+  return `<${Object.prototype.toString.call(body).slice(8, -1)}>`;
+};
+
+// Chat endpoints take images as `attachments` with the data URL in `contentString`
+const attachmentsField = (images: ImageAttachment[]) => {
+  const loaded = loadedImages(images);
+  return loaded.length > 0 ? { attachments: loaded.map(toAnythingLLMAttachment) } : {};
+};
+
+/**
+ * Coerce raw source chunks into `AnythingLLMSource`. Older servers send the chunk
+ * text as `chunk` or `pageContent` rather than `text`.
+ */
+export const normalizeSources = (raw: any): AnythingLLMSource[] =>
+  (Array.isArray(raw) ? raw : []).map((s: any) => ({
+    ...s,
+    title: s.title || s.name || 'Untitled source',
+    text: s.text ?? s.chunk ?? s.pageContent ?? ''
+  }));
+
+/**
+ * Coerce a `/admin/workspace-chats` record. The response column is stored as a
+ * JSON string (`{ text, sources }`) on most versions, plain text on older ones.
+ */
+export const normalizeSystemChat = (raw: any): AnythingLLMWorkspaceChat => {
+  let response = raw.response ?? '';
+  let sources: AnythingLLMSource[] = [];
+  if (typeof response === 'string') {
+    try {
+      const parsed = JSON.parse(response);
+      response = parsed.text ?? response;
+      sources = normalizeSources(parsed.sources);
+    } catch {
+      // Plain text response
+    }
+  } else {
+    sources = normalizeSources(response.sources);
+    response = response.text ?? '';
+  }
+  return {
+    id: String(raw.id),
+    workspaceSlug: raw.workspace?.slug ?? String(raw.workspaceId ?? raw.workspace_id ?? ''),
+    workspaceName: raw.workspace?.name,
+    prompt: raw.prompt ?? '',
+    response,
+    user: raw.user?.username ?? null,
+    threadId: raw.thread_id ?? raw.threadId ?? null,
+    sessionId: raw.api_session_id ?? raw.session_id ?? null,
+    createdAt: raw.createdAt,
+    sources
+  };
+};
+
+/**
+ * Pair a workspace's message history into prompt/response exchanges.
+ */
+export const pairChatHistory = (slug: string, history: AnythingLLMChatHistoryItem[]): AnythingLLMWorkspaceChat[] => {
+  const chats: AnythingLLMWorkspaceChat[] = [];
+  history.forEach((item, idx) => {
+    if (item.role !== 'user') return;
+    const reply = history[idx + 1]?.role === 'assistant' ? history[idx + 1] : undefined;
+    chats.push({
+      id: `${slug}-${idx}`,
+      workspaceSlug: slug,
+      prompt: item.content,
+      response: reply?.content ?? '',
+      createdAt: new Date((item.sentAt ?? 0) * 1000).toISOString(),
+      sources: reply?.sources
+    });
+  });
+  return chats;
+};
+
+/**
+ * Flatten the `/documents` folder tree into a list of files with their `folder/file` paths.
+ */
+export const flattenDocuments = (items: AnythingLLMDocumentItem[], parent = ''): AnythingLLMLibraryDocument[] =>
+  items.flatMap(item => {
+    const path = parent ? `${parent}/${item.name}` : item.name;
+    if (item.type === 'folder') return flattenDocuments(item.items || [], path);
+    return [{ ...item, path }];
+  });
+
 /**
  * UI Definitions for the API Playground.
  * This array maps methods of the SDK to a format the UI can render dynamically.
+ * Endpoints not covered here come from the OpenAPI spec (see `services/openapi.ts`).
  */
 export const SDK_METHODS: SDKMethodDefinition[] = [
   {
@@ -198,6 +771,15 @@ export const SDK_METHODS: SDKMethodDefinition[] = [
       { name: 'name', type: 'string', required: true, description: 'New Workspace Name' }
     ]
   },
+  {
+    method: 'updateWorkspace',
+    label: 'Update Workspace',
+    description: 'Change the system prompt, temperature, retrieval and LLM settings of a workspace.',
+    params: [
+      { name: 'slug', type: 'slug', required: true, description: 'Target Workspace' },
+      { name: 'settings', type: 'json', required: true, description: 'e.g. {"openAiTemp": 0.2, "topN": 6, "chatMode": "query"}' }
+    ]
+  },
   {
     method: 'deleteWorkspace',
     label: 'Delete Workspace',
@@ -209,9 +791,84 @@ export const SDK_METHODS: SDKMethodDefinition[] = [
   {
     method: 'updateEmbeddings',
     label: 'Update Embeddings',
-    description: 'Force a re-sync of the vector database for this workspace.',
+    description: 'Add or remove documents in the vector database for this workspace.',
+    params: [
+      { name: 'slug', type: 'slug', required: true, description: 'Target Workspace' },
+      { name: 'adds', type: 'json', required: false, description: 'Document paths to embed, e.g. ["custom-documents/file.json"]' },
+      { name: 'deletes', type: 'json', required: false, description: 'Document paths to remove from the workspace' }
+    ]
+  },
+  {
+    method: 'updatePin',
+    label: 'Pin Document',
+    description: 'Pin or unpin a document so it is always in the workspace context.',
+    params: [
+      { name: 'slug', type: 'slug', required: true, description: 'Target Workspace' },
+      { name: 'docPath', type: 'string', required: true, description: 'Document path, e.g. custom-documents/file.json' },
+      { name: 'pinStatus', type: 'boolean', required: true, defaultValue: true, description: 'true to pin, false to unpin' }
+    ]
+  },
+  {
+    method: 'createThread',
+    label: 'Create Thread',
+    description: 'Start a new thread (separate chat history) in a workspace.',
+    params: [
+      { name: 'slug', type: 'slug', required: true, description: 'Target Workspace' },
+      { name: 'name', type: 'string', required: false, description: 'Thread name' }
+    ]
+  },
+  {
+    method: 'updateThread',
+    label: 'Rename Thread',
+    description: 'Change the name of a thread.',
+    params: [
+      { name: 'slug', type: 'slug', required: true, description: 'Target Workspace' },
+      { name: 'threadSlug', type: 'string', required: true, description: 'Thread slug' },
+      { name: 'name', type: 'string', required: true, description: 'New thread name' }
+    ]
+  },
+  {
+    method: 'deleteThread',
+    label: 'Delete Thread',
+    description: 'Delete a thread and its chat history.',
+    params: [
+      { name: 'slug', type: 'slug', required: true, description: 'Target Workspace' },
+      { name: 'threadSlug', type: 'string', required: true, description: 'Thread slug' }
+    ]
+  },
+  {
+    method: 'getThreadChats',
+    label: 'Get Thread History',
+    description: 'List the messages stored in a thread.',
+    params: [
+      { name: 'slug', type: 'slug', required: true, description: 'Target Workspace' },
+      { name: 'threadSlug', type: 'string', required: true, description: 'Thread slug' }
+    ]
+  },
+  {
+    method: 'sendThreadChat',
+    label: 'Send Thread Chat',
+    description: 'Send a prompt to a thread inside a workspace.',
     params: [
-      { name: 'slug', type: 'slug', required: true, description: 'Target Workspace' }
+      { name: 'slug', type: 'slug', required: true, description: 'Target Workspace' },
+      { name: 'threadSlug', type: 'string', required: true, description: 'Thread slug' },
+      { name: 'message', type: 'string', required: true, description: 'Your prompt' },
+      { name: 'mode', type: 'string', required: true, defaultValue: 'chat', options: ['chat', 'query'], description: 'Query mode only answers from embedded documents' }
+    ]
+  },
+  {
+    method: 'getDocuments',
+    label: 'List Documents',
+    description: 'List all documents in the library.',
+    params: []
+  },
+  {
+    method: 'uploadRawText',
+    label: 'Upload Raw Text',
+    description: 'Create a document from raw text.',
+    params: [
+      { name: 'textContent', type: 'string', required: true, description: 'Document body' },
+      { name: 'title', type: 'string', required: true, description: 'Document title' }
     ]
   },
   {
@@ -221,7 +878,25 @@ export const SDK_METHODS: SDKMethodDefinition[] = [
     params: [
       { name: 'slug', type: 'slug', required: true, description: 'Target Workspace' },
       { name: 'message', type: 'string', required: true, description: 'Your prompt' },
-      { name: 'mode', type: 'string', required: true, defaultValue: 'chat', description: '"chat" or "query"' }
+      { name: 'mode', type: 'string', required: true, defaultValue: 'chat', options: ['chat', 'query'], description: 'Query mode only answers from embedded documents' },
+      { name: 'sessionId', type: 'string', required: false, description: 'Optional session id to group history' }
+    ]
+  },
+  {
+    method: 'getWorkspaceChats',
+    label: 'Get Workspace Chats',
+    description: 'List the chat history of a workspace.',
+    params: [
+      { name: 'slug', type: 'slug', required: true, description: 'Target Workspace' },
+      { name: 'options', type: 'json', required: false, description: 'e.g. {"apiSessionId": "...", "limit": 50, "orderBy": "desc"}' }
+    ]
+  },
+  {
+    method: 'getSystemChats',
+    label: 'Get All Chats (Admin)',
+    description: 'Page through chats across every workspace and user.',
+    params: [
+      { name: 'offset', type: 'number', required: false, defaultValue: '0', description: 'Page index, starting at 0' }
     ]
   },
   {
@@ -229,5 +904,37 @@ export const SDK_METHODS: SDKMethodDefinition[] = [
     label: 'Get Users (Admin)',
     description: 'List all registered users.',
     params: []
+  },
+  {
+    method: 'getSystemStatus',
+    label: 'Get System Status',
+    description: 'Check whether the instance is in multi-user mode.',
+    params: []
+  },
+  {
+    method: 'getSystemSettings',
+    label: 'Get System Settings',
+    description: 'Show the active LLM, embedder and vector database configuration.',
+    params: []
+  },
+  {
+    method: 'getVectorCount',
+    label: 'Get Vector Count',
+    description: 'Count the vectors stored across the instance.',
+    params: []
+  },
+  {
+    method: 'getInvites',
+    label: 'Get Invites (Admin)',
+    description: 'List invitation codes and whether they were claimed.',
+    params: []
+  },
+  {
+    method: 'getWorkspaceUsers',
+    label: 'Get Workspace Users (Admin)',
+    description: 'List the ids of users with access to a workspace.',
+    params: [
+      { name: 'workspaceId', type: 'number', required: true, description: 'Workspace id (not slug)' }
+    ]
   }
 ];
\ No newline at end of file
@@ -0,0 +1,110 @@
+import { BatchItem, BatchResult } from '../types';
+import { parseCsv, csvRow } from './csv';
+
+/**
+ * Load prompt datasets and run them with bounded concurrency.
+ */
+
+// Column names accepted for each field, case-insensitive
+const PROMPT_COLUMNS = ['prompt', 'input', 'question'];
+const EXPECTED_COLUMNS = ['expected', 'answer', 'expected_answer', 'reference'];
+
+const pick = (record: Record<string, any>, names: string[]): any => {
+  const key = Object.keys(record).find(k => names.includes(k.trim().toLowerCase()));
+  return key !== undefined ? record[key] : undefined;
+};
+
+const toItem = (record: Record<string, any>, index: number): BatchItem | null => {
+  const prompt = pick(record, PROMPT_COLUMNS);
+  if (typeof prompt !== 'string' || !prompt.trim()) return null;
+  const expected = pick(record, EXPECTED_COLUMNS);
+  const id = record.id !== undefined && record.id !== '' ? String(record.id) : String(index + 1);
+  return { id, prompt, ...(expected !== undefined && expected !== '' ? { expected: String(expected) } : {}) };
+};
+
+/**
+ * Parse a CSV (with a header row) or JSONL dataset into batch items.
+ * Needs a `prompt` column/field; `expected` and `id` are optional.
+ * Throws with a readable message when no prompts are found.
+ */
+export const parseDataset = (text: string, filename = ''): BatchItem[] => {
+  const trimmed = text.trim();
+  const isJsonl = /\.jsonl?$/i.test(filename) || (!filename && trimmed.startsWith('{'));
+  let records: Record<string, any>[];
+
+  if (isJsonl) {
+    records = trimmed.split(/\r?\n/).filter(line => line.trim()).map((line, idx) => {
+      try {
+        return JSON.parse(line);
+      } catch {
+        throw new Error(`Line ${idx + 1} is not valid JSON.`);
+      }
+    });
+  } else {
+    const [header, ...rows] = parseCsv(trimmed);
+    if (!header) throw new Error('Dataset is empty.');
+    records = rows.map(row => Object.fromEntries(header.map((name, idx) => [name, row[idx] ?? ''])));
+  }
+
+  const seen = new Set<string>();
+  const items = records.map(toItem).filter((item): item is BatchItem => item !== null).map((item, idx) => {
+    // Results are keyed by id, so repeated ids get the row number appended
+    const id = seen.has(item.id) ? `${item.id}-${idx + 1}` : item.id;
+    seen.add(id);
+    return { ...item, id };
+  });
+  if (items.length === 0) {
+    throw new Error(`No prompts found. Add a "prompt" ${isJsonl ? 'field' : 'column'}.`);
+  }
+  return items;
+};
+
+/**
+ * Run `run` over every pending item with at most `concurrency` in flight.
+ * Stops picking up new items once `shouldPause` returns true; in-flight items still finish,
+ * so calling again later resumes with the items that are still pending.
+ */
+export const runBatch = async (
+  items: BatchItem[],
+  options: {
+    concurrency: number;
+    isPending: (item: BatchItem) => boolean;
+    run: (item: BatchItem) => Promise<void>;
+    shouldPause: () => boolean;
+  }
+): Promise<void> => {
+  const queue = items.filter(options.isPending);
+  const worker = async () => {
+    while (queue.length > 0 && !options.shouldPause()) {
+      await options.run(queue.shift()!);
+    }
+  };
+  const workers = Math.max(1, Math.min(options.concurrency, queue.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+};
+
+const exportRows = (items: BatchItem[], results: Record<string, BatchResult>) =>
+  items.map(item => {
+    const result = results[item.id];
+    return {
+      id: item.id,
+      prompt: item.prompt,
+      expected: item.expected ?? null,
+      status: result?.status ?? 'pending',
+      response: result?.response ?? null,
+      latencyMs: result?.latencyMs ?? null,
+      sources: (result?.sources || []).map(s => s.title),
+      error: result?.error ?? null
+    };
+  });
+
+export const batchToJsonl = (items: BatchItem[], results: Record<string, BatchResult>): string =>
+  exportRows(items, results).map(row => JSON.stringify(row)).join('\n');
+
+export const batchToCsv = (items: BatchItem[], results: Record<string, BatchResult>): string => {
+  const rows = exportRows(items, results);
+  return [
+    csvRow(['id', 'prompt', 'expected', 'status', 'response', 'latencyMs', 'sources', 'error']),
+    ...rows.map(r => csvRow([r.id, r.prompt, r.expected, r.status, r.response, r.latencyMs, r.sources.join('; '), r.error]))
+  ].join('\r\n');
+};
@@ -0,0 +1,51 @@
+import { AnythingLLMWorkspaceChat } from '../types';
+import { csvRow } from './csv';
+
+/**
+ * Serialize workspace chat logs for hand-off to reviewers.
+ */
+
+export type ChatExportFormat = 'json' | 'csv' | 'md';
+
+export const CHAT_EXPORT_MIME: Record<ChatExportFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv',
+  md: 'text/markdown'
+};
+
+const CSV_COLUMNS: (keyof AnythingLLMWorkspaceChat)[] = ['createdAt', 'workspaceSlug', 'user', 'threadId', 'prompt', 'response'];
+
+export const chatsToCsv = (chats: AnythingLLMWorkspaceChat[]): string =>
+  [
+    csvRow([...CSV_COLUMNS, 'sources']),
+    ...chats.map(chat => csvRow([
+      ...CSV_COLUMNS.map(col => chat[col]),
+      (chat.sources || []).map(s => s.title).join('; ')
+    ]))
+  ].join('\r\n');
+
+export const chatsToMarkdown = (chats: AnythingLLMWorkspaceChat[], title = 'Chat History'): string => {
+  const lines = [`# ${title}`, '', `_Exported ${new Date().toLocaleString()} · ${chats.length} exchange(s)_`, ''];
+  chats.forEach(chat => {
+    const meta = [chat.workspaceName || chat.workspaceSlug, chat.user, new Date(chat.createdAt).toLocaleString()]
+      .filter(Boolean)
+      .join(' · ');
+    lines.push('---', '', `**${meta}**`, '', '**User:**', '', chat.prompt, '', '**Assistant:**', '', chat.response, '');
+    if (chat.sources?.length) {
+      lines.push('Sources:', ...chat.sources.map(s => `- ${s.title}`), '');
+    }
+  });
+  return lines.join('\n');
+};
+
+export const chatsToJson = (chats: AnythingLLMWorkspaceChat[]): string =>
+  JSON.stringify({ exportedAt: new Date().toISOString(), chats }, null, 2);
+
+/**
+ * Render chats in the given format.
+ */
+export const exportChats = (chats: AnythingLLMWorkspaceChat[], format: ChatExportFormat, title?: string): string => {
+  if (format === 'csv') return chatsToCsv(chats);
+  if (format === 'md') return chatsToMarkdown(chats, title);
+  return chatsToJson(chats);
+};
@@ -0,0 +1,75 @@
+import { AnythingLLMSource } from '../types';
+
+/**
+ * Helpers for showing RAG sources next to an answer and estimating which
+ * answer sentences came from which retrieved chunk.
+ */
+
+export interface AttributedSegment {
+  text: string;
+  /** Index into the sources array, or null when no chunk supports this sentence */
+  sourceIndex: number | null;
+  /** Share of the sentence's content words found in the chunk (0–1) */
+  overlap: number;
+}
+
+// Sentences need at least this many content words, and this share of them found in one chunk
+const MIN_SENTENCE_WORDS = 4;
+const MIN_OVERLAP = 0.5;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was', 'one',
+  'our', 'out', 'has', 'his', 'how', 'its', 'may', 'who', 'did', 'yes', 'let', 'this', 'that', 'with',
+  'from', 'they', 'them', 'then', 'than', 'there', 'their', 'which', 'what', 'when', 'where', 'will',
+  'would', 'could', 'should', 'about', 'into', 'also', 'been', 'were', 'have', 'each', 'such', 'some',
+  'these', 'those', 'your', 'more', 'most', 'other', 'only', 'very', 'just', 'over', 'being', 'does'
+]);
+
+const contentWords = (text: string): string[] =>
+  Array.from(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(w => w.length >= 3 && !STOPWORDS.has(w));
+
+/**
+ * Normalized similarity for a source (0–1), or null if the vector DB reported none.
+ * Distance-based DBs report `_distance`; it is converted so higher is better.
+ */
+export const getSourceScore = (source: AnythingLLMSource): number | null => {
+  if (typeof source.score === 'number') return Math.max(0, Math.min(1, source.score));
+  if (typeof source._distance === 'number') return Math.max(0, Math.min(1, 1 - source._distance));
+  return null;
+};
+
+/**
+ * Where the chunk came from: URL, original file location, or the doc source label.
+ */
+export const getSourceLocation = (source: AnythingLLMSource): string | null =>
+  source.url || source.chunkSource || source.docSource || null;
+
+/**
+ * Split an answer into sentences and attribute each to the chunk sharing the most content words.
+ * This is lexical overlap, not model attribution: treat it as a grounding hint.
+ */
+export const attributeSentences = (answer: string, sources: AnythingLLMSource[]): AttributedSegment[] => {
+  const sourceWords = sources.map(s => new Set(contentWords(s.text || '')));
+  // Keep trailing whitespace/newlines with each sentence so the text round-trips exactly
+  const matched = answer.match(/[^.!?\n]+(?:[.!?]+|\n|$)\s*|\s+/g) || [];
+  // Stray punctuation the pattern can't place: fall back to treating the answer as one sentence
+  const sentences = matched.join('') === answer ? matched : [answer];
+
+  return sentences.map(text => {
+    const words = contentWords(text);
+    if (words.length < MIN_SENTENCE_WORDS || sources.length === 0) {
+      return { text, sourceIndex: null, overlap: 0 };
+    }
+
+    let best = { sourceIndex: null as number | null, overlap: 0 };
+    sourceWords.forEach((chunk, idx) => {
+      const hits = words.filter(w => chunk.has(w)).length;
+      const overlap = hits / words.length;
+      if (overlap > best.overlap) best = { sourceIndex: idx, overlap };
+    });
+
+    return best.overlap >= MIN_OVERLAP
+      ? { text, ...best }
+      : { text, sourceIndex: null, overlap: best.overlap };
+  });
+};
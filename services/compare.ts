@@ -0,0 +1,66 @@
+import { AppConfig, CompareTarget, ConnectionProfile, TargetRunResult } from '../types';
+import { getProvider } from './providers';
+import { generateId } from './conversations';
+
+/**
+ * Run one prompt against several models/workspaces, each possibly on a different server.
+ */
+
+/**
+ * A target for the given model, reusing the current connection when the provider matches.
+ */
+export const createTarget = (config: AppConfig, provider = config.provider, model = ''): CompareTarget => {
+  const sameProvider = provider === config.provider;
+  return {
+    id: generateId(),
+    provider,
+    model: model || (sameProvider ? config.model : getProvider(provider).defaultModel),
+    host: config.host,
+    port: sameProvider ? config.port : getProvider(provider).defaultPort,
+    apiKey: sameProvider ? config.apiKey : ''
+  };
+};
+
+/**
+ * A target using a saved profile's connection. Encrypted keys are not available here.
+ */
+export const targetFromProfile = (profile: ConnectionProfile): CompareTarget => ({
+  id: generateId(),
+  provider: profile.provider,
+  model: profile.model,
+  host: profile.host,
+  port: profile.port,
+  apiKey: profile.apiKey || ''
+});
+
+export const targetToConfig = (target: CompareTarget, base: AppConfig): AppConfig => ({
+  ...base,
+  provider: target.provider,
+  model: target.model,
+  host: target.host,
+  port: target.port,
+  apiKey: target.apiKey
+});
+
+export const describeTarget = (target: CompareTarget): string =>
+  `${getProvider(target.provider).label} / ${target.model || '—'}`;
+
+/**
+ * Send a single-turn prompt to a target and time it.
+ * AnythingLLM gets a fresh session so earlier runs don't leak into the answer.
+ */
+export const runTarget = async (target: CompareTarget, base: AppConfig, prompt: string): Promise<TargetRunResult> => {
+  const provider = getProvider(target.provider);
+  const started = performance.now();
+  const result = await provider.generate(targetToConfig(target, base), {
+    messages: [{ role: 'user', content: prompt }],
+    sessionId: generateId()
+  });
+  return {
+    response: result.response,
+    latencyMs: Math.round(performance.now() - started),
+    promptTokens: result.prompt_eval_count,
+    completionTokens: result.eval_count,
+    sources: result.sources
+  };
+};
@@ -0,0 +1,55 @@
+import { ChatMessage, ChatRole, Conversation, LLMProvider } from '../types';
+
+/**
+ * Generate a unique id. Falls back to a timestamp + random suffix when
+ * `crypto.randomUUID` is unavailable (e.g. non-secure origins).
+ */
+export const generateId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+/**
+ * Conversations are keyed by provider and model/workspace (plus thread, for
+ * AnythingLLM threads) so switching between them keeps each history separate.
+ */
+export const conversationKey = (provider: LLMProvider, model: string, threadSlug?: string): string =>
+  threadSlug ? `${provider}:${model}#${threadSlug}` : `${provider}:${model}`;
+
+export const createConversation = (provider: LLMProvider, model: string, threadSlug?: string): Conversation => ({
+  key: conversationKey(provider, model, threadSlug),
+  provider,
+  model,
+  ...(threadSlug ? { threadSlug } : {}),
+  sessionId: generateId(),
+  messages: [],
+  updatedAt: new Date().toISOString()
+});
+
+export const createMessage = (role: ChatRole, content: string): ChatMessage => ({
+  id: generateId(),
+  role,
+  content,
+  createdAt: new Date().toISOString()
+});
+
+/**
+ * Messages to send as chat history: assistant turns that failed or produced no
+ * text are left out so the model doesn't see them as real replies.
+ */
+export const historyForRequest = (messages: ChatMessage[]): ChatMessage[] =>
+  messages.filter(m => m.role !== 'assistant' || (!m.error && m.content.trim() !== ''));
+
+/**
+ * Conversations ready for localStorage: image data is dropped (only names are kept)
+ * so a few screenshots can't exhaust the storage quota.
+ */
+export const withoutImageData = (conversations: Record<string, Conversation>): Record<string, Conversation> =>
+  Object.fromEntries(Object.entries(conversations).map(([key, conversation]) => [key, {
+    ...conversation,
+    messages: conversation.messages.map(m =>
+      m.images ? { ...m, images: m.images.map(img => ({ ...img, dataUrl: '' })) } : m
+    )
+  }]));
@@ -0,0 +1,76 @@
+import { EncryptedSecret } from '../types';
+
+/**
+ * Passphrase-based encryption for secrets kept in browser storage (WebCrypto).
+ * The key is derived with PBKDF2-SHA256 and the secret sealed with AES-GCM,
+ * so a wrong passphrase fails authentication instead of returning garbage.
+ */
+
+const PBKDF2_ITERATIONS = 250_000;
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+/**
+ * True when WebCrypto is usable (requires a secure context such as https or localhost).
+ */
+export const isCryptoAvailable = (): boolean =>
+  typeof crypto !== 'undefined' && !!crypto.subtle;
+
+export const encryptSecret = async (plaintext: string, passphrase: string): Promise<EncryptedSecret> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+  return {
+    algorithm: 'AES-GCM',
+    iterations: PBKDF2_ITERATIONS,
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext))
+  };
+};
+
+/**
+ * Decrypt a secret. Throws if the passphrase is wrong or the data was tampered with.
+ */
+export const decryptSecret = async (secret: EncryptedSecret, passphrase: string): Promise<string> => {
+  const key = await deriveKey(passphrase, fromBase64(secret.salt), secret.iterations);
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(secret.iv) },
+      key,
+      fromBase64(secret.ciphertext)
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    throw new Error('Incorrect passphrase or corrupted key data.');
+  }
+};
@@ -0,0 +1,55 @@
+/**
+ * Minimal RFC 4180 CSV reading and writing for datasets and exports.
+ */
+
+/**
+ * Quote a value for a CSV cell, doubling embedded quotes.
+ */
+export const csvField = (value: unknown): string =>
+  `"${String(value ?? '').replace(/"/g, '""')}"`;
+
+export const csvRow = (values: unknown[]): string => values.map(csvField).join(',');
+
+/**
+ * Parse CSV text into rows of cells. Handles quoted fields with commas, quotes and newlines.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Drop blank lines
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
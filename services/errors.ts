@@ -0,0 +1,182 @@
+import { LLMErrorKind, LLMProvider } from '../types';
+
+/**
+ * Shared error model for every backend. Services throw subclasses of `LLMError`
+ * so the UI can tell a CORS failure from a bad key, a missing workspace, a timeout or a 5xx.
+ */
+
+const SERVICE_LABELS: Record<LLMProvider, string> = {
+  ollama: 'Ollama',
+  anythingllm: 'AnythingLLM',
+  openai: 'OpenAI'
+};
+
+export class LLMError extends Error {
+  readonly kind: LLMErrorKind;
+  readonly service: LLMProvider;
+  /** HTTP status, when the error came from a response */
+  readonly status?: number;
+  /** Whether retrying the same request may succeed */
+  readonly retryable: boolean;
+
+  constructor(
+    kind: LLMErrorKind,
+    message: string,
+    service: LLMProvider,
+    options: { status?: number; retryable?: boolean; cause?: unknown } = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = 'LLMError';
+    this.kind = kind;
+    this.service = service;
+    this.status = options.status;
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+/** Server unreachable or the browser blocked the request (usually CORS) */
+export class NetworkError extends LLMError {
+  constructor(message: string, service: LLMProvider, cause?: unknown) {
+    super('network', message, service, { retryable: true, cause });
+    this.name = 'NetworkError';
+  }
+}
+
+export class AuthError extends LLMError {
+  constructor(message: string, service: LLMProvider, status?: number) {
+    super('auth', message, service, { status });
+    this.name = 'AuthError';
+  }
+}
+
+export class NotFoundError extends LLMError {
+  constructor(message: string, service: LLMProvider, status = 404) {
+    super('not-found', message, service, { status });
+    this.name = 'NotFoundError';
+  }
+}
+
+export class RateLimitError extends LLMError {
+  /** From the `Retry-After` header, when present */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, service: LLMProvider, retryAfterMs?: number) {
+    super('rate-limit', message, service, { status: 429, retryable: true });
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class ServerError extends LLMError {
+  constructor(message: string, service: LLMProvider, status?: number) {
+    super('server', message, service, { status, retryable: true });
+    this.name = 'ServerError';
+  }
+}
+
+export class TimeoutError extends LLMError {
+  constructor(service: LLMProvider, timeoutMs: number, message?: string) {
+    super('timeout', message || `${SERVICE_LABELS[service]} did not respond within ${Math.round(timeoutMs / 1000)}s.`, service, { retryable: true });
+    this.name = 'TimeoutError';
+  }
+}
+
+/** Cancelled by the user. Keeps the DOM name so `isAbortError` checks still match. */
+export class AbortedError extends LLMError {
+  constructor(service: LLMProvider) {
+    super('aborted', 'Request was cancelled.', service);
+    this.name = 'AbortError';
+  }
+}
+
+/** Any other 4xx: the server understood but rejected the request */
+export class RequestError extends LLMError {
+  constructor(message: string, service: LLMProvider, status: number) {
+    super('bad-request', message, service, { status });
+    this.name = 'RequestError';
+  }
+}
+
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Build the matching error for a non-2xx response.
+ * @param context Message prefix, e.g. "Failed to create workspace". Defaults to "<Service> API Error".
+ */
+export const errorFromResponse = async (
+  response: Response,
+  service: LLMProvider,
+  context?: string
+): Promise<LLMError> => {
+  let detail = response.statusText;
+  try {
+    const body = await response.text();
+    if (body) {
+      try {
+        const data = JSON.parse(body);
+        detail = data.error?.message || data.error || data.message || body;
+      } catch {
+        detail = body;
+      }
+    }
+  } catch {
+    // Body unreadable; keep the status text
+  }
+
+  const message = `${context || `${SERVICE_LABELS[service]} API Error`} (${response.status}): ${detail}`;
+  const { status } = response;
+
+  if (status === 401 || status === 403) return new AuthError(message, service, status);
+  if (status === 404) return new NotFoundError(message, service);
+  if (status === 408) return new TimeoutError(service, 0, message);
+  if (status === 429) return new RateLimitError(message, service, parseRetryAfter(response.headers.get('Retry-After')));
+  if (status >= 500) return new ServerError(message, service, status);
+  return new RequestError(message, service, status);
+};
+
+/**
+ * Normalize anything thrown by `fetch` (or a service) into an `LLMError`.
+ * @param networkMessage Service-specific text for network/CORS failures
+ */
+export const toLLMError = (error: any, service: LLMProvider, networkMessage?: string): LLMError => {
+  if (error instanceof LLMError) return error;
+  if (error?.name === 'AbortError') return new AbortedError(service);
+
+  const message: string = error?.message || String(error);
+  // Chrome: "Failed to fetch", Firefox: "NetworkError when attempting...", Safari: "Load failed"
+  if (error instanceof TypeError || /Failed to fetch|NetworkError|Load failed/i.test(message)) {
+    return new NetworkError(
+      networkMessage || `Network Error. ${SERVICE_LABELS[service]} is unreachable or blocked the request (CORS).`,
+      service,
+      error
+    );
+  }
+  return new LLMError('unknown', message, service, { cause: error });
+};
+
+/**
+ * The kind of any thrown value, for errors that may not have passed through a service.
+ */
+export const getErrorKind = (error: any): LLMErrorKind =>
+  error instanceof LLMError ? error.kind : error?.name === 'AbortError' ? 'aborted' : 'unknown';
+
+/**
+ * Generic troubleshooting advice per error kind. Providers override entries via `errorAdvice`.
+ */
+export const DEFAULT_ERROR_ADVICE: Record<LLMErrorKind, string> = {
+  'network': 'The server is down or blocked the browser request (CORS). Check it is running on this host and port.',
+  'auth': 'The server rejected the credentials. Check the API key.',
+  'not-found': 'The model, workspace or endpoint does not exist. Check the name and port.',
+  'rate-limit': 'The server is throttling requests. Wait a moment and retry, or lower the concurrency.',
+  'server': 'The server hit an internal error. Check its logs; the model may have failed to load (e.g. out of memory).',
+  'timeout': 'No response within the timeout. Large models can take a while to load; raise the timeout in the connection settings.',
+  'aborted': 'The request was cancelled.',
+  'bad-request': 'The server rejected the request parameters.',
+  'unknown': ''
+};
@@ -0,0 +1,284 @@
+import {
+  AppConfig,
+  CompareTarget,
+  EvalAssertion,
+  EvalAssertionResult,
+  EvalAssertionType,
+  EvalCase,
+  EvalCaseResult,
+  EvalChange,
+  EvalRun,
+  EvalSuite,
+  TargetRunResult
+} from '../types';
+import { DEFAULT_JUDGE_THRESHOLD, MAX_EVAL_RUNS } from '../constants';
+import { describeTarget, runTarget } from './compare';
+import { getProvider } from './providers';
+import { validateJsonSchema, extractJson } from './json-schema';
+import { loadJSON, saveJSON, STORAGE_KEYS } from './storage';
+import { generateId } from './conversations';
+
+/**
+ * Eval suites: prompts with assertions, scored against a model or workspace,
+ * with each run compared to the one before it.
+ */
+
+export const ASSERTION_LABELS: Record<EvalAssertionType, string> = {
+  'contains': 'Contains',
+  'not-contains': 'Does not contain',
+  'regex': 'Matches regex',
+  'json-schema': 'Valid against JSON schema',
+  'cites-source': 'Cites document',
+  'llm-judge': 'LLM judge rubric'
+};
+
+// --- Persistence ---
+
+export const loadEvalSuites = (): EvalSuite[] => loadJSON<EvalSuite[]>(STORAGE_KEYS.evalSuites, []);
+
+export const saveEvalSuites = (suites: EvalSuite[]): void => saveJSON(STORAGE_KEYS.evalSuites, suites);
+
+// Runs per suite id, newest first
+export const loadEvalRuns = (): Record<string, EvalRun[]> => loadJSON<Record<string, EvalRun[]>>(STORAGE_KEYS.evalRuns, {});
+
+/**
+ * Add a run to the history, keeping the newest MAX_EVAL_RUNS per suite.
+ */
+export const recordEvalRun = (runs: Record<string, EvalRun[]>, run: EvalRun): Record<string, EvalRun[]> => {
+  const next = { ...runs, [run.suiteId]: [run, ...(runs[run.suiteId] || [])].slice(0, MAX_EVAL_RUNS) };
+  saveJSON(STORAGE_KEYS.evalRuns, next);
+  return next;
+};
+
+export const deleteEvalRuns = (runs: Record<string, EvalRun[]>, suiteId: string): Record<string, EvalRun[]> => {
+  const { [suiteId]: _removed, ...next } = runs;
+  saveJSON(STORAGE_KEYS.evalRuns, next);
+  return next;
+};
+
+export const createSuite = (name: string): EvalSuite => ({
+  id: generateId(),
+  name: name.trim() || 'Untitled suite',
+  cases: [],
+  updatedAt: new Date().toISOString()
+});
+
+export const createCase = (prompt = ''): EvalCase => ({
+  id: generateId(),
+  prompt,
+  assertions: [{ type: 'contains', value: '' }]
+});
+
+export const exportSuite = (suite: EvalSuite): string =>
+  JSON.stringify({ version: 1, suite }, null, 2);
+
+/**
+ * Parse an exported suite, giving it a fresh id so it never overwrites an existing one.
+ * Throws with a readable message when the file is not a suite export.
+ */
+export const parseSuiteImport = (json: string): EvalSuite => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON.');
+  }
+  const suite = data?.suite ?? data;
+  if (typeof suite?.name !== 'string' || !Array.isArray(suite.cases)) {
+    throw new Error('File is not an eval suite export.');
+  }
+  const cases: EvalCase[] = suite.cases
+    .filter((c: any) => typeof c?.prompt === 'string')
+    .map((c: any) => ({
+      id: generateId(),
+      prompt: c.prompt,
+      assertions: (Array.isArray(c.assertions) ? c.assertions : [])
+        .filter((a: any) => a && a.type in ASSERTION_LABELS)
+        .map((a: any) => ({ type: a.type, value: String(a.value ?? ''), ...(a.threshold !== undefined ? { threshold: Number(a.threshold) } : {}) }))
+    }));
+  return {
+    ...createSuite(suite.name),
+    cases,
+    ...(typeof suite.judgeModel === 'string' && suite.judgeModel ? { judgeModel: suite.judgeModel } : {})
+  };
+};
+
+// --- Scoring ---
+
+/**
+ * Connection for llm-judge assertions: the current server, or the local Ollama server
+ * on the same host when the current provider serves workspaces rather than models.
+ * JSON mode at temperature 0 (where honoured) so the same answer gets the same score.
+ */
+export const judgeConfig = (config: AppConfig, model: string): AppConfig => ({
+  ...config,
+  ...(getProvider(config.provider).capabilities.workspaces
+    ? { provider: 'ollama', port: getProvider('ollama').defaultPort, apiKey: '' }
+    : {}),
+  model,
+  generation: { format: 'json', options: { temperature: 0 } }
+});
+
+const buildJudgePrompt = (prompt: string, response: string, rubric: string): string => `You are grading an AI assistant's answer.
+
+Question:
+${prompt}
+
+Answer:
+${response}
+
+Rubric:
+${rubric}
+
+Score the answer from 0 (fails the rubric) to 10 (fully meets it).
+Reply with JSON only: {"score": <number>, "reason": "<one sentence>"}`;
+
+/**
+ * Read the judge's score, accepting the requested JSON or a bare "score: N".
+ */
+const parseJudgeReply = (reply: string): { score: number; reason?: string } => {
+  try {
+    const data: unknown = extractJson(reply);
+    if (data && typeof data === 'object' && 'score' in data && typeof data.score === 'number') {
+      const reason = 'reason' in data && typeof data.reason === 'string' ? data.reason : undefined;
+      return { score: data.score, reason };
+    }
+  } catch {
+    // fall through to the plain-text match
+  }
+  const match = reply.match(/score\D{0,5}(\d+(?:\.\d+)?)/i) || reply.match(/\b(\d+(?:\.\d+)?)\s*\/\s*10\b/);
+  if (!match) throw new Error(`Judge reply has no score: ${reply.slice(0, 120)}`);
+  return { score: Number(match[1]) };
+};
+
+const checkAssertion = async (
+  assertion: EvalAssertion,
+  prompt: string,
+  result: TargetRunResult,
+  judge: AppConfig | null
+): Promise<EvalAssertionResult> => {
+  const text = result.response;
+  switch (assertion.type) {
+    case 'contains':
+    case 'not-contains': {
+      const found = text.toLowerCase().includes(assertion.value.toLowerCase());
+      const passed = assertion.type === 'contains' ? found : !found;
+      return { passed, ...(passed ? {} : { detail: `"${assertion.value}" ${found ? 'found' : 'not found'}` }) };
+    }
+    case 'regex': {
+      const passed = new RegExp(assertion.value, 'i').test(text);
+      return { passed, ...(passed ? {} : { detail: `No match for /${assertion.value}/i` }) };
+    }
+    case 'json-schema': {
+      let schema: unknown;
+      try {
+        schema = JSON.parse(assertion.value);
+      } catch {
+        return { passed: false, detail: 'Schema is not valid JSON' };
+      }
+      try {
+        const errors = validateJsonSchema(extractJson(text), schema);
+        return { passed: errors.length === 0, ...(errors.length ? { detail: errors.slice(0, 3).join('; ') } : {}) };
+      } catch (e: any) {
+        return { passed: false, detail: e.message };
+      }
+    }
+    case 'cites-source': {
+      const titles = (result.sources || []).map(s => s.title);
+      const wanted = assertion.value.trim().toLowerCase();
+      const passed = wanted ? titles.some(t => t.toLowerCase().includes(wanted)) : titles.length > 0;
+      return {
+        passed,
+        ...(passed ? {} : { detail: titles.length ? `Cited: ${titles.join(', ')}` : 'No sources cited' })
+      };
+    }
+    case 'llm-judge': {
+      if (!judge?.model) return { passed: false, detail: 'No judge model set for this suite' };
+      const reply = await getProvider(judge.provider).generate(judge, {
+        messages: [{ role: 'user', content: buildJudgePrompt(prompt, text, assertion.value) }]
+      });
+      const { score, reason } = parseJudgeReply(reply.response);
+      const threshold = assertion.threshold ?? DEFAULT_JUDGE_THRESHOLD;
+      return { passed: score >= threshold, score, detail: `${score}/10${reason ? ` — ${reason}` : ''}` };
+    }
+  }
+};
+
+/**
+ * Send one case to the target and check every assertion.
+ * A failing assertion (e.g. a bad regex or an unreachable judge) fails only itself.
+ */
+export const runEvalCase = async (
+  evalCase: EvalCase,
+  target: CompareTarget,
+  base: AppConfig,
+  judge: AppConfig | null
+): Promise<EvalCaseResult> => {
+  let result: TargetRunResult;
+  try {
+    result = await runTarget(target, base, evalCase.prompt);
+  } catch (e: any) {
+    return { caseId: evalCase.id, prompt: evalCase.prompt, response: '', assertions: [], passed: false, error: e.message };
+  }
+
+  const assertions: EvalAssertionResult[] = [];
+  for (const assertion of evalCase.assertions) {
+    try {
+      assertions.push(await checkAssertion(assertion, evalCase.prompt, result, judge));
+    } catch (e: any) {
+      assertions.push({ passed: false, detail: e.message });
+    }
+  }
+
+  return {
+    caseId: evalCase.id,
+    prompt: evalCase.prompt,
+    response: result.response,
+    latencyMs: result.latencyMs,
+    sources: result.sources,
+    assertions,
+    passed: assertions.every(a => a.passed)
+  };
+};
+
+/**
+ * Run every case in order. Cases run one at a time so a local judge model isn't swamped.
+ */
+export const runEvalSuite = async (
+  suite: EvalSuite,
+  target: CompareTarget,
+  base: AppConfig,
+  onCaseDone?: (result: EvalCaseResult) => void
+): Promise<EvalRun> => {
+  const startedAt = new Date().toISOString();
+  const judge = suite.judgeModel ? judgeConfig(base, suite.judgeModel) : null;
+  const results: EvalCaseResult[] = [];
+  for (const evalCase of suite.cases) {
+    const result = await runEvalCase(evalCase, target, base, judge);
+    results.push(result);
+    onCaseDone?.(result);
+  }
+  return {
+    id: generateId(),
+    suiteId: suite.id,
+    target: describeTarget(target),
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    results
+  };
+};
+
+/**
+ * How each case in `current` moved since `previous`, keyed by case id.
+ */
+export const compareEvalRuns = (current: EvalRun, previous?: EvalRun): Record<string, EvalChange> => {
+  const before = new Map((previous?.results || []).map(r => [r.caseId, r.passed]));
+  return Object.fromEntries(current.results.map(r => {
+    const was = before.get(r.caseId);
+    const change: EvalChange =
+      was === undefined ? 'new' : was === r.passed ? (r.passed ? 'pass' : 'fail') : r.passed ? 'fixed' : 'regressed';
+    return [r.caseId, change];
+  }));
+};
+
+export const countPassed = (run: EvalRun): number => run.results.filter(r => r.passed).length;
@@ -0,0 +1,38 @@
+import { GenerationParams } from '../types';
+import { loadJSON, saveJSON, STORAGE_KEYS } from './storage';
+
+/**
+ * Generation parameters saved per model name, applied when that model is selected.
+ */
+
+export const loadGenerationPresets = (): Record<string, GenerationParams> =>
+  loadJSON<Record<string, GenerationParams>>(STORAGE_KEYS.generationPresets, {});
+
+export const saveGenerationPreset = (
+  presets: Record<string, GenerationParams>,
+  model: string,
+  params: GenerationParams
+): Record<string, GenerationParams> => {
+  const next = { ...presets, [model]: params };
+  saveJSON(STORAGE_KEYS.generationPresets, next);
+  return next;
+};
+
+export const deleteGenerationPreset = (
+  presets: Record<string, GenerationParams>,
+  model: string
+): Record<string, GenerationParams> => {
+  const { [model]: _removed, ...next } = presets;
+  saveJSON(STORAGE_KEYS.generationPresets, next);
+  return next;
+};
+
+/**
+ * True when nothing would be sent, i.e. the model's defaults apply.
+ */
+export const isDefaultGeneration = (params?: GenerationParams): boolean =>
+  !params ||
+  (!params.system?.trim() &&
+    !params.format &&
+    !params.keep_alive?.trim() &&
+    Object.values(params.options || {}).every(v => v === undefined || (Array.isArray(v) && v.length === 0)));
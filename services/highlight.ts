@@ -0,0 +1,103 @@
+/**
+ * Lightweight syntax highlighting for code blocks in replies. It is a
+ * tokenizer, not a parser: comments, strings, numbers, keywords and literals
+ * per language family, which is enough to make model output readable.
+ */
+
+export type CodeTokenType = 'plain' | 'comment' | 'string' | 'number' | 'keyword' | 'literal' | 'property';
+
+export interface CodeToken {
+  type: CodeTokenType;
+  text: string;
+}
+
+interface Grammar {
+  comments: string[];
+  keywords: string[];
+  literals: string[];
+}
+
+const C_COMMENTS = ['\\/\\/[^\\n]*', '\\/\\*[\\s\\S]*?(?:\\*\\/|$)'];
+const HASH_COMMENTS = ['#[^\\n]*'];
+
+const JS_KEYWORDS = ['const', 'let', 'var', 'function', 'return', 'if', 'else', 'for', 'while', 'do', 'switch', 'case', 'break', 'continue', 'new', 'class', 'extends', 'import', 'export', 'from', 'default', 'async', 'await', 'try', 'catch', 'finally', 'throw', 'typeof', 'instanceof', 'in', 'of', 'interface', 'type', 'enum', 'implements', 'public', 'private', 'protected', 'readonly', 'static', 'as', 'yield'];
+
+const GRAMMARS: Record<string, Grammar> = {
+  js: { comments: C_COMMENTS, keywords: JS_KEYWORDS, literals: ['true', 'false', 'null', 'undefined', 'this', 'NaN'] },
+  python: {
+    comments: HASH_COMMENTS,
+    keywords: ['def', 'return', 'if', 'elif', 'else', 'for', 'while', 'in', 'not', 'and', 'or', 'is', 'import', 'from', 'as', 'class', 'try', 'except', 'finally', 'raise', 'with', 'lambda', 'yield', 'async', 'await', 'pass', 'break', 'continue', 'global', 'nonlocal', 'del', 'assert'],
+    literals: ['True', 'False', 'None', 'self']
+  },
+  shell: {
+    comments: HASH_COMMENTS,
+    keywords: ['if', 'then', 'else', 'elif', 'fi', 'for', 'while', 'do', 'done', 'case', 'esac', 'function', 'export', 'local', 'return', 'echo', 'cd', 'sudo'],
+    literals: ['true', 'false']
+  },
+  sql: {
+    comments: ['--[^\\n]*', '\\/\\*[\\s\\S]*?(?:\\*\\/|$)'],
+    keywords: ['select', 'from', 'where', 'and', 'or', 'not', 'insert', 'into', 'values', 'update', 'set', 'delete', 'create', 'table', 'drop', 'alter', 'join', 'left', 'right', 'inner', 'outer', 'on', 'group', 'by', 'order', 'having', 'limit', 'offset', 'as', 'distinct', 'union', 'primary', 'key', 'index', 'in', 'like', 'is', 'case', 'when', 'then', 'end'],
+    literals: ['null', 'true', 'false']
+  },
+  c: {
+    comments: C_COMMENTS,
+    keywords: ['int', 'long', 'short', 'char', 'float', 'double', 'void', 'bool', 'auto', 'const', 'static', 'struct', 'enum', 'union', 'return', 'if', 'else', 'for', 'while', 'do', 'switch', 'case', 'break', 'continue', 'class', 'public', 'private', 'protected', 'new', 'delete', 'namespace', 'using', 'template', 'typename', 'include', 'func', 'package', 'import', 'var', 'type', 'go', 'defer', 'fn', 'let', 'mut', 'impl', 'trait', 'pub', 'use', 'mod', 'match', 'extends', 'implements', 'interface', 'final', 'throws', 'try', 'catch', 'throw'],
+    literals: ['true', 'false', 'null', 'nullptr', 'nil', 'NULL', 'this', 'self', 'None', 'Some']
+  },
+  json: { comments: [], keywords: [], literals: ['true', 'false', 'null'] }
+};
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  javascript: 'js', jsx: 'js', ts: 'js', typescript: 'js', tsx: 'js', mjs: 'js',
+  py: 'python', python3: 'python',
+  sh: 'shell', bash: 'shell', zsh: 'shell', console: 'shell', shell: 'shell', yaml: 'shell', yml: 'shell', toml: 'shell', dockerfile: 'shell',
+  sql: 'sql', postgres: 'sql', mysql: 'sql',
+  c: 'c', cpp: 'c', 'c++': 'c', h: 'c', java: 'c', go: 'c', rust: 'c', rs: 'c', cs: 'c', csharp: 'c', kotlin: 'c', swift: 'c', php: 'c',
+  json: 'json', jsonl: 'json'
+};
+
+const STRINGS = '"(?:[^"\\\\\\n]|\\\\.)*"|\'(?:[^\'\\\\\\n]|\\\\.)*\'|`(?:[^`\\\\]|\\\\.)*`';
+const NUMBERS = '\\b(?:0x[\\da-fA-F]+|\\d+(?:\\.\\d+)?(?:[eE][+-]?\\d+)?)\\b';
+
+const patternCache = new Map<string, { pattern: RegExp; types: CodeTokenType[] }>();
+
+const compile = (grammarName: string) => {
+  const cached = patternCache.get(grammarName);
+  if (cached) return cached;
+  const grammar = GRAMMARS[grammarName];
+  const words = (list: string[]) => `\\b(?:${list.join('|')})\\b`;
+  const rules: [CodeTokenType, string][] = [];
+  grammar.comments.forEach(c => rules.push(['comment', c]));
+  // JSON object keys: a string followed by a colon
+  if (grammarName === 'json') rules.push(['property', '"(?:[^"\\\\\\n]|\\\\.)*"(?=\\s*:)']);
+  rules.push(['string', STRINGS], ['number', NUMBERS]);
+  if (grammar.literals.length) rules.push(['literal', words(grammar.literals)]);
+  if (grammar.keywords.length) rules.push(['keyword', words(grammar.keywords)]);
+  const compiled = {
+    pattern: new RegExp(rules.map(([, source]) => `(${source})`).join('|'), grammarName === 'sql' ? 'gi' : 'g'),
+    types: rules.map(([type]) => type)
+  };
+  patternCache.set(grammarName, compiled);
+  return compiled;
+};
+
+/**
+ * Split code into typed tokens. Unknown languages come back as a single plain token.
+ */
+export const highlightCode = (code: string, lang: string): CodeToken[] => {
+  const grammarName = LANGUAGE_ALIASES[lang.toLowerCase()];
+  if (!grammarName) return [{ type: 'plain', text: code }];
+
+  const { pattern, types } = compile(grammarName);
+  const tokens: CodeToken[] = [];
+  let last = 0;
+  for (const match of code.matchAll(pattern)) {
+    if (!match[0]) continue;
+    if (match.index! > last) tokens.push({ type: 'plain', text: code.slice(last, match.index) });
+    const group = match.findIndex((value, idx) => idx > 0 && value !== undefined);
+    tokens.push({ type: types[group - 1], text: match[0] });
+    last = match.index! + match[0].length;
+  }
+  if (last < code.length) tokens.push({ type: 'plain', text: code.slice(last) });
+  return tokens;
+};
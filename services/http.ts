@@ -0,0 +1,97 @@
+import { AppConfig, LLMProvider, RequestPolicy } from '../types';
+import { DEFAULT_REQUEST_POLICY } from '../constants';
+import { LLMError, RateLimitError, TimeoutError, AbortedError, errorFromResponse, toLLMError } from './errors';
+
+/**
+ * `fetch` with a timeout, retry with exponential backoff and typed errors.
+ * Every service goes through `request` so failures surface as `LLMError` subclasses.
+ */
+
+export interface RequestOptions extends Omit<RequestInit, 'signal'> {
+  service: LLMProvider;
+  policy?: Partial<RequestPolicy>;
+  /** Caller's AbortSignal. Stays linked while the body is read, so streams can be stopped. */
+  signal?: AbortSignal;
+  /** Override the number of retries. Defaults to `policy.maxRetries` for GET/HEAD and 0 otherwise. */
+  retries?: number;
+  /** Message prefix for HTTP errors, e.g. "Failed to create workspace" */
+  context?: string;
+  /** Service-specific message for network/CORS failures */
+  networkMessage?: string;
+}
+
+// Only methods without side effects are retried automatically
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Timeout/retry settings taken from the connection config, for function-style services.
+ */
+export const policyFromConfig = (config: AppConfig): Partial<RequestPolicy> => {
+  const policy: Partial<RequestPolicy> = {};
+  if (typeof config.timeoutMs === 'number') policy.timeoutMs = config.timeoutMs;
+  if (typeof config.maxRetries === 'number') policy.maxRetries = config.maxRetries;
+  return policy;
+};
+
+const sleep = (ms: number, service: LLMProvider, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new AbortedError(service));
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new AbortedError(service));
+    }, { once: true });
+  });
+
+const backoffDelay = (attempt: number, baseDelayMs: number, error: LLMError): number => {
+  if (error instanceof RateLimitError && error.retryAfterMs !== undefined) {
+    return error.retryAfterMs;
+  }
+  // Full jitter keeps parallel retries (e.g. batch runs) from hammering the server in sync
+  return Math.random() * baseDelayMs * Math.pow(2, attempt);
+};
+
+const attempt = async (url: string, options: RequestOptions, timeoutMs: number): Promise<Response> => {
+  const { service, policy, signal, retries, context, networkMessage, ...init } = options;
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = timeoutMs > 0
+    ? setTimeout(() => { timedOut = true; controller.abort(); }, timeoutMs)
+    : undefined;
+
+  if (signal) {
+    if (signal.aborted) controller.abort();
+    else signal.addEventListener('abort', () => controller.abort(), { once: true });
+  }
+
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    if (!response.ok) throw await errorFromResponse(response, service, context);
+    return response;
+  } catch (error: any) {
+    if (error instanceof LLMError) throw error;
+    if (timedOut) throw new TimeoutError(service, timeoutMs);
+    throw toLLMError(error, service, networkMessage);
+  } finally {
+    // The timeout covers waiting for the response to start, not reading a long stream
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Perform a request, throwing an `LLMError` for network failures, timeouts and non-2xx responses.
+ */
+export const request = async (url: string, options: RequestOptions): Promise<Response> => {
+  const { timeoutMs, maxRetries, retryBaseDelayMs } = { ...DEFAULT_REQUEST_POLICY, ...options.policy };
+  const method = (options.method || 'GET').toUpperCase();
+  const retries = options.retries ?? (SAFE_METHODS.includes(method) ? maxRetries : 0);
+
+  for (let i = 0; ; i++) {
+    try {
+      return await attempt(url, options, timeoutMs);
+    } catch (error: any) {
+      if (!(error instanceof LLMError) || !error.retryable || i >= retries) throw error;
+      await sleep(backoffDelay(i, retryBaseDelayMs, error), options.service, options.signal);
+    }
+  }
+};
@@ -0,0 +1,47 @@
+import { ImageAttachment } from '../types';
+import { MAX_IMAGE_BYTES } from '../constants';
+import { generateId } from './conversations';
+
+/**
+ * Image attachments for vision models: reading dropped/pasted files and
+ * converting them to the shapes each API expects.
+ */
+
+/**
+ * Read an image file as a data URL. Throws with a readable message for
+ * non-images and files over MAX_IMAGE_BYTES.
+ */
+export const readImageFile = (file: File): Promise<ImageAttachment> => {
+  if (!file.type.startsWith('image/')) {
+    return Promise.reject(new Error(`"${file.name}" is not an image.`));
+  }
+  if (file.size > MAX_IMAGE_BYTES) {
+    return Promise.reject(new Error(`"${file.name}" is larger than ${MAX_IMAGE_BYTES / 1024 / 1024} MB.`));
+  }
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve({
+      id: generateId(),
+      // Pasted screenshots have no useful name
+      name: file.name || `pasted-image.${file.type.split('/')[1] || 'png'}`,
+      mime: file.type,
+      dataUrl: reader.result as string
+    });
+    reader.onerror = () => reject(new Error(`Could not read "${file.name}".`));
+    reader.readAsDataURL(file);
+  });
+};
+
+/** Images that still carry their data (not restored-from-storage placeholders) */
+export const loadedImages = (images: ImageAttachment[] = []): ImageAttachment[] =>
+  images.filter(img => img.dataUrl);
+
+/** Raw base64 for Ollama's `images` field, which takes no data URL prefix */
+export const toBase64 = (image: ImageAttachment): string => image.dataUrl.slice(image.dataUrl.indexOf(',') + 1);
+
+/** AnythingLLM chat `attachments` entry */
+export const toAnythingLLMAttachment = (image: ImageAttachment) => ({
+  name: image.name,
+  mime: image.mime,
+  contentString: image.dataUrl
+});
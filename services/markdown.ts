@@ -0,0 +1,214 @@
+/**
+ * A small markdown parser for model replies. It produces a plain tree that is
+ * rendered as React elements, so no HTML from the model ever reaches the DOM.
+ * Covers what LLMs typically emit: headings, paragraphs, fenced code, lists,
+ * blockquotes, tables, rules, and inline code/bold/italic/strikethrough/links.
+ */
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: InlineNode[] }
+  | { type: 'link'; href: string; children: InlineNode[] }
+  | { type: 'br' };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type BlockNode =
+  | { type: 'heading'; level: number; children: InlineNode[] }
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'code'; lang: string; text: string }
+  | { type: 'list'; ordered: boolean; start: number; items: BlockNode[][] }
+  | { type: 'blockquote'; children: BlockNode[] }
+  | { type: 'table'; align: TableAlign[]; header: InlineNode[][]; rows: InlineNode[][][] }
+  | { type: 'hr' };
+
+// --- Inline ---
+
+// Only these schemes become clickable links; anything else (e.g. javascript:) stays text
+const SAFE_LINK = /^(https?:|mailto:)/i;
+
+const INLINE_PATTERN = new RegExp(
+  [
+    '`([^`\\n]+)`',                                        // 1: code
+    '\\[([^\\]\\n]+)\\]\\(([^)\\s]+)(?:\\s+"[^"]*")?\\)',  // 2, 3: [text](href)
+    '\\*\\*(?=\\S)([\\s\\S]*?\\S)\\*\\*',                  // 4: **strong**
+    '__(?=\\S)([\\s\\S]*?\\S)__',                          // 5: __strong__
+    '~~(?=\\S)([\\s\\S]*?\\S)~~',                          // 6: ~~del~~
+    '\\*(?=[^\\s*])([\\s\\S]*?[^\\s*])\\*',                // 7: *em*
+    '(?<![\\w])_(?=[^\\s_])([\\s\\S]*?[^\\s_])_(?![\\w])', // 8: _em_
+    '(https?:\\/\\/[^\\s<>()]*[^\\s<>().,;:!?\'"])',       // 9: bare URL
+    '( {2,}|\\\\)\\n'                                       // 10: hard line break
+  ].join('|'),
+  'g'
+);
+
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let last = 0;
+  const pushText = (value: string) => {
+    if (!value) return;
+    const prev = nodes[nodes.length - 1];
+    if (prev?.type === 'text') prev.text += value;
+    else nodes.push({ type: 'text', text: value });
+  };
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const index = match.index!;
+    pushText(text.slice(last, index));
+    last = index + match[0].length;
+
+    if (match[1] !== undefined) nodes.push({ type: 'code', text: match[1] });
+    else if (match[2] !== undefined) {
+      const children = parseInline(match[2]);
+      if (SAFE_LINK.test(match[3])) nodes.push({ type: 'link', href: match[3], children });
+      else nodes.push(...children);
+    }
+    else if (match[4] !== undefined || match[5] !== undefined) nodes.push({ type: 'strong', children: parseInline(match[4] ?? match[5]) });
+    else if (match[6] !== undefined) nodes.push({ type: 'del', children: parseInline(match[6]) });
+    else if (match[7] !== undefined || match[8] !== undefined) nodes.push({ type: 'em', children: parseInline(match[7] ?? match[8]) });
+    else if (match[9] !== undefined) nodes.push({ type: 'link', href: match[9], children: [{ type: 'text', text: match[9] }] });
+    else nodes.push({ type: 'br' });
+  }
+  pushText(text.slice(last));
+  return nodes;
+};
+
+// --- Blocks ---
+
+const FENCE = /^\s*(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const QUOTE = /^\s{0,3}>\s?(.*)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const indentOf = (line: string) => line.match(/^\s*/)![0].replace(/\t/g, '    ').length;
+
+const splitRow = (line: string): string[] =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '').split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+
+const isTableStart = (lines: string[], i: number) =>
+  lines[i].includes('|') && i + 1 < lines.length && lines[i + 1].includes('-') && TABLE_DIVIDER.test(lines[i + 1]);
+
+const startsBlock = (lines: string[], i: number) =>
+  FENCE.test(lines[i]) || HEADING.test(lines[i]) || RULE.test(lines[i]) ||
+  LIST_ITEM.test(lines[i]) || QUOTE.test(lines[i]) || isTableStart(lines, i);
+
+const parseLines = (lines: string[]): BlockNode[] => {
+  const blocks: BlockNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const closing = new RegExp(`^\\s*${fence[1][0]}{${fence[1].length},}\\s*$`);
+      const body: string[] = [];
+      i++;
+      // An unterminated fence runs to the end, which keeps half-streamed code readable
+      while (i < lines.length && !closing.test(lines[i])) body.push(lines[i++]);
+      i++;
+      blocks.push({ type: 'code', lang: fence[2].toLowerCase(), text: body.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'hr' });
+      i++;
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitRow(line);
+      const align: TableAlign[] = splitRow(lines[i + 1]).map(cell =>
+        cell.startsWith(':') && cell.endsWith(':') ? 'center' : cell.endsWith(':') ? 'right' : cell.startsWith(':') ? 'left' : null
+      );
+      const rows: InlineNode[][][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].trim() && lines[i].includes('|')) {
+        const cells = splitRow(lines[i++]);
+        rows.push(header.map((_, idx) => parseInline(cells[idx] ?? '')));
+      }
+      blocks.push({ type: 'table', align, header: header.map(parseInline), rows });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const inner: string[] = [];
+      while (i < lines.length && lines[i].trim() && QUOTE.test(lines[i])) inner.push(lines[i++].match(QUOTE)![1]);
+      blocks.push({ type: 'blockquote', children: parseLines(inner) });
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      const baseIndent = indentOf(line);
+      const ordered = /\d/.test(item[2]);
+      const items: string[][] = [];
+      while (i < lines.length) {
+        const current = lines[i];
+        const marker = current.match(LIST_ITEM);
+        const indent = indentOf(current);
+        if (marker && indent <= baseIndent + 1 && /\d/.test(marker[2]) === ordered) {
+          items.push([marker[3]]);
+          i++;
+        } else if (current.trim() && indent > baseIndent) {
+          // Nested list or continuation line of the current item
+          items[items.length - 1].push(current.slice(Math.min(indent, baseIndent + 2)));
+          i++;
+        } else if (!current.trim() && i + 1 < lines.length && lines[i + 1].trim() && indentOf(lines[i + 1]) > baseIndent) {
+          items[items.length - 1].push('');
+          i++;
+        } else {
+          break;
+        }
+      }
+      blocks.push({
+        type: 'list',
+        ordered,
+        start: ordered ? parseInt(item[2], 10) : 1,
+        items: items.map(parseLines)
+      });
+      continue;
+    }
+
+    const paragraph: string[] = [line];
+    i++;
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines, i)) paragraph.push(lines[i++]);
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.map(l => l.replace(/^\s+/, '')).join('\n')) });
+  }
+
+  return blocks;
+};
+
+export const parseMarkdown = (text: string): BlockNode[] => parseLines(text.replace(/\r\n?/g, '\n').split('\n'));
+
+/**
+ * The reply as a JSON value when it is nothing but JSON, bare or in a single ```json fence.
+ * Returns undefined for prose, even if it contains JSON.
+ */
+export const parseJsonReply = (text: string): unknown => {
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/^```(?:json)?\s*\n([\s\S]*?)\n?```$/i);
+  const candidate = fenced ? fenced[1].trim() : trimmed;
+  if (!/^[[{]/.test(candidate)) return undefined;
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    return undefined;
+  }
+};
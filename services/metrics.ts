@@ -0,0 +1,108 @@
+import { LLMProvider, LLMResponse, MetricSample, ResponseMetrics } from '../types';
+import { MAX_METRIC_SAMPLES } from '../constants';
+import { generateId } from './conversations';
+
+/**
+ * Per-response timing and token metrics, and the session telemetry built from them.
+ */
+
+const NS_PER_MS = 1e6;
+
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Metrics for a finished response.
+ * Tokens/sec prefers Ollama's own `eval_duration`; otherwise it is estimated from the
+ * streaming window (first to last token), which needs a completion token count.
+ * @param startedAt `performance.now()` when the request was sent
+ * @param firstTokenAt `performance.now()` at the first streamed token, or null
+ */
+export const measureResponse = (
+  result: LLMResponse,
+  startedAt: number,
+  firstTokenAt: number | null,
+  finishedAt = performance.now()
+): ResponseMetrics => {
+  const metrics: ResponseMetrics = { latencyMs: Math.round(finishedAt - startedAt) };
+  if (firstTokenAt !== null) metrics.ttftMs = Math.round(firstTokenAt - startedAt);
+  if (result.load_duration) metrics.loadMs = Math.round(result.load_duration / NS_PER_MS);
+  if (result.prompt_eval_count !== undefined) metrics.promptTokens = result.prompt_eval_count;
+  if (result.eval_count !== undefined) metrics.completionTokens = result.eval_count;
+
+  if (result.eval_count && result.eval_duration) {
+    metrics.tokensPerSecond = round(result.eval_count / (result.eval_duration / 1e9));
+  } else if (result.eval_count && firstTokenAt !== null && finishedAt > firstTokenAt) {
+    metrics.tokensPerSecond = round(result.eval_count / ((finishedAt - firstTokenAt) / 1000));
+  }
+  return metrics;
+};
+
+/**
+ * Add a sample to the session telemetry, dropping the oldest beyond MAX_METRIC_SAMPLES.
+ */
+export const addMetricSample = (
+  samples: MetricSample[],
+  provider: LLMProvider,
+  model: string,
+  metrics: ResponseMetrics
+): MetricSample[] =>
+  [...samples, { ...metrics, id: generateId(), at: new Date().toISOString(), provider, model }].slice(-MAX_METRIC_SAMPLES);
+
+export const seriesKey = (sample: Pick<MetricSample, 'provider' | 'model'>): string => `${sample.provider}:${sample.model}`;
+
+export interface MetricSummary {
+  key: string;
+  provider: LLMProvider;
+  model: string;
+  count: number;
+  avgLatencyMs: number;
+  p95LatencyMs: number;
+  avgTtftMs?: number;
+  avgTokensPerSecond?: number;
+  totalTokens: number;
+}
+
+const average = (values: number[]): number | undefined =>
+  values.length ? values.reduce((a, b) => a + b, 0) / values.length : undefined;
+
+const percentile = (values: number[], p: number): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+};
+
+/**
+ * Aggregate samples per provider + model/workspace, in order of first appearance.
+ */
+export const summarizeMetrics = (samples: MetricSample[]): MetricSummary[] => {
+  const groups = new Map<string, MetricSample[]>();
+  samples.forEach(s => groups.set(seriesKey(s), [...(groups.get(seriesKey(s)) || []), s]));
+  return Array.from(groups.entries()).map(([key, group]) => {
+    const latencies = group.map(s => s.latencyMs);
+    const defined = (pick: (s: MetricSample) => number | undefined) =>
+      group.map(pick).filter((v): v is number => v !== undefined);
+    return {
+      key,
+      provider: group[0].provider,
+      model: group[0].model,
+      count: group.length,
+      avgLatencyMs: average(latencies)!,
+      p95LatencyMs: percentile(latencies, 95),
+      avgTtftMs: average(defined(s => s.ttftMs)),
+      avgTokensPerSecond: average(defined(s => s.tokensPerSecond)),
+      totalTokens: group.reduce((sum, s) => sum + (s.promptTokens || 0) + (s.completionTokens || 0), 0)
+    };
+  });
+};
+
+/**
+ * Short one-line description, e.g. "2.41s · TTFT 0.32s · 38.5 tok/s · 24 → 187 tokens".
+ */
+export const formatMetrics = (metrics: ResponseMetrics): string => {
+  const parts = [`${(metrics.latencyMs / 1000).toFixed(2)}s`];
+  if (metrics.ttftMs !== undefined) parts.push(`TTFT ${(metrics.ttftMs / 1000).toFixed(2)}s`);
+  if (metrics.tokensPerSecond !== undefined) parts.push(`${metrics.tokensPerSecond} tok/s`);
+  if (metrics.promptTokens !== undefined || metrics.completionTokens !== undefined) {
+    parts.push(`${metrics.promptTokens ?? '?'} → ${metrics.completionTokens ?? '?'} tokens`);
+  }
+  return parts.join(' · ');
+};
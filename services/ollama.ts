@@ -1,67 +1,239 @@
-import { AppConfig, LLMResponse } from '../types';
+import { AppConfig, ChatMessage, ImageAttachment, LLMErrorKind, OllamaOptions, LLMRequest, LLMResponse, OllamaModel, OllamaModelDetails, OllamaPullProgress } from '../types';
+import { readNdjson, isAbortError } from './streaming';
+import { request, policyFromConfig, RequestOptions } from './http';
+import { ServerError, getErrorKind } from './errors';
+import { loadedImages, toBase64 } from './images';
+
+const NETWORK_ERROR_MESSAGE = "Network/CORS Error. If Ollama is running, please restart it with environment variable OLLAMA_ORIGINS=\"*\"";
+
+/**
+ * Sends a request to the Ollama server with the config's timeout/retry policy.
+ * Non-2xx responses and network failures are thrown as `LLMError`s.
+ */
+const ollamaFetch = (config: AppConfig, path: string, options: Omit<RequestOptions, 'service'> = {}) =>
+  request(`${config.host}:${config.port}${path}`, {
+    ...options,
+    service: 'ollama',
+    policy: { ...policyFromConfig(config), ...options.policy },
+    networkMessage: NETWORK_ERROR_MESSAGE
+  });
+
+const postJson = (body: unknown, signal?: AbortSignal): Omit<RequestOptions, 'service'> => ({
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body),
+  signal
+});
+
+/**
+ * The config's generation parameters as request fields, leaving out anything unset
+ * so the model's own defaults apply.
+ */
+const generationFields = (config: AppConfig): Partial<LLMRequest> => {
+  const { system, format, keep_alive, options = {} } = config.generation || {};
+  const cleaned = Object.fromEntries(
+    Object.entries(options).filter(([, value]) => value !== undefined && value !== null && !(Array.isArray(value) && value.length === 0))
+  ) as OllamaOptions;
+  return {
+    ...(system?.trim() ? { system } : {}),
+    ...(format ? { format } : {}),
+    // Ollama reads bare numbers as seconds; "-1" keeps the model loaded indefinitely
+    ...(keep_alive?.trim() ? { keep_alive: /^-?\d+$/.test(keep_alive.trim()) ? Number(keep_alive) : keep_alive.trim() } : {}),
+    ...(Object.keys(cleaned).length > 0 ? { options: cleaned } : {})
+  };
+};
+
+// Ollama takes raw base64 images on each chat message
+const imagesField = (images?: ImageAttachment[]): { images?: string[] } => {
+  const loaded = loadedImages(images);
+  return loaded.length > 0 ? { images: loaded.map(toBase64) } : {};
+};
+
+/**
+ * `/api/chat` body for a conversation. The chat endpoint has no `system` field,
+ * so the system prompt becomes a leading system message unless the history already has one.
+ */
+const chatBody = (config: AppConfig, messages: Pick<ChatMessage, 'role' | 'content' | 'images'>[], stream: boolean) => {
+  const { system, ...fields } = generationFields(config);
+  const history = messages.map(({ role, content, images }) => ({ role, content, ...imagesField(images) }));
+  const withSystem = system && !history.some(m => m.role === 'system')
+    ? [{ role: 'system', content: system }, ...history]
+    : history;
+  return { model: config.model, messages: withSystem, stream, ...fields };
+};
+
+/**
+ * Timing and token statistics from a final (`done`) response. Durations are in nanoseconds.
+ */
+const timingsFrom = (data: any): Omit<LLMResponse, 'response'> => ({
+  created_at: data.created_at,
+  done: data.done,
+  total_duration: data.total_duration,
+  load_duration: data.load_duration,
+  prompt_eval_count: data.prompt_eval_count,
+  prompt_eval_duration: data.prompt_eval_duration,
+  eval_count: data.eval_count,
+  eval_duration: data.eval_duration
+});
 
 /**
  * Checks if the Ollama server is reachable.
  */
-export const checkConnection = async (config: AppConfig): Promise<{ success: boolean; error?: string }> => {
-  const baseUrl = `${config.host}:${config.port}`;
-  
+export const checkConnection = async (config: AppConfig): Promise<{ success: boolean; error?: string; errorKind?: LLMErrorKind }> => {
   try {
     // We strictly check Ollama root which returns 200 OK "Ollama is running"
-    const response = await fetch(baseUrl, { method: 'GET' });
-    if (!response.ok) {
-        return { success: false, error: `Server returned ${response.status} ${response.statusText}` };
-    }
+    await ollamaFetch(config, '', { method: 'GET', retries: 0 });
     return { success: true };
   } catch (e: any) {
-    const msg = e.message || "Unknown error";
-    if (msg.includes("Failed to fetch") || msg.includes("NetworkError")) {
-        return { 
-        success: false, 
-        error: "Network Error. If Ollama is running, this is a CORS issue. Please restart Ollama with OLLAMA_ORIGINS=\"*\"" 
-        };
+    return { success: false, error: e.message || "Unknown error", errorKind: getErrorKind(e) };
+  }
+};
+
+/**
+ * Reads an Ollama NDJSON stream, forwarding each token and returning the final statistics.
+ * Ollama answers with one object per token; the last one has `done: true` and carries the timings.
+ */
+const consumeStream = async (
+  response: Response,
+  onToken: (token: string) => void
+): Promise<LLMResponse> => {
+  let fullText = '';
+  let result: LLMResponse = { response: '' };
+
+  for await (const chunk of readNdjson(response)) {
+    if (chunk.error) {
+      throw new ServerError(`Ollama API Error: ${chunk.error}`, 'ollama');
+    }
+    const token = chunk.message?.content;
+    if (token) {
+      fullText += token;
+      onToken(token);
+    }
+    if (chunk.done) {
+      result = { response: fullText, ...timingsFrom(chunk), done: true };
     }
-    return { success: false, error: msg };
   }
+
+  return { ...result, response: fullText };
 };
 
 /**
- * Sends a prompt to Ollama
+ * Streams a multi-turn conversation through Ollama's `/api/chat` endpoint.
+ * The full message history is sent on every turn, as Ollama keeps no server-side state.
+ * @param messages The conversation so far, ending with the new user message
+ * @param onToken Called with each new piece of text as it arrives
+ * @param signal Optional AbortSignal to cancel the generation
  */
-export const generateResponse = async (
+export const streamChat = async (
   config: AppConfig,
-  prompt: string
+  messages: Pick<ChatMessage, 'role' | 'content' | 'images'>[],
+  onToken: (token: string) => void,
+  signal?: AbortSignal
 ): Promise<LLMResponse> => {
-  const baseUrl = `${config.host}:${config.port}`;
-  const url = `${baseUrl}/api/generate`;
-
   try {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        model: config.model,
-        prompt: prompt,
-        stream: false,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Ollama API Error: ${response.status} ${response.statusText}`);
-    }
+    const response = await ollamaFetch(config, '/api/chat', postJson(chatBody(config, messages, true), signal));
+    return await consumeStream(response, onToken);
+  } catch (error: any) {
+    if (!isAbortError(error)) console.error("Ollama chat failed:", error);
+    throw error;
+  }
+};
+
 
+/**
+ * Sends a multi-turn conversation to Ollama's `/api/chat` and waits for the full reply.
+ */
+export const chat = async (
+  config: AppConfig,
+  messages: Pick<ChatMessage, 'role' | 'content' | 'images'>[]
+): Promise<LLMResponse> => {
+  try {
+    const response = await ollamaFetch(config, '/api/chat', postJson(chatBody(config, messages, false)));
     const data = await response.json();
-    return {
-      response: data.response,
-      created_at: data.created_at,
-      done: data.done,
-      total_duration: data.total_duration
-    };
+    return { response: data.message?.content ?? '', ...timingsFrom(data) };
   } catch (error: any) {
-    console.error("Ollama generation failed:", error);
-    if (error.message && (error.message.includes("Failed to fetch") || error.message.includes("NetworkError"))) {
-        throw new Error("Network/CORS Error. Please restart Ollama with environment variable OLLAMA_ORIGINS=\"*\"");
-    }
+    console.error("Ollama chat failed:", error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Lists locally installed models with size, family and quantization (`/api/tags`).
+ */
+export const listModels = async (config: AppConfig): Promise<OllamaModel[]> => {
+  const response = await ollamaFetch(config, '/api/tags', { method: 'GET' });
+  const data = await response.json();
+  return data.models || [];
+};
+
+/**
+ * Lists the names of locally installed models.
+ */
+export const listModelNames = async (config: AppConfig): Promise<string[]> => {
+  const models = await listModels(config);
+  return models.map(m => m.name);
+};
+
+/**
+ * Shows the modelfile, parameters, template and capabilities of a model (`/api/show`).
+ */
+export const showModel = async (config: AppConfig, name: string): Promise<OllamaModelDetails> => {
+  // Read-only despite being a POST, so it is safe to retry
+  const response = await ollamaFetch(config, '/api/show', {
+    ...postJson({ model: name }),
+    retries: policyFromConfig(config).maxRetries
+  });
+  return response.json();
+};
+
+/**
+ * Whether a model accepts images: true/false from the `vision` capability reported by
+ * `/api/show`, or, on servers too old to report capabilities, a guess from a CLIP
+ * projector in the model families. Null when it can't be told.
+ */
+export const getVisionSupport = async (config: AppConfig, name: string): Promise<boolean | null> => {
+  const info = await showModel(config, name);
+  if (Array.isArray(info.capabilities)) return info.capabilities.includes('vision');
+  const families = info.details?.families || [];
+  if (families.some(f => f === 'clip' || f === 'mllama')) return true;
+  return null;
+};
+
+/**
+ * Downloads a model from the Ollama library (`/api/pull`), reporting progress as it streams.
+ * @param onProgress Called for every status line; `total`/`completed` are set while layers download
+ * @param signal Optional AbortSignal to cancel the download
+ */
+export const pullModel = async (
+  config: AppConfig,
+  name: string,
+  onProgress: (progress: OllamaPullProgress) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  const response = await ollamaFetch(config, '/api/pull', postJson({ model: name, stream: true }, signal));
+
+  for await (const chunk of readNdjson<OllamaPullProgress & { error?: string }>(response)) {
+    if (chunk.error) {
+      throw new ServerError(`Pull failed: ${chunk.error}`, 'ollama');
+    }
+    onProgress(chunk);
+  }
+};
+
+/**
+ * Deletes a local model (`/api/delete`).
+ */
+export const deleteModel = async (config: AppConfig, name: string): Promise<void> => {
+  await ollamaFetch(config, '/api/delete', {
+    method: 'DELETE',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ model: name }),
+  });
+};
+
+/**
+ * Copies a model under a new name (`/api/copy`), e.g. to create a tag before editing a Modelfile.
+ */
+export const copyModel = async (config: AppConfig, source: string, destination: string): Promise<void> => {
+  await ollamaFetch(config, '/api/copy', postJson({ source, destination }));
+};
@@ -0,0 +1,133 @@
+import { AppConfig, ChatMessage, LLMErrorKind, LLMResponse } from '../types';
+import { readSse, isAbortError } from './streaming';
+import { request, policyFromConfig, RequestOptions } from './http';
+import { ServerError, getErrorKind } from './errors';
+
+/**
+ * Client for servers exposing the OpenAI REST API shape
+ * (`/v1/models`, `/v1/chat/completions`): LM Studio, llama.cpp server, vLLM, LocalAI.
+ */
+
+const CORS_HINT = "Network Error. If the server is running, this is a CORS issue. Enable CORS on the server (LM Studio: Developer > Enable CORS, vLLM: --allowed-origins '[\"*\"]').";
+
+const getBaseUrl = (config: AppConfig) => `${config.host.replace(/\/$/, '')}:${config.port}/v1`;
+
+const buildHeaders = (config: AppConfig): Record<string, string> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  // The key is optional: most local servers accept anything or nothing
+  if (config.apiKey?.trim()) {
+    headers['Authorization'] = `Bearer ${config.apiKey.trim()}`;
+  }
+  return headers;
+};
+
+const openAIFetch = (config: AppConfig, path: string, options: Omit<RequestOptions, 'service'> = {}) =>
+  request(`${getBaseUrl(config)}${path}`, {
+    ...options,
+    headers: { ...buildHeaders(config), ...(options.headers as Record<string, string>) },
+    service: 'openai',
+    policy: policyFromConfig(config),
+    networkMessage: CORS_HINT
+  });
+
+/**
+ * Checks if the server is reachable by listing its models.
+ */
+export const checkConnection = async (config: AppConfig): Promise<{ success: boolean; error?: string; errorKind?: LLMErrorKind }> => {
+  try {
+    await openAIFetch(config, '/models', { method: 'GET', retries: 0 });
+    return { success: true };
+  } catch (e: any) {
+    return { success: false, error: e.message || "Unknown error", errorKind: getErrorKind(e) };
+  }
+};
+
+/**
+ * Lists model ids served by `/v1/models`.
+ */
+export const listModels = async (config: AppConfig): Promise<string[]> => {
+  const response = await openAIFetch(config, '/models', { method: 'GET' });
+  const data = await response.json();
+  return (data.data || []).map((m: any) => m.id);
+};
+
+/**
+ * Sends a conversation to `/v1/chat/completions` and waits for the full reply.
+ */
+export const chat = async (
+  config: AppConfig,
+  messages: Pick<ChatMessage, 'role' | 'content'>[]
+): Promise<LLMResponse> => {
+  try {
+    const response = await openAIFetch(config, '/chat/completions', {
+      method: 'POST',
+      body: JSON.stringify({
+        model: config.model,
+        messages: messages.map(({ role, content }) => ({ role, content })),
+        stream: false,
+      }),
+    });
+
+    const data = await response.json();
+    return {
+      response: data.choices?.[0]?.message?.content ?? '',
+      created_at: data.created ? new Date(data.created * 1000).toISOString() : undefined,
+      done: true,
+      id: data.id,
+      prompt_eval_count: data.usage?.prompt_tokens,
+      eval_count: data.usage?.completion_tokens
+    };
+  } catch (error: any) {
+    console.error("OpenAI-compatible chat failed:", error);
+    throw error;
+  }
+};
+
+/**
+ * Streams a conversation from `/v1/chat/completions` (SSE, terminated by `data: [DONE]`).
+ * @param onToken Called with each new piece of text as it arrives
+ * @param signal Optional AbortSignal to cancel the generation
+ */
+export const streamChat = async (
+  config: AppConfig,
+  messages: Pick<ChatMessage, 'role' | 'content'>[],
+  onToken: (token: string) => void,
+  signal?: AbortSignal
+): Promise<LLMResponse> => {
+  try {
+    const response = await openAIFetch(config, '/chat/completions', {
+      method: 'POST',
+      headers: { 'Accept': 'text/event-stream' },
+      body: JSON.stringify({
+        model: config.model,
+        messages: messages.map(({ role, content }) => ({ role, content })),
+        stream: true,
+      }),
+      signal,
+    });
+
+    let fullText = '';
+    let id: string | undefined;
+    let usage: any;
+
+    // `[DONE]` is not JSON, so readSse skips it and the loop ends with the body
+    for await (const chunk of readSse(response)) {
+      if (chunk.error) {
+        throw new ServerError(`OpenAI API Error: ${chunk.error.message || chunk.error}`, 'openai');
+      }
+      id = id || chunk.id;
+      // Some servers report token usage on the final chunk
+      usage = chunk.usage || usage;
+      const token = chunk.choices?.[0]?.delta?.content;
+      if (token) {
+        fullText += token;
+        onToken(token);
+      }
+    }
+
+    return { response: fullText, done: true, id, prompt_eval_count: usage?.prompt_tokens, eval_count: usage?.completion_tokens };
+  } catch (error: any) {
+    if (!isAbortError(error)) console.error("OpenAI-compatible streaming failed:", error);
+    throw error;
+  }
+};
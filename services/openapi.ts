@@ -0,0 +1,374 @@
+import { HttpVerb, SDKMethodDefinition, SDKMethodParam, SDKParamType } from '../types';
+import { AnythingLLMClient, SDK_METHODS } from './anythingllm-sdk';
+
+/**
+ * Playground methods and TypeScript models generated from an OpenAPI document,
+ * such as AnythingLLM's swagger definitions. Only the parts of OpenAPI 3 (and
+ * Swagger 2) that AnythingLLM's spec uses are modelled. Its request bodies are
+ * mostly described by examples rather than schemas, so both are supported.
+ */
+
+export interface OpenApiSchema {
+  type?: string;
+  format?: string;
+  description?: string;
+  properties?: Record<string, OpenApiSchema>;
+  required?: string[];
+  items?: OpenApiSchema;
+  additionalProperties?: boolean | OpenApiSchema;
+  enum?: unknown[];
+  nullable?: boolean;
+  allOf?: OpenApiSchema[];
+  oneOf?: OpenApiSchema[];
+  anyOf?: OpenApiSchema[];
+  example?: unknown;
+  default?: unknown;
+  $ref?: string;
+}
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie' | 'body' | 'formData';
+  required?: boolean;
+  description?: string;
+  schema?: OpenApiSchema;
+  /** Swagger 2 puts the type on the parameter itself */
+  type?: string;
+  $ref?: string;
+}
+
+interface OpenApiMediaType {
+  schema?: OpenApiSchema;
+  example?: unknown;
+}
+
+export interface OpenApiOperation {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  deprecated?: boolean;
+  parameters?: OpenApiParameter[];
+  requestBody?: { required?: boolean; content?: Record<string, OpenApiMediaType>; $ref?: string };
+  responses?: Record<string, { description?: string; content?: Record<string, OpenApiMediaType>; schema?: OpenApiSchema }>;
+}
+
+type OpenApiPathItem = Partial<Record<Lowercase<HttpVerb>, OpenApiOperation>> & { parameters?: OpenApiParameter[] };
+
+export interface OpenApiDocument {
+  openapi?: string;
+  swagger?: string;
+  info?: { title?: string; version?: string };
+  servers?: { url: string }[];
+  basePath?: string;
+  paths: Record<string, OpenApiPathItem>;
+  components?: Record<string, Record<string, any>>;
+  definitions?: Record<string, OpenApiSchema>;
+}
+
+const VERBS: HttpVerb[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+// Where swagger-ui-express (used by AnythingLLM at /api/docs) exposes the document
+const SPEC_PATHS = ['/api/docs/swagger-ui-init.js', '/api/docs/openapi.json'];
+
+// --- Loading ---
+
+const isOpenApiDocument = (value: any): value is OpenApiDocument =>
+  !!value && typeof value === 'object' && (typeof value.openapi === 'string' || typeof value.swagger === 'string') &&
+  !!value.paths && typeof value.paths === 'object';
+
+// The `"swaggerDoc": {...}` object embedded in swagger-ui-init.js, found by brace matching
+const extractSwaggerDoc = (script: string): string | null => {
+  const key = script.search(/["']?swaggerDoc["']?\s*:\s*\{/);
+  if (key === -1) return null;
+  const start = script.indexOf('{', key);
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = start; i < script.length; i++) {
+    const ch = script[i];
+    if (quote) {
+      if (ch === '\\') i++;
+      else if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '{') {
+      depth++;
+    } else if (ch === '}' && --depth === 0) {
+      return script.slice(start, i + 1);
+    }
+  }
+  return null;
+};
+
+/**
+ * Parse an OpenAPI document from JSON, or from the swagger-ui init script that embeds one.
+ * @throws Error when the text is not an OpenAPI/Swagger document
+ */
+export const parseOpenApiDocument = (text: string): OpenApiDocument => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    const embedded = extractSwaggerDoc(text);
+    if (!embedded) throw new Error('Not a JSON OpenAPI document');
+    value = JSON.parse(embedded);
+  }
+  if (!isOpenApiDocument(value)) throw new Error('Missing "openapi"/"swagger" version or "paths"');
+  return value;
+};
+
+/**
+ * Fetch the running server's OpenAPI document.
+ * @throws Error when none of the known locations serve one
+ */
+export const fetchOpenApiSpec = async (client: AnythingLLMClient): Promise<OpenApiDocument> => {
+  for (const path of SPEC_PATHS) {
+    try {
+      const result = await client.callEndpoint('GET', path, { auth: false });
+      if (isOpenApiDocument(result)) return result;
+      if (typeof result === 'string') return parseOpenApiDocument(result);
+    } catch {
+      // Try the next location
+    }
+  }
+  throw new Error('The server did not return an OpenAPI document at /api/docs. Download it from the server and import the file instead.');
+};
+
+// --- Helpers ---
+
+const resolveRef = <T>(doc: OpenApiDocument, value: T & { $ref?: string }): T => {
+  if (!value?.$ref?.startsWith('#/')) return value;
+  const target = value.$ref.slice(2).split('/').reduce<any>((node, key) => node?.[key.replace(/~1/g, '/').replace(/~0/g, '~')], doc);
+  return target ?? value;
+};
+
+/** Path prefix of the API, e.g. `/api` from `servers: [{ url: '/api' }]` */
+const serverBasePath = (doc: OpenApiDocument): string => {
+  const url = doc.servers?.[0]?.url ?? doc.basePath ?? '';
+  const path = /^https?:\/\//i.test(url) ? new URL(url).pathname : url;
+  return path.replace(/\/$/, '');
+};
+
+// Split into words, lowering all-caps ones so "GET" reads as "Get"
+const words = (text: string) =>
+  text.replace(/[{}]/g, '').split(/[^A-Za-z0-9]+/).filter(Boolean).map(w => (w === w.toUpperCase() ? w.toLowerCase() : w));
+
+const camelCase = (text: string) =>
+  words(text).map((w, i) => (i === 0 ? w.toLowerCase() : w[0].toUpperCase() + w.slice(1))).join('');
+
+const pascalCase = (text: string) => words(text).map(w => w[0].toUpperCase() + w.slice(1)).join('') || 'Anonymous';
+
+// AnythingLLM writes enums in examples as "query | chat"
+const exampleOptions = (value: unknown): string[] | undefined =>
+  typeof value === 'string' && /^[\w-]+( \| [\w-]+)+$/.test(value) ? value.split(' | ') : undefined;
+
+const paramTypeOf = (schema: OpenApiSchema | undefined, example?: unknown): SDKParamType => {
+  const type = schema?.type ?? (example === undefined || example === null ? undefined : Array.isArray(example) ? 'array' : typeof example);
+  if (type === 'integer' || type === 'number') return 'number';
+  if (type === 'boolean') return 'boolean';
+  if (type === 'object' || type === 'array') return 'json';
+  return 'string';
+};
+
+// Form values are strings except for toggles
+const formDefault = (type: SDKParamType, value: unknown) => {
+  if (value === undefined || value === null) return undefined;
+  if (type === 'boolean') return Boolean(value);
+  if (type === 'json') return JSON.stringify(value, null, 2);
+  return String(value);
+};
+
+const firstLine = (text = '') => text.trim().split('\n')[0].slice(0, 200);
+
+const jsonMedia = (content: Record<string, OpenApiMediaType> = {}): [string, OpenApiMediaType] | undefined =>
+  Object.entries(content).find(([type]) => type.includes('json')) ?? Object.entries(content)[0];
+
+// --- Playground methods ---
+
+const toParam = (doc: OpenApiDocument, raw: OpenApiParameter): SDKMethodParam | null => {
+  const param = resolveRef(doc, raw);
+  if (param.in !== 'path' && param.in !== 'query') return null;
+  const schema = param.schema ? resolveRef(doc, param.schema) : { type: param.type };
+  const type = param.in === 'path' && param.name === 'slug' ? 'slug' : paramTypeOf(schema);
+  return {
+    name: param.name,
+    type,
+    required: param.in === 'path' || !!param.required,
+    description: firstLine(param.description ?? schema.description),
+    defaultValue: formDefault(type, schema.default ?? schema.example),
+    options: schema.enum?.map(String),
+    in: param.in
+  };
+};
+
+const bodyParams = (doc: OpenApiDocument, op: OpenApiOperation, taken: Set<string>): { params: SDKMethodParam[]; rawBody: boolean; multipart: boolean } => {
+  const body = op.requestBody && resolveRef(doc, op.requestBody);
+  const media = jsonMedia(body?.content);
+  if (!media) return { params: [], rawBody: false, multipart: false };
+
+  const [contentType, { schema: rawSchema, example }] = media;
+  const multipart = contentType.startsWith('multipart/');
+  const schema = rawSchema ? resolveRef(doc, rawSchema) : undefined;
+  const sample = example ?? schema?.example;
+
+  if (schema?.properties || (sample && typeof sample === 'object' && !Array.isArray(sample))) {
+    const properties = schema?.properties ?? {};
+    const names = Object.keys(schema?.properties ?? sample as object);
+    const params = names.filter(name => !taken.has(name)).map(name => {
+      const prop = properties[name] ? resolveRef(doc, properties[name]) : undefined;
+      const value = (sample as Record<string, unknown> | undefined)?.[name] ?? prop?.example ?? prop?.default;
+      const type = paramTypeOf(prop, value);
+      const options = prop?.enum?.map(String) ?? exampleOptions(value);
+      return {
+        name,
+        type,
+        required: !!schema?.required?.includes(name),
+        description: firstLine(prop?.description),
+        defaultValue: options && !prop?.enum ? options[0] : formDefault(type, value),
+        options,
+        in: 'body' as const
+      };
+    });
+    return { params, rawBody: false, multipart };
+  }
+
+  return {
+    params: [{ name: 'body', type: 'json', required: !!body?.required, description: 'Request body', defaultValue: formDefault('json', sample), in: 'body' }],
+    rawBody: true,
+    multipart
+  };
+};
+
+/**
+ * One playground method per operation, grouped by tag. Method names are the
+ * operationId when present, otherwise derived from verb and path, and never
+ * reuse the name of a hand-written SDK method.
+ */
+export const generateSdkMethods = (doc: OpenApiDocument): SDKMethodDefinition[] => {
+  const basePath = serverBasePath(doc);
+  const used = new Set(SDK_METHODS.map(m => m.method));
+  const methods: SDKMethodDefinition[] = [];
+
+  Object.entries(doc.paths).forEach(([path, item]) => {
+    VERBS.forEach(verb => {
+      const op = item[verb.toLowerCase() as Lowercase<HttpVerb>];
+      if (!op) return;
+
+      const params = [...(item.parameters ?? []), ...(op.parameters ?? [])]
+        .map(p => toParam(doc, p))
+        .filter((p): p is SDKMethodParam => p !== null);
+      const body = bodyParams(doc, op, new Set(params.map(p => p.name)));
+
+      const baseName = camelCase(op.operationId ?? `${verb} ${path}`);
+      let method = baseName;
+      for (let n = 2; used.has(method); n++) method = `${baseName}${n}`;
+      used.add(method);
+
+      methods.push({
+        method,
+        label: `${verb} ${path}${op.deprecated ? ' (deprecated)' : ''}`,
+        description: firstLine(op.summary || op.description),
+        params: [...params, ...body.params],
+        tag: op.tags?.[0] ?? 'Other',
+        endpoint: { verb, path: `${basePath}${path}`, rawBody: body.rawBody || undefined, multipart: body.multipart || undefined }
+      });
+    });
+  });
+
+  return methods.sort((a, b) => a.tag!.localeCompare(b.tag!));
+};
+
+// --- TypeScript models ---
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+const propertyKey = (name: string) => (IDENTIFIER.test(name) ? name : JSON.stringify(name));
+
+const objectType = (entries: [string, string, boolean][], indent: string): string => {
+  if (entries.length === 0) return 'Record<string, unknown>';
+  const inner = `${indent}  `;
+  return `{\n${entries.map(([name, type, optional]) => `${inner}${propertyKey(name)}${optional ? '?' : ''}: ${type};`).join('\n')}\n${indent}}`;
+};
+
+const exampleType = (value: unknown, indent = ''): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return value.length ? `Array<${exampleType(value[0], indent)}>` : 'unknown[]';
+  if (typeof value === 'object') {
+    return objectType(Object.entries(value as object).map(([k, v]) => [k, exampleType(v, `${indent}  `), false]), indent);
+  }
+  const options = exampleOptions(value);
+  if (options) return options.map(o => JSON.stringify(o)).join(' | ');
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return typeof value;
+  return 'unknown';
+};
+
+const schemaType = (doc: OpenApiDocument, schema: OpenApiSchema | undefined, indent = ''): string => {
+  if (!schema) return 'unknown';
+  if (schema.$ref) return pascalCase(schema.$ref.split('/').pop()!);
+
+  let type: string;
+  if (schema.enum) type = schema.enum.map(v => JSON.stringify(v)).join(' | ');
+  else if (schema.allOf) type = schema.allOf.map(s => schemaType(doc, s, indent)).join(' & ');
+  else if (schema.oneOf || schema.anyOf) type = (schema.oneOf ?? schema.anyOf)!.map(s => schemaType(doc, s, indent)).join(' | ');
+  else if (schema.type === 'integer' || schema.type === 'number') type = 'number';
+  else if (schema.type === 'string') type = schema.format === 'binary' ? 'Blob' : 'string';
+  else if (schema.type === 'boolean') type = 'boolean';
+  else if (schema.type === 'array') type = `Array<${schemaType(doc, schema.items, indent)}>`;
+  else if (schema.properties) {
+    type = objectType(
+      Object.entries(schema.properties).map(([k, v]) => [k, schemaType(doc, v, `${indent}  `), !schema.required?.includes(k)]),
+      indent
+    );
+  } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+    type = `Record<string, ${schemaType(doc, schema.additionalProperties, indent)}>`;
+  } else if (schema.example !== undefined) {
+    type = exampleType(schema.example, indent);
+  } else {
+    type = schema.type === 'object' ? 'Record<string, unknown>' : 'unknown';
+  }
+  return schema.nullable ? `${type} | null` : type;
+};
+
+const mediaType = (doc: OpenApiDocument, media: OpenApiMediaType | undefined): string | null => {
+  if (!media) return null;
+  if (media.schema && (media.schema.$ref || media.schema.type || media.schema.properties || media.schema.allOf || media.schema.oneOf)) {
+    return schemaType(doc, media.schema);
+  }
+  const example = media.example ?? media.schema?.example;
+  return example === undefined ? null : exampleType(example);
+};
+
+/**
+ * TypeScript declarations for the document's schemas and each operation's
+ * request body and success response, as a module to download.
+ */
+export const generateTypeScriptModels = (doc: OpenApiDocument): string => {
+  const title = [doc.info?.title, doc.info?.version].filter(Boolean).join(' ') || 'OpenAPI';
+  const out: string[] = [`/**\n * Generated from the ${title} spec. Do not edit by hand.\n */`];
+
+  const schemas = { ...doc.definitions, ...doc.components?.schemas } as Record<string, OpenApiSchema>;
+  Object.entries(schemas).forEach(([name, schema]) => {
+    out.push(`export type ${pascalCase(name)} = ${schemaType(doc, schema)};`);
+  });
+
+  Object.entries(doc.paths).forEach(([path, item]) => {
+    VERBS.forEach(verb => {
+      const op = item[verb.toLowerCase() as Lowercase<HttpVerb>];
+      if (!op) return;
+      const name = pascalCase(op.operationId ?? `${verb} ${path}`);
+      const body = op.requestBody && resolveRef(doc, op.requestBody);
+      const request = mediaType(doc, jsonMedia(body?.content)?.[1]);
+      const successCode = Object.keys(op.responses ?? {}).find(code => code.startsWith('2'));
+      const success = successCode ? resolveRef(doc, op.responses![successCode]) : undefined;
+      const response = success?.schema ? schemaType(doc, success.schema) : mediaType(doc, jsonMedia(success?.content)?.[1]);
+      if (!request && !response) return;
+
+      const lines = [`/** ${verb} ${path}${op.summary ? ` - ${firstLine(op.summary)}` : ''} */`];
+      if (request) lines.push(`export type ${name}Request = ${request};`);
+      if (response) lines.push(`export type ${name}Response = ${response};`);
+      out.push(lines.join('\n'));
+    });
+  });
+
+  return `${out.join('\n\n')}\n`;
+};
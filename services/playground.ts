@@ -0,0 +1,178 @@
+import { AppConfig, HttpExchange, HttpVerb, PlaygroundCall, PlaygroundCollection, PlaygroundRequest, SDKMethodDefinition, SDKMethodParam } from '../types';
+import { MAX_PLAYGROUND_HISTORY, MAX_STORED_RESULT_CHARS } from '../constants';
+import { AnythingLLMClient } from './anythingllm-sdk';
+import { policyFromConfig } from './http';
+import { generateId } from './conversations';
+import { loadJSON, saveJSON, STORAGE_KEYS } from './storage';
+
+/**
+ * Helpers for the API Playground: turning form values into SDK arguments,
+ * checking them before a call, invoking a method by name, and keeping the
+ * history of calls and saved collections.
+ */
+
+const isBlank = (value: unknown) => value === undefined || value === null || (typeof value === 'string' && !value.trim());
+
+// Convert a playground form value into the type the SDK method expects
+export const parseParamValue = (param: SDKMethodParam, value: any) => {
+  if (typeof value !== 'string') return value;
+  const trimmed = value.trim();
+  if (param.type === 'json') return trimmed ? JSON.parse(trimmed) : undefined;
+  if (param.type === 'boolean') return trimmed === 'true';
+  if (param.type === 'number') return trimmed === '' ? undefined : Number(trimmed);
+  return value;
+};
+
+/**
+ * Problems with a single form value, or null when it can be sent.
+ */
+export const validateParam = (param: SDKMethodParam, value: unknown): string | null => {
+  if (isBlank(value)) return param.required ? 'Required' : null;
+  if (typeof value !== 'string') return null;
+  if (param.type === 'number' && !Number.isFinite(Number(value.trim()))) return 'Must be a number';
+  if (param.type === 'json') {
+    try {
+      JSON.parse(value);
+    } catch (e: any) {
+      return `Invalid JSON: ${e.message}`;
+    }
+  }
+  if (param.options && !param.options.includes(value)) return `One of: ${param.options.join(', ')}`;
+  return null;
+};
+
+/**
+ * Errors keyed by parameter name; empty when the call can be made.
+ */
+export const validateParams = (params: SDKMethodParam[], values: Record<string, unknown>): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  params.forEach(param => {
+    const error = validateParam(param, values[param.name]);
+    if (error) errors[param.name] = error;
+  });
+  return errors;
+};
+
+/**
+ * The HTTP request a generated method makes: path params filled in, query params
+ * collected and the JSON body built from the body params.
+ */
+export const endpointRequest = (definition: SDKMethodDefinition, values: Record<string, unknown>): { verb: HttpVerb; path: string; query: Record<string, unknown>; body?: unknown } => {
+  const { verb, path, rawBody } = definition.endpoint!;
+  let url = path;
+  const query: Record<string, unknown> = {};
+  let body: any;
+  definition.params.forEach(param => {
+    const raw = values[param.name];
+    if (isBlank(raw)) return;
+    const value = parseParamValue(param, raw);
+    if (param.in === 'path') url = url.replace(`{${param.name}}`, encodeURIComponent(String(value)));
+    else if (param.in === 'query') query[param.name] = value;
+    else if (rawBody) body = value;
+    else body = { ...body, [param.name]: value };
+  });
+  return { verb, path: url, query, body };
+};
+
+const invokeEndpoint = (client: AnythingLLMClient, definition: SDKMethodDefinition, values: Record<string, unknown>): Promise<unknown> => {
+  if (definition.endpoint!.multipart) throw new Error('File uploads are not supported in the playground; use the Documents panel instead.');
+  const { verb, path, query, body } = endpointRequest(definition, values);
+  return client.callEndpoint(verb, path, { query, body });
+};
+
+/**
+ * Call an SDK method by its definition. Hand-written methods get their arguments in
+ * declaration order; generated ones go through `callEndpoint`.
+ */
+export const invokeSdkMethod = (client: AnythingLLMClient, definition: SDKMethodDefinition, values: Record<string, unknown>): Promise<unknown> => {
+  if (definition.endpoint) return invokeEndpoint(client, definition, values);
+  const fn = (client as unknown as Record<string, unknown>)[definition.method];
+  if (typeof fn !== 'function') throw new Error(`Method ${definition.method} is not implemented in the SDK`);
+  const args = definition.params.map(p => parseParamValue(p, values[p.name]));
+  return Promise.resolve(fn.apply(client, args));
+};
+
+/**
+ * Execute a call with a fresh client and record what happened. Failures are
+ * returned in `error` rather than thrown.
+ * @param onExchange Called with the HTTP calls so far, as each one completes
+ */
+export const runPlaygroundCall = async (
+  config: AppConfig,
+  definition: SDKMethodDefinition,
+  args: Record<string, any>,
+  onExchange?: (exchanges: HttpExchange[]) => void
+): Promise<PlaygroundCall> => {
+  const client = new AnythingLLMClient(config.host, config.port, config.apiKey || '', policyFromConfig(config));
+  const exchanges: HttpExchange[] = [];
+  client.onRequest = exchange => {
+    exchanges.push(exchange);
+    onExchange?.([...exchanges]);
+  };
+
+  const call: PlaygroundCall = {
+    id: generateId(),
+    method: definition.method,
+    label: definition.label,
+    args,
+    at: new Date().toISOString(),
+    durationMs: 0,
+    exchanges
+  };
+  const started = performance.now();
+  try {
+    const result = await invokeSdkMethod(client, definition, args);
+    call.result = JSON.stringify(result, null, 2);
+  } catch (e: any) {
+    call.error = e.message;
+  }
+  call.durationMs = Math.round(performance.now() - started);
+  return call;
+};
+
+// --- History ---
+
+export const loadPlaygroundHistory = (): PlaygroundCall[] => loadJSON<PlaygroundCall[]>(STORAGE_KEYS.playgroundHistory, []);
+
+// Large results are cut for storage; the in-memory copy stays complete
+const forStorage = (call: PlaygroundCall): PlaygroundCall =>
+  call.result && call.result.length > MAX_STORED_RESULT_CHARS
+    ? { ...call, result: `${call.result.slice(0, MAX_STORED_RESULT_CHARS)}\n… (truncated)` }
+    : call;
+
+/**
+ * Add calls to the history (newest first), keeping MAX_PLAYGROUND_HISTORY.
+ */
+export const recordPlaygroundCalls = (history: PlaygroundCall[], calls: PlaygroundCall[]): PlaygroundCall[] => {
+  const next = [...[...calls].reverse(), ...history].slice(0, MAX_PLAYGROUND_HISTORY);
+  saveJSON(STORAGE_KEYS.playgroundHistory, next.map(forStorage));
+  return next;
+};
+
+export const clearPlaygroundHistory = (): PlaygroundCall[] => {
+  saveJSON(STORAGE_KEYS.playgroundHistory, []);
+  return [];
+};
+
+// --- Collections ---
+
+export const loadPlaygroundCollections = (): PlaygroundCollection[] =>
+  loadJSON<PlaygroundCollection[]>(STORAGE_KEYS.playgroundCollections, []);
+
+export const savePlaygroundCollections = (collections: PlaygroundCollection[]): void =>
+  saveJSON(STORAGE_KEYS.playgroundCollections, collections);
+
+export const createCollection = (name: string): PlaygroundCollection => ({
+  id: generateId(),
+  name: name.trim() || 'Untitled collection',
+  requests: [],
+  updatedAt: new Date().toISOString()
+});
+
+/** The replayable part of a call, with its own id */
+export const toPlaygroundRequest = ({ method, label, args }: PlaygroundRequest): PlaygroundRequest => ({
+  id: generateId(),
+  method,
+  label,
+  args: { ...args }
+});
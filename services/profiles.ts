@@ -0,0 +1,119 @@
+import { AppConfig, ConnectionProfile, LLMProvider } from '../types';
+import { PROVIDERS } from './providers';
+import { loadJSON, saveJSON, STORAGE_KEYS } from './storage';
+import { generateId } from './conversations';
+import { encryptSecret } from './crypto';
+
+export const loadProfiles = (): ConnectionProfile[] =>
+  loadJSON<ConnectionProfile[]>(STORAGE_KEYS.profiles, []);
+
+export const saveProfiles = (profiles: ConnectionProfile[]): void =>
+  saveJSON(STORAGE_KEYS.profiles, profiles);
+
+/**
+ * Build a profile from the current config. When a passphrase is given the
+ * API key is encrypted and the plain-text copy is dropped.
+ */
+export const createProfile = async (
+  name: string,
+  config: AppConfig,
+  passphrase?: string,
+  id: string = generateId()
+): Promise<ConnectionProfile> => {
+  const profile: ConnectionProfile = {
+    id,
+    name: name.trim(),
+    provider: config.provider,
+    host: config.host,
+    port: config.port,
+    model: config.model,
+    updatedAt: new Date().toISOString()
+  };
+
+  const apiKey = config.apiKey?.trim();
+  if (apiKey) {
+    if (passphrase) {
+      profile.encryptedApiKey = await encryptSecret(apiKey, passphrase);
+    } else {
+      profile.apiKey = apiKey;
+    }
+  }
+  return profile;
+};
+
+/**
+ * Connection fields of a profile, to merge into the current config.
+ * Encrypted keys are left blank until unlocked.
+ */
+export const profileToConfig = (profile: ConnectionProfile): Pick<AppConfig, 'provider' | 'host' | 'port' | 'model' | 'apiKey'> => ({
+  provider: profile.provider,
+  host: profile.host,
+  port: profile.port,
+  model: profile.model,
+  apiKey: profile.apiKey || ''
+});
+
+/**
+ * Serialize profiles for export. Plain-text keys are removed unless explicitly included;
+ * encrypted keys are always kept since they are useless without the passphrase.
+ */
+export const exportProfiles = (profiles: ConnectionProfile[], includePlainKeys: boolean): string => {
+  const cleaned = profiles.map(p => {
+    if (includePlainKeys) return p;
+    const { apiKey, ...rest } = p;
+    return rest;
+  });
+  return JSON.stringify({ version: 1, profiles: cleaned }, null, 2);
+};
+
+const isValidProfile = (value: any): value is ConnectionProfile =>
+  !!value &&
+  typeof value.name === 'string' &&
+  typeof value.host === 'string' &&
+  typeof value.port === 'string' &&
+  typeof value.model === 'string' &&
+  Object.prototype.hasOwnProperty.call(PROVIDERS, value.provider);
+
+/**
+ * Parse an exported profiles file. Accepts either `{ profiles: [...] }` or a bare array.
+ * Throws with a readable message when the file is not a profiles export.
+ */
+export const parseProfilesImport = (json: string): ConnectionProfile[] => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON.');
+  }
+
+  const list = Array.isArray(data) ? data : data?.profiles;
+  if (!Array.isArray(list)) {
+    throw new Error('No "profiles" array found in file.');
+  }
+
+  const valid = list.filter(isValidProfile);
+  if (valid.length === 0) {
+    throw new Error('File contains no valid connection profiles.');
+  }
+
+  return valid.map(p => ({
+    id: typeof p.id === 'string' && p.id ? p.id : generateId(),
+    name: p.name,
+    provider: p.provider as LLMProvider,
+    host: p.host,
+    port: p.port,
+    model: p.model,
+    apiKey: p.encryptedApiKey ? undefined : p.apiKey,
+    encryptedApiKey: p.encryptedApiKey,
+    updatedAt: p.updatedAt || new Date().toISOString()
+  }));
+};
+
+/**
+ * Merge imported profiles into the existing list; matching ids are replaced.
+ */
+export const mergeProfiles = (existing: ConnectionProfile[], imported: ConnectionProfile[]): ConnectionProfile[] => {
+  const byId = new Map(existing.map(p => [p.id, p]));
+  imported.forEach(p => byId.set(p.id, p));
+  return Array.from(byId.values());
+};
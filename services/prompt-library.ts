@@ -0,0 +1,106 @@
+import { LLMProvider, PromptPreset } from '../types';
+import { PROMPT_PRESETS } from '../constants';
+import { PROVIDERS } from './providers';
+import { loadJSON, saveJSON, STORAGE_KEYS } from './storage';
+import { generateId } from './conversations';
+
+// `{{ name }}`: letters, digits, underscores, dashes and dots; whitespace inside the braces is ignored
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * The saved library, seeded with the built-in presets on first use.
+ */
+export const loadPromptLibrary = (): PromptPreset[] =>
+  loadJSON<PromptPreset[]>(STORAGE_KEYS.prompts, PROMPT_PRESETS.map(p => ({ ...p, builtIn: true })));
+
+export const savePromptLibrary = (presets: PromptPreset[]): void =>
+  saveJSON(STORAGE_KEYS.prompts, presets);
+
+/**
+ * Build a preset from form values, keeping the id when editing.
+ */
+export const createPreset = (
+  values: Omit<PromptPreset, 'id' | 'updatedAt' | 'builtIn'>,
+  id: string = generateId()
+): PromptPreset => ({
+  id,
+  title: values.title.trim(),
+  text: values.text,
+  icon: values.icon || 'message',
+  tags: (values.tags || []).map(t => t.trim()).filter(Boolean),
+  ...(values.provider ? { provider: values.provider } : {}),
+  ...(values.model?.trim() ? { model: values.model.trim() } : {}),
+  updatedAt: new Date().toISOString()
+});
+
+/**
+ * Variable names in a template, in order of first appearance.
+ */
+export const extractVariables = (template: string): string[] => {
+  const names = Array.from(template.matchAll(VARIABLE_PATTERN), m => m[1]);
+  return Array.from(new Set(names));
+};
+
+/**
+ * Replace `{{variables}}` with their values. Missing values are left as-is so they stay visible.
+ */
+export const fillTemplate = (template: string, values: Record<string, string>): string =>
+  template.replace(VARIABLE_PATTERN, (match, name) => (values[name] !== undefined ? values[name] : match));
+
+/**
+ * Every tag used in the library, sorted.
+ */
+export const collectTags = (presets: PromptPreset[]): string[] =>
+  Array.from(new Set(presets.flatMap(p => p.tags || []))).sort((a, b) => a.localeCompare(b));
+
+export const exportPrompts = (presets: PromptPreset[]): string =>
+  JSON.stringify({ version: 1, prompts: presets.map(({ builtIn, ...rest }) => rest) }, null, 2);
+
+const isValidPreset = (value: any): value is PromptPreset =>
+  !!value &&
+  typeof value.title === 'string' &&
+  typeof value.text === 'string' &&
+  (value.provider === undefined || Object.prototype.hasOwnProperty.call(PROVIDERS, value.provider));
+
+/**
+ * Parse an exported prompt library. Accepts either `{ prompts: [...] }` or a bare array.
+ * Throws with a readable message when the file is not a prompt export.
+ */
+export const parsePromptsImport = (json: string): PromptPreset[] => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON.');
+  }
+
+  const list = Array.isArray(data) ? data : data?.prompts;
+  if (!Array.isArray(list)) {
+    throw new Error('No "prompts" array found in file.');
+  }
+
+  const valid = list.filter(isValidPreset);
+  if (valid.length === 0) {
+    throw new Error('File contains no valid prompts.');
+  }
+
+  return valid.map(p => ({
+    id: typeof p.id === 'string' && p.id ? p.id : generateId(),
+    title: p.title,
+    text: p.text,
+    icon: typeof p.icon === 'string' ? p.icon : 'message',
+    tags: Array.isArray(p.tags) ? p.tags.filter((t: unknown) => typeof t === 'string') : [],
+    ...(p.provider ? { provider: p.provider as LLMProvider } : {}),
+    ...(typeof p.model === 'string' && p.model ? { model: p.model } : {}),
+    updatedAt: p.updatedAt || new Date().toISOString()
+  }));
+};
+
+/**
+ * Merge imported prompts into the library; matching ids are replaced.
+ */
+export const mergePrompts = (existing: PromptPreset[], imported: PromptPreset[]): PromptPreset[] => {
+  const byId = new Map(existing.map(p => [p.id, p]));
+  imported.forEach(p => byId.set(p.id, p));
+  return Array.from(byId.values());
+};
@@ -0,0 +1,84 @@
+import { AppConfig, ImageAttachment, LLMResponse, ProviderChatRequest, ProviderDefinition } from '../../types';
+import { AnythingLLMClient } from '../anythingllm-sdk';
+import { policyFromConfig } from '../http';
+import { DEFAULT_ANYTHINGLLM_PORT, DEFAULT_MODEL } from '../../constants';
+
+const createClient = (config: AppConfig) =>
+  new AnythingLLMClient(config.host, config.port, config.apiKey || '', policyFromConfig(config));
+
+/**
+ * AnythingLLM keeps history server-side per session, so only the newest
+ * user message (and its images) is sent along with the conversation's sessionId.
+ */
+const lastUserTurn = (request: ProviderChatRequest): { message: string; images: ImageAttachment[] } => {
+  const last = [...request.messages].reverse().find(m => m.role === 'user');
+  return { message: last?.content || '', images: last?.images || [] };
+};
+
+/**
+ * AnythingLLM workspaces. The "model" is the workspace slug.
+ */
+export const anythingLLMProvider: ProviderDefinition = {
+  id: 'anythingllm',
+  label: 'AnythingLLM',
+  defaultPort: DEFAULT_ANYTHINGLLM_PORT,
+  defaultModel: DEFAULT_MODEL,
+  modelLabel: 'Workspace Slug',
+  modelPlaceholder: 'my-workspace-slug',
+  apiKeyHelp: 'Found in AnythingLLM Desktop: Settings > Developer API.',
+  capabilities: {
+    streaming: true,
+    apiKey: 'required',
+    workspaces: true,
+    sources: true,
+    modelManagement: false,
+    generationParams: false,
+    images: true
+  },
+  theme: {
+    solid: 'bg-blue-600',
+    button: 'bg-blue-600 hover:bg-blue-700',
+    text: 'text-blue-500',
+    card: 'border-blue-500 bg-blue-50 text-blue-700',
+    listItem: 'bg-blue-50 text-blue-700 font-medium ring-1 ring-blue-200',
+    presetSelected: 'border-blue-500 bg-blue-50/50 shadow-md ring-1 ring-blue-500',
+    presetIconSelected: 'bg-white text-blue-600',
+    presetIconHover: 'group-hover:bg-blue-100 group-hover:text-blue-600',
+    avatar: 'bg-blue-100 text-blue-600'
+  },
+  errorAdvice: {
+    'auth': 'Check the API key under Settings > Developer API in AnythingLLM.',
+    'not-found': 'Use the workspace slug (e.g. my-workspace), not its display name.'
+  },
+
+  connect: async (config) => {
+    const result = await createClient(config).validateConnection();
+    return { success: result.authenticated, error: result.error, errorKind: result.errorKind };
+  },
+
+  listModels: async (config) => {
+    const workspaces = await createClient(config).getWorkspaces();
+    return workspaces.map(ws => ({ id: ws.slug, name: ws.name }));
+  },
+
+  generate: async (config, request): Promise<LLMResponse> => {
+    const client = createClient(config);
+    const { message, images } = lastUserTurn(request);
+    const result = request.threadSlug
+      ? await client.sendThreadChat(config.model, request.threadSlug, message, 'chat', images)
+      : await client.sendChat(config.model, message, 'chat', request.sessionId, images);
+    return { response: result.textResponse, sources: result.sources };
+  },
+
+  stream: async (config, request, onToken, signal): Promise<LLMResponse> => {
+    const { message, images } = lastUserTurn(request);
+    const result = await createClient(config).streamChat(config.model, message, onToken, {
+      mode: 'chat',
+      sessionId: request.sessionId,
+      threadSlug: request.threadSlug,
+      images,
+      signal
+    });
+    return { response: result.textResponse, sources: result.sources };
+  }
+};
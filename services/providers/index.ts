@@ -0,0 +1,19 @@
+import { LLMProvider, ProviderDefinition } from '../../types';
+import { ollamaProvider } from './ollama';
+import { anythingLLMProvider } from './anythingllm';
+import { openAICompatibleProvider } from './openai-compatible';
+
+/**
+ * Provider registry. To add a backend, implement `ProviderDefinition`,
+ * extend the `LLMProvider` union and register it here.
+ */
+export const PROVIDERS: Record<LLMProvider, ProviderDefinition> = {
+  ollama: ollamaProvider,
+  anythingllm: anythingLLMProvider,
+  openai: openAICompatibleProvider
+};
+
+/** Providers in the order they appear in the settings panel */
+export const PROVIDER_LIST: ProviderDefinition[] = [ollamaProvider, anythingLLMProvider, openAICompatibleProvider];
+
+export const getProvider = (id: LLMProvider): ProviderDefinition => PROVIDERS[id];
@@ -0,0 +1,54 @@
+import { ProviderDefinition } from '../../types';
+import { DEFAULT_OLLAMA_PORT } from '../../constants';
+import * as ollamaService from '../ollama';
+
+/**
+ * Raw Ollama inference. Keeps no server-side history, so the full
+ * conversation is sent with every request.
+ */
+export const ollamaProvider: ProviderDefinition = {
+  id: 'ollama',
+  label: 'Ollama',
+  defaultPort: DEFAULT_OLLAMA_PORT,
+  defaultModel: 'llama3',
+  modelLabel: 'Model Name',
+  modelPlaceholder: 'llama3',
+  capabilities: {
+    streaming: true,
+    apiKey: 'none',
+    workspaces: false,
+    sources: false,
+    modelManagement: true,
+    generationParams: true,
+    images: true
+  },
+  theme: {
+    solid: 'bg-orange-500',
+    button: 'bg-orange-600 hover:bg-orange-700',
+    text: 'text-orange-500',
+    card: 'border-orange-500 bg-orange-50 text-orange-700',
+    listItem: 'bg-orange-50 text-orange-700 font-medium ring-1 ring-orange-200',
+    presetSelected: 'border-orange-500 bg-orange-50/50 shadow-md ring-1 ring-orange-500',
+    presetIconSelected: 'bg-white text-orange-600',
+    presetIconHover: 'group-hover:bg-orange-100 group-hover:text-orange-600',
+    avatar: 'bg-orange-100 text-orange-600'
+  },
+  errorAdvice: {
+    'network': 'Restart Ollama with OLLAMA_ORIGINS="*" so the browser may call it.',
+    'not-found': 'The model is not installed. Pull it with `ollama pull <model>` or from the Models panel.'
+  },
+
+  connect: (config) => ollamaService.checkConnection(config),
+
+  listModels: async (config) => {
+    const names = await ollamaService.listModelNames(config);
+    return names.map(name => ({ id: name, name }));
+  },
+
+  supportsVision: (config, model) => ollamaService.getVisionSupport(config, model),
+
+  generate: (config, request) => ollamaService.chat(config, request.messages),
+
+  stream: (config, request, onToken, signal) =>
+    ollamaService.streamChat(config, request.messages, onToken, signal)
+};
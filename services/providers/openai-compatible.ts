@@ -0,0 +1,53 @@
+import { ProviderDefinition } from '../../types';
+import { DEFAULT_OPENAI_PORT } from '../../constants';
+import * as openAIService from '../openai-compatible';
+
+/**
+ * Any server speaking the OpenAI chat completions API
+ * (LM Studio, llama.cpp server, vLLM, LocalAI).
+ */
+export const openAICompatibleProvider: ProviderDefinition = {
+  id: 'openai',
+  label: 'OpenAI-Compatible',
+  defaultPort: DEFAULT_OPENAI_PORT,
+  defaultModel: 'local-model',
+  modelLabel: 'Model ID',
+  modelPlaceholder: 'e.g. qwen2.5-7b-instruct',
+  apiKeyHelp: 'Only needed if your server was started with an API key (e.g. vLLM --api-key).',
+  capabilities: {
+    streaming: true,
+    apiKey: 'optional',
+    workspaces: false,
+    sources: false,
+    modelManagement: false,
+    generationParams: false,
+    images: false
+  },
+  theme: {
+    solid: 'bg-emerald-600',
+    button: 'bg-emerald-600 hover:bg-emerald-700',
+    text: 'text-emerald-500',
+    card: 'border-emerald-500 bg-emerald-50 text-emerald-700',
+    listItem: 'bg-emerald-50 text-emerald-700 font-medium ring-1 ring-emerald-200',
+    presetSelected: 'border-emerald-500 bg-emerald-50/50 shadow-md ring-1 ring-emerald-500',
+    presetIconSelected: 'bg-white text-emerald-600',
+    presetIconHover: 'group-hover:bg-emerald-100 group-hover:text-emerald-600',
+    avatar: 'bg-emerald-100 text-emerald-600'
+  },
+  errorAdvice: {
+    'network': 'Enable CORS on the server (LM Studio: Developer > Enable CORS).',
+    'not-found': 'Check the Model ID against the list served at /v1/models.'
+  },
+
+  connect: (config) => openAIService.checkConnection(config),
+
+  listModels: async (config) => {
+    const ids = await openAIService.listModels(config);
+    return ids.map(id => ({ id, name: id }));
+  },
+
+  generate: (config, request) => openAIService.chat(config, request.messages),
+
+  stream: (config, request, onToken, signal) =>
+    openAIService.streamChat(config, request.messages, onToken, signal)
+};
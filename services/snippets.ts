@@ -0,0 +1,171 @@
+import { AppConfig, HttpExchange, PlaygroundCall, SDKMethodDefinition } from '../types';
+import { endpointRequest, parseParamValue } from './playground';
+
+/**
+ * Ready-to-run snippets for API Playground calls. curl and Python replay the
+ * recorded HTTP requests; TypeScript uses `AnythingLLMClient`. The API key is
+ * never included: snippets read it from the ANYTHINGLLM_API_KEY environment variable.
+ */
+
+export type SnippetLanguage = 'curl' | 'typescript' | 'python';
+
+export const SNIPPET_LANGUAGES: { id: SnippetLanguage; label: string; lang: string }[] = [
+  { id: 'curl', label: 'curl', lang: 'shell' },
+  { id: 'typescript', label: 'TypeScript', lang: 'ts' },
+  { id: 'python', label: 'Python', lang: 'python' }
+];
+
+const API_KEY_ENV = 'ANYTHINGLLM_API_KEY';
+
+// describeBody() in the SDK writes multipart uploads as one "name: value" line per field
+const MULTIPART_PREFIX = 'multipart/form-data\n';
+const FILE_FIELD = /^<file (.+), \d+ bytes>$/;
+
+const multipartFields = (body: string) =>
+  body.slice(MULTIPART_PREFIX.length).split('\n').filter(Boolean).map(line => {
+    const idx = line.indexOf(': ');
+    const value = line.slice(idx + 2);
+    return { name: line.slice(0, idx), value, file: value.match(FILE_FIELD)?.[1] };
+  });
+
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+const NO_REQUESTS = 'No HTTP requests were recorded for this call.';
+
+// --- curl ---
+
+const shellQuote = (text: string) => `'${text.replace(/'/g, `'\\''`)}'`;
+
+const curlFor = (exchange: HttpExchange): string => {
+  const lines = [`curl -X ${exchange.method} ${shellQuote(exchange.url)}`];
+  Object.entries(exchange.headers).forEach(([name, value]) => {
+    if (name === 'authorization') lines.push(`-H "Authorization: Bearer $${API_KEY_ENV}"`);
+    else lines.push(`-H ${shellQuote(`${name}: ${value}`)}`);
+  });
+  if (exchange.body?.startsWith(MULTIPART_PREFIX)) {
+    multipartFields(exchange.body).forEach(field => {
+      lines.push(`-F ${shellQuote(field.file ? `${field.name}=@${field.file}` : `${field.name}=${field.value}`)}`);
+    });
+  } else if (exchange.body !== undefined) {
+    lines.push(`--data-raw ${shellQuote(exchange.body)}`);
+  }
+  return lines.join(' \\\n  ');
+};
+
+// --- Python ---
+
+const pyString = (text: string) => JSON.stringify(text);
+
+const pyLiteral = (value: unknown, indent = ''): string => {
+  if (value === null || value === undefined) return 'None';
+  if (value === true) return 'True';
+  if (value === false) return 'False';
+  if (typeof value === 'string') return pyString(value);
+  if (typeof value === 'number') return String(value);
+  const inner = `${indent}    `;
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    return `[\n${value.map(v => `${inner}${pyLiteral(v, inner)},`).join('\n')}\n${indent}]`;
+  }
+  const entries = Object.entries(value as object);
+  if (entries.length === 0) return '{}';
+  return `{\n${entries.map(([k, v]) => `${inner}${pyString(k)}: ${pyLiteral(v, inner)},`).join('\n')}\n${indent}}`;
+};
+
+const pythonFor = (exchange: HttpExchange): string => {
+  const args = [`    ${pyString(exchange.url)},`];
+  const headers = Object.entries(exchange.headers)
+    .filter(([name]) => name !== 'content-type')
+    .map(([name, value]) => (name === 'authorization' ? `"Authorization": f"Bearer {API_KEY}"` : `${pyString(name)}: ${pyString(value)}`));
+  args.push(`    headers={${headers.join(', ')}},`);
+
+  if (exchange.body?.startsWith(MULTIPART_PREFIX)) {
+    const fields = multipartFields(exchange.body);
+    const files = fields.filter(f => f.file).map(f => `${pyString(f.name)}: open(${pyString(f.file!)}, "rb")`);
+    const data = fields.filter(f => !f.file).map(f => `${pyString(f.name)}: ${pyString(f.value)}`);
+    if (files.length) args.push(`    files={${files.join(', ')}},`);
+    if (data.length) args.push(`    data={${data.join(', ')}},`);
+  } else if (exchange.body !== undefined) {
+    const json = parseJson(exchange.body);
+    args.push(json === undefined ? `    data=${pyString(exchange.body)},` : `    json=${pyLiteral(json, '    ')},`);
+  }
+
+  return [
+    `response = requests.${exchange.method.toLowerCase()}(`,
+    ...args,
+    ')',
+    'response.raise_for_status()',
+    'print(response.json() if "json" in response.headers.get("content-type", "") else response.text)'
+  ].join('\n');
+};
+
+// --- TypeScript ---
+
+const tsLiteral = (value: unknown) => (value === undefined ? 'undefined' : JSON.stringify(value, null, 2));
+
+// Arguments as the SDK receives them; invalid JSON is passed through as text
+const parsedArgs = (definition: SDKMethodDefinition, args: Record<string, any>) =>
+  definition.params.map(param => {
+    try {
+      return parseParamValue(param, args[param.name]);
+    } catch {
+      return args[param.name];
+    }
+  });
+
+const typescriptCall = (call: PlaygroundCall, definition?: SDKMethodDefinition): string | null => {
+  if (definition?.endpoint) {
+    const { verb, path, query, body } = endpointRequest(definition, call.args);
+    const options = { ...(Object.keys(query).length ? { query } : {}), ...(body !== undefined ? { body } : {}) };
+    return `client.callEndpoint(${tsLiteral(verb)}, ${tsLiteral(path)}${Object.keys(options).length ? `, ${tsLiteral(options)}` : ''})`;
+  }
+  if (definition) {
+    const args = parsedArgs(definition, call.args);
+    while (args.length && (args[args.length - 1] === undefined || args[args.length - 1] === '')) args.pop();
+    return `client.${definition.method}(${args.map(tsLiteral).join(', ')})`;
+  }
+  // The method is no longer available (e.g. the OpenAPI spec was removed); replay the raw request
+  const exchange = call.exchanges[0];
+  if (!exchange) return null;
+  const url = new URL(exchange.url);
+  const body = exchange.body === undefined ? undefined : parseJson(exchange.body) ?? exchange.body;
+  return `client.callEndpoint(${tsLiteral(exchange.method)}, ${tsLiteral(url.pathname + url.search)}${body !== undefined ? `, ${tsLiteral({ body })}` : ''})`;
+};
+
+/**
+ * Build a snippet for a call.
+ * @param definition The method definition, when still available; TypeScript snippets prefer it
+ */
+export const buildSnippet = (language: SnippetLanguage, call: PlaygroundCall, config: AppConfig, definition?: SDKMethodDefinition): string => {
+  if (language === 'typescript') {
+    const invocation = typescriptCall(call, definition);
+    if (!invocation) return `// ${NO_REQUESTS}`;
+    return [
+      `import { AnythingLLMClient } from './services/anythingllm-sdk';`,
+      '',
+      `const client = new AnythingLLMClient(${tsLiteral(config.host)}, ${tsLiteral(config.port)}, process.env.${API_KEY_ENV} ?? '');`,
+      '',
+      `const result = await ${invocation};`,
+      'console.log(JSON.stringify(result, null, 2));'
+    ].join('\n');
+  }
+
+  if (call.exchanges.length === 0) return `# ${NO_REQUESTS}`;
+
+  if (language === 'curl') return call.exchanges.map(curlFor).join('\n\n');
+
+  return [
+    'import os',
+    'import requests',
+    '',
+    `API_KEY = os.environ["${API_KEY_ENV}"]`,
+    '',
+    call.exchanges.map(pythonFor).join('\n\n')
+  ].join('\n');
+};
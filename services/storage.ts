@@ -0,0 +1,65 @@
+/**
+ * Thin wrapper around `localStorage` for persisting app state as JSON.
+ * All keys are namespaced so several builds of the app on one origin don't collide.
+ */
+
+const PREFIX = 'react-local-llm:';
+
+export const STORAGE_KEYS = {
+  profiles: 'profiles',
+  activeProfileId: 'active-profile-id',
+  config: 'config',
+  conversations: 'conversations',
+  prompts: 'prompts',
+  evalSuites: 'eval-suites',
+  evalRuns: 'eval-runs',
+  generationPresets: 'generation-presets',
+  openApiSpec: 'openapi-spec',
+  playgroundHistory: 'playground-history',
+  playgroundCollections: 'playground-collections'
+} as const;
+
+/**
+ * Read a JSON value, returning `fallback` when missing, unreadable or storage is unavailable.
+ */
+export const loadJSON = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(PREFIX + key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch (e) {
+    console.warn(`Failed to read '${key}' from storage`, e);
+    return fallback;
+  }
+};
+
+/**
+ * Write a JSON value. Quota or privacy-mode errors are logged, not thrown.
+ */
+export const saveJSON = (key: string, value: unknown): void => {
+  try {
+    localStorage.setItem(PREFIX + key, JSON.stringify(value));
+  } catch (e) {
+    console.warn(`Failed to write '${key}' to storage`, e);
+  }
+};
+
+export const removeItem = (key: string): void => {
+  try {
+    localStorage.removeItem(PREFIX + key);
+  } catch {
+    // Storage unavailable; nothing to remove
+  }
+};
+
+/**
+ * Trigger a browser download of `content` as a file.
+ */
+export const downloadFile = (filename: string, content: string, mimeType = 'application/json'): void => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,96 @@
+/**
+ * Helpers for reading streamed HTTP bodies.
+ *
+ * Ollama streams newline-delimited JSON (NDJSON), while AnythingLLM uses
+ * Server-Sent Events. Both arrive as raw bytes through `response.body`, so we
+ * decode them into lines here and let each service interpret the payloads.
+ */
+
+/**
+ * Yields each complete line of a streamed response body.
+ * Stopping early (e.g. `break` in a `for await`) cancels the body so the connection closes.
+ */
+export async function* readLines(response: Response): AsyncGenerator<string> {
+  if (!response.body) {
+    throw new Error('Streaming is not supported by this browser (response has no body).');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let finished = false;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        finished = true;
+        break;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      // The last element may be a partial line; keep it for the next chunk
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        yield line.replace(/\r$/, '');
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer.length > 0) yield buffer.replace(/\r$/, '');
+  } finally {
+    if (!finished) await reader.cancel().catch(() => {});
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Yields each JSON object of an NDJSON stream (Ollama style).
+ */
+export async function* readNdjson<T = any>(response: Response): AsyncGenerator<T> {
+  for await (const line of readLines(response)) {
+    if (!line.trim()) continue;
+    yield JSON.parse(line) as T;
+  }
+}
+
+/**
+ * Yields the parsed `data:` payload of each Server-Sent Event (AnythingLLM style).
+ * Multi-line data fields are joined as per the SSE spec. Non-JSON payloads are skipped.
+ */
+export async function* readSse<T = any>(response: Response): AsyncGenerator<T> {
+  let dataLines: string[] = [];
+
+  const flush = (): T | null => {
+    if (dataLines.length === 0) return null;
+    const payload = dataLines.join('\n');
+    dataLines = [];
+    try {
+      return JSON.parse(payload) as T;
+    } catch {
+      return null;
+    }
+  };
+
+  for await (const line of readLines(response)) {
+    if (line === '') {
+      const event = flush();
+      if (event !== null) yield event;
+      continue;
+    }
+    if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).replace(/^ /, ''));
+    }
+    // `event:`, `id:`, `retry:` and comment lines are not used by AnythingLLM
+  }
+
+  const event = flush();
+  if (event !== null) yield event;
+}
+
+/**
+ * True when the error was raised because the request was cancelled via AbortController.
+ */
+export const isAbortError = (error: any): boolean =>
+  error?.name === 'AbortError';
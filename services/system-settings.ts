@@ -0,0 +1,80 @@
+import { AnythingLLMSystemSettings } from '../types';
+
+/**
+ * Reading AnythingLLM's system settings: which LLM, embedder and vector database
+ * are active, and grouping the flat key list for display. Setting names follow
+ * AnythingLLM's convention of prefixing provider-specific keys with the provider
+ * (e.g. `OllamaLLMModelPref` for `LLMProvider: 'ollama'`).
+ */
+
+export type SettingGroup = 'LLM' | 'Embedder' | 'Vector database' | 'Other';
+
+export const SETTING_GROUPS: SettingGroup[] = ['LLM', 'Embedder', 'Vector database', 'Other'];
+
+export interface SystemSummary {
+  llmProvider: string | null;
+  llmModel: string | null;
+  embeddingEngine: string | null;
+  embeddingModel: string | null;
+  vectorDb: string | null;
+}
+
+// Secrets are reported as booleans (set or not) and are write-only
+const SECRET_KEY = /(key|token|secret|password)$/i;
+
+export const isSecretSetting = (key: string) => SECRET_KEY.test(key);
+
+const text = (value: unknown) => (typeof value === 'string' && value ? value : null);
+
+// "lmstudio" also matches "LMStudioModelPref"; compare without case
+const hasPrefix = (key: string, prefix: string | null) => !!prefix && key.toLowerCase().startsWith(prefix.toLowerCase());
+
+const modelKeyFor = (settings: AnythingLLMSystemSettings, provider: string | null) =>
+  Object.keys(settings).find(key => hasPrefix(key, provider) && /ModelPref$/.test(key));
+
+export const summarizeSystem = (settings: AnythingLLMSystemSettings): SystemSummary => {
+  const llmProvider = text(settings.LLMProvider);
+  const modelKey = modelKeyFor(settings, llmProvider);
+  return {
+    llmProvider,
+    llmModel: modelKey ? text(settings[modelKey]) : null,
+    embeddingEngine: text(settings.EmbeddingEngine),
+    embeddingModel: text(settings.EmbeddingModelPref),
+    vectorDb: text(settings.VectorDB)
+  };
+};
+
+const groupOf = (key: string, settings: AnythingLLMSystemSettings): SettingGroup => {
+  if (key === 'LLMProvider' || hasPrefix(key, text(settings.LLMProvider))) return 'LLM';
+  if (key.startsWith('Embedding')) return 'Embedder';
+  if (key === 'VectorDB' || hasPrefix(key, text(settings.VectorDB))) return 'Vector database';
+  return 'Other';
+};
+
+/**
+ * Settings split into groups, each sorted by key, keeping only keys that contain `filter`.
+ */
+export const groupSettings = (settings: AnythingLLMSystemSettings, filter = ''): Record<SettingGroup, [string, AnythingLLMSystemSettings[string]][]> => {
+  const term = filter.trim().toLowerCase();
+  const groups: Record<SettingGroup, [string, AnythingLLMSystemSettings[string]][]> = { 'LLM': [], 'Embedder': [], 'Vector database': [], 'Other': [] };
+  Object.keys(settings).sort().forEach(key => {
+    if (term && !key.toLowerCase().includes(term) && !String(settings[key] ?? '').toLowerCase().includes(term)) return;
+    groups[groupOf(key, settings)].push([key, settings[key]]);
+  });
+  return groups;
+};
+
+/**
+ * Display text for a value. Secrets show whether they are set, never their value.
+ */
+export const formatSettingValue = (key: string, value: AnythingLLMSystemSettings[string]): string => {
+  if (isSecretSetting(key)) return value ? 'set' : 'not set';
+  return value === null || value === '' ? '—' : String(value);
+};
+
+/**
+ * Whether a setting can be edited in the panel: text/number values and write-only secrets.
+ * Other booleans are derived by the server.
+ */
+export const isEditableSetting = (key: string, value: AnythingLLMSystemSettings[string]) =>
+  isSecretSetting(key) || typeof value !== 'boolean';
@@ -1,4 +1,4 @@
-export type LLMProvider = 'ollama' | 'anythingllm';
+export type LLMProvider = 'ollama' | 'anythingllm' | 'openai';
 
 export interface AppConfig {
   provider: LLMProvider;
@@ -6,33 +6,427 @@ export interface AppConfig {
   port: string;
   model: string;
   apiKey?: string;
+  /** Per-request timeout in milliseconds (time until the server starts responding) */
+  timeoutMs?: number;
+  /** Retries for safe (GET) requests on network errors, timeouts, 429 and 5xx */
+  maxRetries?: number;
+  /** Sampling, system prompt and output format sent with every generation (Ollama) */
+  generation?: GenerationParams;
+}
+
+/** Ollama's model `options`; unset fields fall back to the model's Modelfile defaults */
+export interface OllamaOptions {
+  temperature?: number;
+  top_p?: number;
+  top_k?: number;
+  num_ctx?: number;
+  /** Fixed seed for reproducible output (use with a low temperature) */
+  seed?: number;
+  stop?: string[];
+  repeat_penalty?: number;
+}
+
+export interface GenerationParams {
+  system?: string;
+  /** Constrain the reply to valid JSON */
+  format?: 'json';
+  /** How long the model stays loaded after the request, e.g. "5m", "0" or "-1" */
+  keep_alive?: string;
+  options?: OllamaOptions;
+}
+
+// --- Request Policy & Errors ---
+
+export interface RequestPolicy {
+  timeoutMs: number;
+  maxRetries: number;
+  /** First retry delay; doubles on each attempt (with jitter) */
+  retryBaseDelayMs: number;
+}
+
+export type LLMErrorKind =
+  | 'network'
+  | 'auth'
+  | 'not-found'
+  | 'rate-limit'
+  | 'server'
+  | 'timeout'
+  | 'aborted'
+  | 'bad-request'
+  | 'unknown';
+
+// --- Connection Profiles ---
+
+/** An API key sealed with a passphrase (PBKDF2 + AES-GCM), all binary fields base64 */
+export interface EncryptedSecret {
+  algorithm: 'AES-GCM';
+  iterations: number;
+  salt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+/**
+ * A named, saved connection. The API key is stored either in plain text (`apiKey`)
+ * or encrypted (`encryptedApiKey`), never both.
+ */
+export interface ConnectionProfile {
+  id: string;
+  name: string;
+  provider: LLMProvider;
+  host: string;
+  port: string;
+  model: string;
+  apiKey?: string;
+  encryptedApiKey?: EncryptedSecret;
+  updatedAt: string;
 }
 
 export interface LLMRequest {
   model: string;
   prompt: string;
   stream?: boolean;
+  system?: string;
+  format?: 'json';
+  keep_alive?: string | number;
+  options?: OllamaOptions;
+  /** Base64 images (no data URL prefix) for vision models */
+  images?: string[];
 }
 
 export interface LLMResponse {
   response: string;
   created_at?: string;
   done?: boolean;
+  /** Ollama timings, in nanoseconds */
   total_duration?: number;
+  load_duration?: number;
+  prompt_eval_duration?: number;
+  eval_duration?: number;
+  /** Prompt and output token counts (Ollama; mapped from `usage` on OpenAI-compatible servers) */
+  prompt_eval_count?: number;
+  eval_count?: number;
   // AnythingLLM specific
-  sources?: any[];
+  sources?: AnythingLLMSource[];
   id?: string;
 }
 
+// --- Compare Types ---
+
+/**
+ * One column in compare mode: a model or workspace on a specific server.
+ */
+export interface CompareTarget {
+  id: string;
+  provider: LLMProvider;
+  /** Model name, model id or workspace slug */
+  model: string;
+  host: string;
+  port: string;
+  apiKey?: string;
+}
+
+export interface TargetRunResult {
+  response: string;
+  /** Wall-clock time from request to full reply */
+  latencyMs: number;
+  promptTokens?: number;
+  completionTokens?: number;
+  sources?: AnythingLLMSource[];
+}
+
+// --- Batch Types ---
+
+/**
+ * One row of a batch dataset.
+ */
+export interface BatchItem {
+  id: string;
+  prompt: string;
+  /** Reference answer, carried through to the results for review */
+  expected?: string;
+}
+
+export type BatchItemStatus = 'pending' | 'running' | 'done' | 'error';
+
+export interface BatchResult {
+  status: BatchItemStatus;
+  response?: string;
+  latencyMs?: number;
+  sources?: AnythingLLMSource[];
+  error?: string;
+}
+
+// --- Eval Types ---
+
+export type EvalAssertionType = 'contains' | 'not-contains' | 'regex' | 'json-schema' | 'cites-source' | 'llm-judge';
+
+export interface EvalAssertion {
+  type: EvalAssertionType;
+  // Text, pattern, JSON schema, document name or rubric depending on `type`
+  value: string;
+  // llm-judge only: minimum score out of 10 to pass
+  threshold?: number;
+}
+
+export interface EvalCase {
+  id: string;
+  prompt: string;
+  assertions: EvalAssertion[];
+}
+
+export interface EvalSuite {
+  id: string;
+  name: string;
+  cases: EvalCase[];
+  // Ollama model used for llm-judge assertions
+  judgeModel?: string;
+  updatedAt: string;
+}
+
+export interface EvalAssertionResult {
+  passed: boolean;
+  detail?: string;
+  score?: number;
+}
+
+export interface EvalCaseResult {
+  caseId: string;
+  prompt: string;
+  response: string;
+  latencyMs?: number;
+  sources?: AnythingLLMSource[];
+  assertions: EvalAssertionResult[];
+  passed: boolean;
+  error?: string;
+}
+
+export interface EvalRun {
+  id: string;
+  suiteId: string;
+  target: string;
+  startedAt: string;
+  finishedAt: string;
+  results: EvalCaseResult[];
+}
+
+// Outcome of a case relative to the previous run of the same suite
+export type EvalChange = 'pass' | 'fail' | 'fixed' | 'regressed' | 'new';
+
+// --- Chat Types ---
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export interface ChatMessage {
+  id: string;
+  role: ChatRole;
+  content: string;
+  createdAt: string;
+  sources?: AnythingLLMSource[];
+  stopped?: boolean;
+  error?: string;
+  /** Timing and token counts for assistant replies */
+  metrics?: ResponseMetrics;
+  /** Images sent with a user message */
+  images?: ImageAttachment[];
+}
+
+/**
+ * An image attached to a prompt, kept as a data URL. `dataUrl` is empty for images
+ * restored from storage, where only the name is kept.
+ */
+export interface ImageAttachment {
+  id: string;
+  name: string;
+  mime: string;
+  dataUrl: string;
+}
+
+// --- Metrics Types ---
+
+export interface ResponseMetrics {
+  /** Wall-clock time from sending to the last token */
+  latencyMs: number;
+  /** Time to first token; only measured when streaming */
+  ttftMs?: number;
+  /** Model load time reported by Ollama */
+  loadMs?: number;
+  promptTokens?: number;
+  completionTokens?: number;
+  tokensPerSecond?: number;
+}
+
+/** One recorded request in the session telemetry */
+export interface MetricSample extends ResponseMetrics {
+  id: string;
+  at: string;
+  provider: LLMProvider;
+  /** Model name or workspace slug */
+  model: string;
+}
+
+/**
+ * A conversation is kept per provider + model (or workspace slug).
+ * `sessionId` is forwarded to AnythingLLM so its history-aware `chat` mode
+ * can recall earlier turns; Ollama gets the full `messages` array instead.
+ */
+export interface Conversation {
+  key: string;
+  provider: LLMProvider;
+  model: string;
+  /** AnythingLLM thread within the workspace; absent for the workspace's default thread */
+  threadSlug?: string;
+  sessionId: string;
+  messages: ChatMessage[];
+  updatedAt: string;
+}
+
+/**
+ * A saved prompt. `text` may contain `{{variables}}` that are filled in before sending.
+ */
 export interface PromptPreset {
   id: string;
   title: string;
   text: string;
+  /** Key into the preset icon set; unknown names fall back to a chat bubble */
   icon: string;
+  tags?: string[];
+  /** Run against this provider instead of the active one */
+  provider?: LLMProvider;
+  /** Run against this model or workspace slug instead of the active one */
+  model?: string;
+  /** Shipped with the app rather than created by the user */
+  builtIn?: boolean;
+  updatedAt?: string;
 }
 
 export type ConnectionStatus = 'idle' | 'checking' | 'connected' | 'error';
 
+// --- Provider Abstraction Types ---
+
+export interface ProviderCapabilities {
+  /** Token-by-token output via `stream` */
+  streaming: boolean;
+  /** Whether an API key is needed to talk to the server */
+  apiKey: 'required' | 'optional' | 'none';
+  /** AnythingLLM-style workspaces (enables the workspace list and API Playground) */
+  workspaces: boolean;
+  /** Responses may include RAG source chunks */
+  sources: boolean;
+  /** Install, inspect and delete models from the UI (Ollama) */
+  modelManagement: boolean;
+  /** Honours `config.generation` (sampling options, system prompt, JSON mode) */
+  generationParams: boolean;
+  /** Image attachments can be sent with prompts (needs a vision model) */
+  images: boolean;
+}
+
+/**
+ * Tailwind class sets used to colour the UI for the active provider.
+ * Full class names are kept here (rather than built from a colour name) so they stay greppable.
+ */
+export interface ProviderTheme {
+  /** Solid badge, e.g. the header logo */
+  solid: string;
+  /** Primary action button */
+  button: string;
+  /** Accent text/icon colour */
+  text: string;
+  /** Selected provider card in settings */
+  card: string;
+  /** Selected item in a list (workspaces, conversations) */
+  listItem: string;
+  /** Selected Quick Prompt card */
+  presetSelected: string;
+  /** Quick Prompt icon when selected / on hover */
+  presetIconSelected: string;
+  presetIconHover: string;
+  /** Assistant avatar in the chat */
+  avatar: string;
+}
+
+export interface ProviderModel {
+  id: string;
+  name: string;
+}
+
+export interface ProviderChatRequest {
+  /** Full conversation so far, ending with the new user message */
+  messages: Pick<ChatMessage, 'role' | 'content' | 'images'>[];
+  /** Server-side session used by providers that keep their own history */
+  sessionId?: string;
+  /** AnythingLLM thread to chat in instead of the workspace's default thread */
+  threadSlug?: string;
+}
+
+/**
+ * A backend the app can talk to. Implementations live in `services/providers/`
+ * and are registered in `PROVIDERS`; the UI reads labels, defaults and behaviour from here.
+ */
+export interface ProviderDefinition {
+  id: LLMProvider;
+  label: string;
+  defaultPort: string;
+  defaultModel: string;
+  /** Label and placeholder for the model field (e.g. "Workspace Slug" for AnythingLLM) */
+  modelLabel: string;
+  modelPlaceholder: string;
+  /** Short hint shown under the API key field */
+  apiKeyHelp?: string;
+  /** Provider-specific troubleshooting shown in the status bar, overriding the generic advice */
+  errorAdvice?: Partial<Record<LLMErrorKind, string>>;
+  capabilities: ProviderCapabilities;
+  theme: ProviderTheme;
+  connect(config: AppConfig): Promise<{ success: boolean; error?: string; errorKind?: LLMErrorKind }>;
+  listModels(config: AppConfig): Promise<ProviderModel[]>;
+  /** Whether `model` accepts images; null when it can't be told. Omitted when the server doesn't report it */
+  supportsVision?(config: AppConfig, model: string): Promise<boolean | null>;
+  generate(config: AppConfig, request: ProviderChatRequest): Promise<LLMResponse>;
+  stream(
+    config: AppConfig,
+    request: ProviderChatRequest,
+    onToken: (token: string) => void,
+    signal?: AbortSignal
+  ): Promise<LLMResponse>;
+}
+
+// --- Ollama Specific Types ---
+
+export interface OllamaModel {
+  name: string;
+  model: string;
+  modified_at: string;
+  size: number;
+  digest: string;
+  details: {
+    format?: string;
+    family?: string;
+    families?: string[] | null;
+    parameter_size?: string;
+    quantization_level?: string;
+  };
+}
+
+/** Response of `/api/show` */
+export interface OllamaModelDetails {
+  modelfile?: string;
+  parameters?: string;
+  template?: string;
+  license?: string;
+  details?: OllamaModel['details'];
+  model_info?: Record<string, any>;
+  capabilities?: string[];
+  modified_at?: string;
+}
+
+/** One line of the `/api/pull` progress stream */
+export interface OllamaPullProgress {
+  status: string;
+  digest?: string;
+  total?: number;
+  completed?: number;
+}
+
 // --- AnythingLLM Specific Types ---
 
 export interface AnythingLLMWorkspace {
@@ -43,13 +437,163 @@ export interface AnythingLLMWorkspace {
   createdAt: string;
   openAiTemp: number;
   lastUpdatedAt: string;
+  /** System prompt */
+  openAiPrompt?: string | null;
+  /** Number of previous chats kept in the context window */
+  openAiHistory?: number;
+  /** Minimum similarity (0–1) for a chunk to be retrieved */
+  similarityThreshold?: number;
+  /** Maximum number of chunks retrieved per query */
+  topN?: number;
+  chatMode?: 'chat' | 'query';
+  /** Reply used in `query` mode when no relevant chunk is found */
+  queryRefusalResponse?: string | null;
+  /** Per-workspace LLM override; null uses the system default */
+  chatProvider?: string | null;
+  chatModel?: string | null;
+  /** Present on `getWorkspace` responses: documents embedded in this workspace */
+  documents?: AnythingLLMWorkspaceDocument[];
+  /** Present on `getWorkspace` responses: threads in this workspace */
+  threads?: AnythingLLMThread[];
 }
 
+/**
+ * A separate chat history inside a workspace.
+ */
+export interface AnythingLLMThread {
+  id: number;
+  name: string;
+  slug: string;
+  workspace_id?: number;
+  user_id?: number | null;
+  createdAt?: string;
+  lastUpdatedAt?: string;
+}
+
+/**
+ * One prompt/response exchange from a workspace's chat log.
+ * Built from both `/admin/workspace-chats` records and `/workspace/{slug}/chats` history.
+ */
+export interface AnythingLLMWorkspaceChat {
+  id: string;
+  workspaceSlug: string;
+  workspaceName?: string;
+  prompt: string;
+  response: string;
+  /** Username in multi-user mode */
+  user?: string | null;
+  threadId?: number | null;
+  sessionId?: string | null;
+  createdAt: string;
+  sources?: AnythingLLMSource[];
+}
+
+/**
+ * One message from a thread's stored history.
+ */
+export interface AnythingLLMChatHistoryItem {
+  role: 'user' | 'assistant';
+  content: string;
+  sentAt?: number;
+  sources?: AnythingLLMSource[];
+}
+
+/**
+ * Editable fields accepted by `/workspace/{slug}/update`.
+ */
+export type AnythingLLMWorkspaceSettings = Partial<Pick<AnythingLLMWorkspace,
+  'name' | 'openAiTemp' | 'openAiPrompt' | 'openAiHistory' | 'similarityThreshold' |
+  'topN' | 'chatMode' | 'queryRefusalResponse' | 'chatProvider' | 'chatModel'
+>>;
+
+/**
+ * A retrieved chunk returned with a RAG answer.
+ * Field availability varies by vector database; use `services/citations.ts` helpers to read score and location.
+ */
+export interface AnythingLLMSource {
+  id?: string;
+  title: string;
+  /** The chunk text that was injected into the prompt */
+  text: string;
+  /** Similarity score (0–1), when the vector DB reports one */
+  score?: number;
+  /** Vector distance (lower is closer), reported by some vector DBs instead of `score` */
+  _distance?: number;
+  url?: string;
+  docSource?: string;
+  chunkSource?: string;
+  docAuthor?: string;
+  description?: string;
+  published?: string;
+  wordCount?: number;
+  token_count_estimate?: number;
+}
+
+/** Metadata returned after uploading a file or raw text */
+export interface AnythingLLMDocument {
+  id?: string;
+  /** Path used for `update-embeddings`, e.g. `custom-documents/report.pdf-1234.json` */
+  location: string;
+  name?: string;
+  url?: string;
+  title: string;
+  docAuthor?: string;
+  description?: string;
+  docSource?: string;
+  chunkSource?: string;
+  published?: string;
+  wordCount?: number;
+  token_count_estimate?: number;
+}
+
+/** A node of the `/documents` tree (folders contain files) */
+export interface AnythingLLMDocumentItem {
+  name: string;
+  type: 'folder' | 'file';
+  title?: string;
+  items?: AnythingLLMDocumentItem[];
+  cached?: boolean;
+  pinnedWorkspaces?: number[];
+  watched?: boolean;
+  published?: string;
+  wordCount?: number;
+  token_count_estimate?: number;
+}
+
+/** A library document flattened with its folder path */
+export interface AnythingLLMLibraryDocument extends AnythingLLMDocumentItem {
+  /** `folder/file.json`, the path used for `update-embeddings` */
+  path: string;
+}
+
+export interface AnythingLLMWorkspaceDocument {
+  id: number;
+  docId: string;
+  filename: string;
+  docpath: string;
+  workspaceId: number;
+  metadata?: string;
+  pinned: boolean;
+  createdAt: string;
+}
+
+export type AnythingLLMUserRole = 'default' | 'admin' | 'manager';
+
 export interface AnythingLLMUser {
   id: number;
   username: string;
-  role: 'default' | 'admin' | 'manager';
+  role: AnythingLLMUserRole;
   createdAt: string;
+  /** 1 when the account is suspended */
+  suspended?: number;
+}
+
+/** Fields to change on a user; omitted fields are left as they are */
+export interface AnythingLLMUserUpdate {
+  username?: string;
+  password?: string;
+  role?: AnythingLLMUserRole;
+  suspended?: number;
 }
 
 export interface AnythingLLMSystemStatus {
@@ -57,6 +601,27 @@ export interface AnythingLLMSystemStatus {
   mode: 'multi-user' | 'password';
 }
 
+/**
+ * Instance configuration from `GET /system`, keyed by setting name (e.g. `LLMProvider`,
+ * `EmbeddingEngine`, `VectorDB`). Secrets come back as booleans: whether they are set.
+ */
+export type AnythingLLMSystemSettings = Record<string, string | number | boolean | null>;
+
+export interface AnythingLLMInvite {
+  id: number;
+  code: string;
+  status: 'pending' | 'claimed' | 'disabled';
+  claimedBy?: number | null;
+  createdAt?: string;
+}
+
+export interface AnythingLLMApiKey {
+  id: number;
+  secret: string;
+  createdAt: string;
+  createdBy?: number | null;
+}
+
 // --- SDK UI Generation Types ---
 
 export type SDKParamType = 'string' | 'number' | 'boolean' | 'slug' | 'json';
@@ -67,6 +632,39 @@ export interface SDKMethodParam {
   required: boolean;
   description?: string;
   defaultValue?: any;
+  /** Allowed values; rendered as a select */
+  options?: string[];
+  /** Where a generated endpoint sends the value; hand-written methods take positional arguments */
+  in?: SDKParamLocation;
+}
+
+export type SDKParamLocation = 'path' | 'query' | 'body';
+
+export type HttpVerb = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/** Raw endpoint behind a playground method generated from the OpenAPI spec */
+export interface SDKEndpoint {
+  verb: HttpVerb;
+  /** Path from the server root, e.g. `/api/v1/workspace/{slug}` */
+  path: string;
+  /** A single `body` param holds the whole request body (no properties were declared) */
+  rawBody?: boolean;
+  /** multipart/form-data uploads cannot be made from the playground */
+  multipart?: boolean;
+}
+
+/** One HTTP call as seen by the request inspector */
+export interface HttpExchange {
+  at: string;
+  method: string;
+  url: string;
+  /** Request headers with credentials redacted */
+  headers: Record<string, string>;
+  body?: string;
+  /** Missing when the request never got a response (network error, timeout) */
+  status?: number;
+  durationMs: number;
+  error?: string;
 }
 
 export interface SDKMethodDefinition {
@@ -74,4 +672,36 @@ export interface SDKMethodDefinition {
   label: string;
   description: string;
   params: SDKMethodParam[];
+  /** OpenAPI tag used to group generated methods */
+  tag?: string;
+  /** Set for generated methods, which are called via `AnythingLLMClient.callEndpoint` */
+  endpoint?: SDKEndpoint;
+}
+
+/** A playground call as saved in a collection: what to run, not what happened */
+export interface PlaygroundRequest {
+  id: string;
+  /** `SDKMethodDefinition.method` */
+  method: string;
+  label: string;
+  /** Form values as entered */
+  args: Record<string, any>;
+}
+
+/** An executed playground call */
+export interface PlaygroundCall extends PlaygroundRequest {
+  at: string;
+  durationMs: number;
+  /** JSON result, truncated for storage */
+  result?: string;
+  error?: string;
+  /** HTTP calls made; used for curl/Python snippets */
+  exchanges: HttpExchange[];
+}
+
+export interface PlaygroundCollection {
+  id: string;
+  name: string;
+  requests: PlaygroundRequest[];
+  updatedAt: string;
 }
\ No newline at end of file